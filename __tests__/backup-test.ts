@@ -0,0 +1,83 @@
+import { BACKUP_VERSION, decryptBackup, encryptBackup } from '../src/utils/backup';
+
+jest.mock('@synonymdev/react-native-ldk', () => ({
+  ENetworks: { mainnet: 'bitcoin', testnet: 'testnet', regtest: 'regtest' },
+}));
+jest.mock('../src/state/store', () => ({}));
+jest.mock('../src/utils/bitcoin', () => ({}));
+jest.mock('../src/utils/keychain', () => ({}));
+jest.mock('../src/utils/lightning/helpers', () => ({}));
+jest.mock('../src/utils/logger', () => ({}));
+jest.mock('../src/utils/backup/local', () => ({}));
+jest.mock('../src/utils/wallet', () => ({
+  getSelectedNetwork: () => 'bitcoin',
+}));
+
+const seed = Buffer.alloc(64, 1);
+const data = JSON.stringify({ channels: ['channel monitor'], manager: 'channel manager' });
+
+const tamper = (archive: string, changes: object): string =>
+  JSON.stringify({ ...JSON.parse(archive), ...changes });
+
+describe('encryptBackup and decryptBackup', () => {
+  it('restores the data that was backed up', () => {
+    const archive = encryptBackup({ data, seed });
+    const backup = JSON.parse(archive);
+    expect(backup).toMatchObject({ version: BACKUP_VERSION, network: 'bitcoin' });
+    expect(archive).not.toContain('channel monitor');
+
+    const res = decryptBackup({ archive, seed });
+    expect(res.isOk() && res.value).toBe(data);
+  });
+
+  it('uses a fresh iv for every backup', () => {
+    const first = JSON.parse(encryptBackup({ data, seed }));
+    const second = JSON.parse(encryptBackup({ data, seed }));
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('rejects backups of another wallet', () => {
+    const archive = encryptBackup({ data, seed });
+    const res = decryptBackup({ archive, seed: Buffer.alloc(64, 2) });
+    expect(res.isErr()).toBe(true);
+  });
+
+  it('rejects tampered ciphertexts, ivs and headers', () => {
+    const archive = encryptBackup({ data, seed });
+    const backup = JSON.parse(archive);
+    const ciphertext = Buffer.from(backup.ciphertext, 'base64');
+    ciphertext[0] = ciphertext[0] === 0 ? 1 : 0;
+    const tamperedArchives = [
+      tamper(archive, { ciphertext: ciphertext.toString('base64') }),
+      tamper(archive, { iv: '00'.repeat(16) }),
+      tamper(archive, { timestamp: backup.timestamp + 1 }),
+      tamper(archive, { mac: '00'.repeat(32) }),
+    ];
+    tamperedArchives.forEach((tamperedArchive) => {
+      const res = decryptBackup({ archive: tamperedArchive, seed });
+      expect(res.isErr() && res.error.message).toBe(
+        'Backup does not belong to this wallet or has been tampered with'
+      );
+    });
+  });
+
+  it('rejects backups of another network or an unsupported version', () => {
+    const archive = encryptBackup({ data, seed, selectedNetwork: 'bitcoinTestnet' });
+    expect(decryptBackup({ archive, seed }).isErr()).toBe(true);
+    expect(decryptBackup({ archive: tamper(archive, { network: 'bitcoin' }), seed }).isErr()).toBe(
+      true
+    );
+    expect(
+      decryptBackup({
+        archive: tamper(archive, { version: BACKUP_VERSION + 1 }),
+        seed,
+        selectedNetwork: 'bitcoinTestnet',
+      }).isErr()
+    ).toBe(true);
+  });
+
+  it('rejects archives that are not json', () => {
+    expect(decryptBackup({ archive: 'not a backup', seed }).isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { createBip21Uri, isBip21Uri, parseBip21Uri, validateAddress } from '../src/utils/bip21';
+
+jest.mock('@synonymdev/react-native-ldk', () => ({
+  ENetworks: { mainnet: 'bitcoin', testnet: 'testnet', regtest: 'regtest' },
+}));
+jest.mock('../src/utils/wallet', () => ({
+  getSelectedNetwork: () => 'bitcoin',
+}));
+
+// BIP173 test vectors
+const MAINNET_ADDRESS = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+const TESTNET_ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+const INVOICE = 'lnbc1mockinvoice';
+
+describe('isBip21Uri', () => {
+  it('matches the bitcoin scheme regardless of case', () => {
+    expect(isBip21Uri(`bitcoin:${MAINNET_ADDRESS}`)).toBe(true);
+    expect(isBip21Uri(` BITCOIN:${MAINNET_ADDRESS.toUpperCase()}`)).toBe(true);
+    expect(isBip21Uri(MAINNET_ADDRESS)).toBe(false);
+    expect(isBip21Uri(`lightning:${INVOICE}`)).toBe(false);
+  });
+});
+
+describe('validateAddress', () => {
+  it('checks the address against the selected network', () => {
+    expect(validateAddress({ address: MAINNET_ADDRESS })).toBe(true);
+    expect(validateAddress({ address: TESTNET_ADDRESS })).toBe(false);
+    expect(validateAddress({ address: TESTNET_ADDRESS, selectedNetwork: 'bitcoinTestnet' })).toBe(
+      true
+    );
+    expect(validateAddress({ address: 'not an address' })).toBe(false);
+  });
+});
+
+describe('parseBip21Uri', () => {
+  it('parses a bare address', () => {
+    const res = parseBip21Uri({ uri: `bitcoin:${MAINNET_ADDRESS}` });
+    expect(res.isOk() && res.value).toEqual({ address: MAINNET_ADDRESS });
+  });
+
+  it('parses amount, label, message and lightning parameters', () => {
+    const res = parseBip21Uri({
+      uri: `bitcoin:${MAINNET_ADDRESS}?amount=0.00150001&label=Etta%20Cafe&message=Two+coffees&lightning=${INVOICE}`,
+    });
+    expect(res.isOk() && res.value).toEqual({
+      address: MAINNET_ADDRESS,
+      amount: 150001,
+      label: 'Etta Cafe',
+      message: 'Two coffees',
+      lightning: INVOICE,
+    });
+  });
+
+  it('converts amounts to sats without rounding errors', () => {
+    const res = parseBip21Uri({ uri: `bitcoin:${MAINNET_ADDRESS}?amount=0.29` });
+    expect(res.isOk() && res.value.amount).toBe(29000000);
+  });
+
+  it('rejects invalid amounts', () => {
+    ['1.123456789', '-1', 'abc', '.'].forEach((amount) => {
+      const res = parseBip21Uri({ uri: `bitcoin:${MAINNET_ADDRESS}?amount=${amount}` });
+      expect(res.isErr()).toBe(true);
+    });
+  });
+
+  it('accepts a lightning invoice without an address', () => {
+    const res = parseBip21Uri({ uri: `bitcoin:?lightning=${INVOICE}` });
+    expect(res.isOk() && res.value).toEqual({ address: '', lightning: INVOICE });
+  });
+
+  it('rejects uris without an address or invoice', () => {
+    expect(parseBip21Uri({ uri: 'bitcoin:?amount=1' }).isErr()).toBe(true);
+  });
+
+  it('rejects addresses of another network', () => {
+    expect(parseBip21Uri({ uri: `bitcoin:${TESTNET_ADDRESS}` }).isErr()).toBe(true);
+    expect(
+      parseBip21Uri({ uri: `bitcoin:${TESTNET_ADDRESS}`, selectedNetwork: 'bitcoinTestnet' }).isOk()
+    ).toBe(true);
+  });
+
+  it('rejects unknown required parameters and ignores optional ones', () => {
+    expect(parseBip21Uri({ uri: `bitcoin:${MAINNET_ADDRESS}?req-somethingnew=1` }).isErr()).toBe(
+      true
+    );
+    expect(parseBip21Uri({ uri: `bitcoin:${MAINNET_ADDRESS}?somethingnew=1` }).isOk()).toBe(true);
+  });
+
+  it('parses the uris it creates', () => {
+    const uri = createBip21Uri({
+      address: MAINNET_ADDRESS,
+      amountSats: 2100,
+      label: 'Etta & co',
+      lightning: INVOICE,
+    });
+    const res = parseBip21Uri({ uri });
+    expect(res.isOk() && res.value).toEqual({
+      address: MAINNET_ADDRESS,
+      amount: 2100,
+      label: 'Etta & co',
+      lightning: INVOICE.toUpperCase(),
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { createUtxo, RECIPIENT } from './helpers/onchain';
+import { getCpfpBoost, getRbfBoost } from '../src/utils/transaction';
+import { EBoostType, TOnchainTransaction } from '../src/utils/types';
+import { getWalletStore } from '../src/utils/wallet';
+
+const CHANGE = 'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7';
+
+const spentUtxo = createUtxo("m/84'/1'/0'/0/0", 80000, 800000, 'aa');
+const confirmedUtxo = createUtxo("m/84'/1'/0'/0/1", 50000, 800001, 'bb');
+const unconfirmedUtxo = createUtxo("m/84'/1'/0'/0/2", 100000, 0, 'cc');
+
+// 60000 sats to the recipient at 2 sats/vbyte, with 19718 sats of change
+const sentTransaction: TOnchainTransaction = {
+  txid: '11'.repeat(32),
+  hex: '',
+  fee: 282,
+  vbytes: 141,
+  satsPerVbyte: 2,
+  inputs: [spentUtxo],
+  outputs: [
+    { address: RECIPIENT, value: 60000, index: 0 },
+    { address: CHANGE, value: 19718, index: 1 },
+  ],
+  change: 19718,
+  timestamp: 1700000000000,
+};
+
+beforeEach(() => {
+  (getWalletStore as jest.Mock).mockReturnValue({
+    transactions: { bitcoinTestnet: { [sentTransaction.txid]: sentTransaction } },
+    utxos: { bitcoinTestnet: [confirmedUtxo, unconfirmedUtxo] },
+  });
+});
+
+describe('getRbfBoost', () => {
+  it('pays the new fee rate from the change of the original transaction', () => {
+    const boost = getRbfBoost({ txid: sentTransaction.txid, satsPerVbyte: 10 });
+    if (boost.isErr()) {
+      throw boost.error;
+    }
+    expect(boost.value).toMatchObject({
+      type: EBoostType.rbf,
+      satsPerVbyte: 10,
+      fee: 1410,
+      extraFee: 1128,
+    });
+    expect(boost.value.selection).toEqual({
+      inputs: [spentUtxo],
+      outputs: [sentTransaction.outputs[0]],
+      fee: 1410,
+      vbytes: 141,
+      change: 80000 - 60000 - 1410,
+    });
+  });
+
+  it('pays at least the original fee and its own relay fee on top', () => {
+    const boost = getRbfBoost({ txid: sentTransaction.txid, satsPerVbyte: 1 });
+    if (boost.isErr()) {
+      throw boost.error;
+    }
+    expect(boost.value.satsPerVbyte).toBe(3);
+    expect(boost.value.fee).toBeGreaterThanOrEqual(sentTransaction.fee + sentTransaction.vbytes);
+  });
+
+  it('only adds confirmed coins when the change does not cover the fee', () => {
+    const boost = getRbfBoost({ txid: sentTransaction.txid, satsPerVbyte: 200 });
+    if (boost.isErr()) {
+      throw boost.error;
+    }
+    expect(boost.value.selection.inputs).toEqual([spentUtxo, confirmedUtxo]);
+    expect(boost.value.fee).toBe(200 * 209);
+  });
+
+  it('only replaces transactions sent from this wallet', () => {
+    expect(getRbfBoost({ txid: '22'.repeat(32), satsPerVbyte: 10 }).isErr()).toBe(true);
+  });
+});
+
+describe('getCpfpBoost', () => {
+  // a 1 sat/vbyte parent paying this wallet
+  const parentTransaction = { ...sentTransaction, txid: '33'.repeat(32), fee: 141 };
+  const receivedUtxo = createUtxo("m/84'/1'/0'/0/3", 20000, 0, '33');
+
+  beforeEach(() => {
+    (getWalletStore as jest.Mock).mockReturnValue({
+      transactions: { bitcoinTestnet: { [parentTransaction.txid]: parentTransaction } },
+      utxos: { bitcoinTestnet: [receivedUtxo] },
+    });
+  });
+
+  it('pays for the parent and child together at the new fee rate', async () => {
+    const boost = await getCpfpBoost({ utxo: receivedUtxo, satsPerVbyte: 10 });
+    if (boost.isErr()) {
+      throw boost.error;
+    }
+    // the 110 vbyte child spends one input to a single change output
+    const fee = 10 * (141 + 110) - 141;
+    expect(boost.value).toMatchObject({
+      type: EBoostType.cpfp,
+      txid: parentTransaction.txid,
+      satsPerVbyte: 10,
+      fee,
+      extraFee: fee,
+    });
+    expect(boost.value.selection).toEqual({
+      inputs: [receivedUtxo],
+      outputs: [],
+      fee,
+      vbytes: 110,
+      change: 20000 - fee,
+    });
+  });
+
+  it('rejects fee rates the parent already pays', async () => {
+    const boost = await getCpfpBoost({ utxo: receivedUtxo, satsPerVbyte: 1 });
+    expect(boost.isErr()).toBe(true);
+  });
+
+  it('rejects outputs too small to pay for the boost', async () => {
+    const boost = await getCpfpBoost({ utxo: { ...receivedUtxo, value: 2500 }, satsPerVbyte: 10 });
+    expect(boost.isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { clampFees, MAX_FEE_RATE, MIN_FEE_RATE } from '../src/utils/fees';
+import { EFeeSource, IOnchainFees } from '../src/utils/types';
+
+jest.mock('@synonymdev/react-native-ldk', () => ({
+  ENetworks: { mainnet: 'bitcoin', testnet: 'testnet', regtest: 'regtest' },
+}));
+jest.mock('../src/utils/helpers', () => ({}));
+jest.mock('../src/utils/time', () => ({ ONE_HOUR_IN_MILLIS: 60 * 60 * 1000 }));
+jest.mock('../src/utils/electrum/helpers', () => ({}));
+jest.mock('../src/utils/wallet', () => ({}));
+jest.mock('../src/state/models/wallet', () => ({}));
+jest.mock('../src/state/store', () => ({}));
+jest.mock('../src/utils/logger', () => ({}));
+
+const fees: IOnchainFees = {
+  fast: 20,
+  normal: 10,
+  slow: 5,
+  minimum: 2,
+  timestamp: 1700000000000,
+  source: EFeeSource.mempool,
+};
+
+describe('clampFees', () => {
+  it('keeps valid rates as they are', () => {
+    expect(clampFees(fees)).toEqual(fees);
+  });
+
+  it('rounds fractional rates up', () => {
+    const clamped = clampFees({ ...fees, fast: 20.1, normal: 9.5, slow: 4.2, minimum: 1.01 });
+    expect(clamped).toMatchObject({ fast: 21, normal: 10, slow: 5, minimum: 2 });
+  });
+
+  it('keeps rates within the allowed range', () => {
+    const clamped = clampFees({ ...fees, fast: 5000, normal: 0, slow: -3, minimum: 0.2 });
+    expect(clamped.fast).toBe(MAX_FEE_RATE);
+    expect(clamped.minimum).toBe(MIN_FEE_RATE);
+    expect(clamped.slow).toBe(MIN_FEE_RATE);
+    expect(clamped.normal).toBe(MIN_FEE_RATE);
+  });
+
+  it('never lets a faster tier pay less than a slower one', () => {
+    const clamped = clampFees({ ...fees, fast: 3, normal: 8, slow: 2, minimum: 6 });
+    expect(clamped).toMatchObject({ fast: 8, normal: 8, slow: 6, minimum: 6 });
+  });
+
+  it('keeps the timestamp and source', () => {
+    const clamped = clampFees({ ...fees, source: EFeeSource.electrum });
+    expect(clamped.timestamp).toBe(fees.timestamp);
+    expect(clamped.source).toBe(EFeeSource.electrum);
+  });
+});
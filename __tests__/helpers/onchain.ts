@@ -0,0 +1,73 @@
+/**
+ * Mocks and fixtures shared by the on-chain wallet tests. Import it before the modules
+ * under test so the mocks are registered first.
+ */
+import * as bip39 from 'bip39';
+import * as bitcoin from 'bitcoinjs-lib';
+import { BIP32Interface } from 'bip32';
+import { getRootKeyFromSeed, toXOnly } from '../../src/utils/bitcoin';
+import { getBitcoinJSNetwork } from '../../src/utils/networks';
+import { IUtxo } from '../../src/utils/types';
+
+jest.mock('@synonymdev/react-native-ldk', () => ({
+  ENetworks: { mainnet: 'bitcoin', testnet: 'testnet', regtest: 'regtest' },
+}));
+jest.mock('../../src/state/store', () => ({}));
+jest.mock('../../src/utils/lightning/helpers', () => ({}));
+jest.mock('../../src/utils/chain', () => ({ getChainSource: jest.fn() }));
+jest.mock('../../src/utils/wallet', () => ({
+  getSelectedNetwork: () => 'bitcoinTestnet',
+  getSelectedAddressType: () => 'p2wpkh',
+  getChangeAddress: jest.fn(),
+  getWalletStore: jest.fn(),
+}));
+jest.mock('../../src/utils/bitcoin', () => ({
+  ...jest.requireActual('../../src/utils/bitcoin'),
+  getRootKey: jest.fn(),
+}));
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+// BIP173 test vector, a 22 byte p2wpkh output script
+export const RECIPIENT = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+
+export const network = getBitcoinJSNetwork('bitcoinTestnet');
+export const root: BIP32Interface = getRootKeyFromSeed(
+  bip39.mnemonicToSeedSync(MNEMONIC),
+  'bitcoinTestnet'
+);
+
+/**
+ * Returns a utxo paying the address of the given path, of the address type its purpose implies.
+ * @param {string} path
+ * @param {number} value
+ * @param {number} height 0 for unconfirmed utxos
+ * @param {string} txHashByte repeated into the hash of the funding transaction
+ * @returns {IUtxo}
+ */
+export const createUtxo = (
+  path: string,
+  value: number,
+  height: number,
+  txHashByte: string
+): IUtxo => {
+  const pubkey = root.derivePath(path).publicKey;
+  const purpose = path.split('/')[1];
+  let address = bitcoin.payments.p2wpkh({ pubkey, network }).address!;
+  if (purpose === "86'") {
+    address = bitcoin.payments.p2tr({ internalPubkey: toXOnly(pubkey), network }).address!;
+  } else if (purpose === "49'") {
+    const redeem = bitcoin.payments.p2wpkh({ pubkey, network });
+    address = bitcoin.payments.p2sh({ redeem, network }).address!;
+  }
+  return {
+    address,
+    index: 0,
+    path,
+    scriptHash: '',
+    height,
+    tx_hash: txHashByte.repeat(32),
+    tx_pos: 0,
+    value,
+  };
+};
@@ -0,0 +1,184 @@
+import { bech32 } from 'bech32';
+import * as bitcoin from 'bitcoinjs-lib';
+import ldk from '@synonymdev/react-native-ldk/dist/ldk';
+import {
+  decodeLnurl,
+  fetchLnurlPayInvoice,
+  getInvoiceDescriptionHash,
+  getLightningAddressUrl,
+  isLightningAddress,
+  isLnurl,
+  parseLnurlPayMetadata,
+} from '../src/utils/lightning/lnurl';
+import { ok } from '../src/utils/result';
+import { TLnurlPayParams } from '../src/utils/types';
+
+jest.mock('@synonymdev/react-native-ldk', () => ({
+  ENetworks: { mainnet: 'bitcoin', testnet: 'testnet', regtest: 'regtest' },
+}));
+jest.mock('@synonymdev/react-native-ldk/dist/ldk', () => ({ decode: jest.fn() }));
+jest.mock('../src/state/store', () => ({}));
+jest.mock('../src/utils/wallet', () => ({}));
+jest.mock('../src/utils/lightning/helpers', () => ({}));
+
+const METADATA = JSON.stringify([
+  ['text/plain', 'Tip for Etta'],
+  ['text/long-desc', 'Thanks for building a wallet'],
+  ['text/identifier', 'satoshi@ettawallet.app'],
+  ['image/png;base64', 'iVBORw0KGgo='],
+]);
+
+/**
+ * Builds a bolt11 shaped payment request carrying the given tagged fields.
+ * The timestamp and signature are zeroed, only the field layout matters here.
+ */
+const createPaymentRequest = (fields: { tag: number; data: Buffer }[]): string => {
+  const words = [...Array(7).fill(0)];
+  fields.forEach(({ tag, data }) => {
+    const dataWords = bech32.toWords(data);
+    words.push(tag, Math.floor(dataWords.length / 32), dataWords.length % 32, ...dataWords);
+  });
+  words.push(...Array(104).fill(0));
+  return bech32.encode('lnbc10n', words, Number.MAX_SAFE_INTEGER);
+};
+
+const metadataHash = bitcoin.crypto.sha256(Buffer.from(METADATA, 'utf8'));
+const paymentHashField = { tag: 1, data: Buffer.alloc(32, 1) };
+const descriptionHashField = { tag: 23, data: metadataHash };
+
+describe('isLnurl and isLightningAddress', () => {
+  it('recognises bech32 LNURLs and LUD-17 urls', () => {
+    expect(isLnurl('LNURL1DP68GURN8GHJ7')).toBe(true);
+    expect(isLnurl('lnurlp://ettawallet.app/pay')).toBe(true);
+    expect(isLnurl('https://ettawallet.app')).toBe(false);
+  });
+
+  it('recognises Lightning Addresses', () => {
+    expect(isLightningAddress('satoshi@ettawallet.app')).toBe(true);
+    expect(isLightningAddress('satoshi@ettawallet')).toBe(false);
+    expect(isLightningAddress('ettawallet.app')).toBe(false);
+  });
+
+  it('returns the well-known url of a Lightning Address', () => {
+    const url = getLightningAddressUrl('Satoshi@EttaWallet.app');
+    expect(url.isOk() && url.value).toBe('https://ettawallet.app/.well-known/lnurlp/satoshi');
+  });
+});
+
+describe('decodeLnurl', () => {
+  const url = 'https://ettawallet.app/lnurlp/satoshi?tag=pay';
+  const lnurl = bech32.encode('lnurl', bech32.toWords(Buffer.from(url, 'utf8')), 2000);
+
+  it('decodes bech32 LNURLs of any case', () => {
+    const lowerCase = decodeLnurl(lnurl);
+    const upperCase = decodeLnurl(`lightning:${lnurl.toUpperCase()}`);
+    expect(lowerCase.isOk() && lowerCase.value).toBe(url);
+    expect(upperCase.isOk() && upperCase.value).toBe(url);
+  });
+
+  it('maps LUD-17 schemes onto https, or http for onion services', () => {
+    const clearnet = decodeLnurl('lnurlw://ettawallet.app/withdraw?k1=abc');
+    const onion = decodeLnurl('lnurlp://etta.onion/pay');
+    expect(clearnet.isOk() && clearnet.value).toBe('https://ettawallet.app/withdraw?k1=abc');
+    expect(onion.isOk() && onion.value).toBe('http://etta.onion/pay');
+  });
+
+  it('rejects other bech32 strings', () => {
+    const address = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+    expect(decodeLnurl(address).isErr()).toBe(true);
+    expect(decodeLnurl('lnurl1invalid').isErr()).toBe(true);
+  });
+});
+
+describe('parseLnurlPayMetadata', () => {
+  it('reads the description, long description, identifier and image', () => {
+    expect(parseLnurlPayMetadata(METADATA)).toEqual({
+      description: 'Tip for Etta',
+      longDescription: 'Thanks for building a wallet',
+      identifier: 'satoshi@ettawallet.app',
+      image: 'data:image/png;base64,iVBORw0KGgo=',
+    });
+  });
+
+  it('leaves the description empty for malformed metadata', () => {
+    expect(parseLnurlPayMetadata('not json')).toEqual({ description: '' });
+  });
+});
+
+describe('getInvoiceDescriptionHash', () => {
+  it('returns the description hash of a payment request', () => {
+    const paymentRequest = createPaymentRequest([paymentHashField, descriptionHashField]);
+    expect(getInvoiceDescriptionHash(paymentRequest)).toBe(metadataHash.toString('hex'));
+    expect(getInvoiceDescriptionHash(`lightning:${paymentRequest.toUpperCase()}`)).toBe(
+      metadataHash.toString('hex')
+    );
+  });
+
+  it('returns undefined when there is no description hash', () => {
+    expect(getInvoiceDescriptionHash(createPaymentRequest([paymentHashField]))).toBeUndefined();
+    expect(getInvoiceDescriptionHash('not an invoice')).toBeUndefined();
+  });
+});
+
+describe('fetchLnurlPayInvoice', () => {
+  const params: TLnurlPayParams = {
+    tag: 'payRequest',
+    callback: 'https://ettawallet.app/lnurlp/satoshi/callback',
+    minSendable: 1000,
+    maxSendable: 100000000,
+    metadata: METADATA,
+    commentAllowed: 0,
+    domain: 'ettawallet.app',
+  };
+
+  const respondWith = (pr: string): void => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ pr, routes: [] }),
+    });
+  };
+
+  beforeEach(() => {
+    (ldk.decode as jest.Mock).mockResolvedValue(ok({ amount_satoshis: 1 }));
+  });
+
+  it('accepts an invoice committing to the metadata', async () => {
+    respondWith(createPaymentRequest([paymentHashField, descriptionHashField]));
+    const res = await fetchLnurlPayInvoice({ params, amountSats: 1 });
+    expect(res.isOk()).toBe(true);
+    expect(global.fetch).toHaveBeenCalledWith(`${params.callback}?amount=1000`);
+  });
+
+  it('rejects an invoice committing to other metadata', async () => {
+    const otherHash = bitcoin.crypto.sha256(Buffer.from('[]', 'utf8'));
+    respondWith(createPaymentRequest([paymentHashField, { tag: 23, data: otherHash }]));
+    const res = await fetchLnurlPayInvoice({ params, amountSats: 1 });
+    expect(res.isErr() && res.error.message).toBe(
+      'The invoice description hash does not match the payment metadata.'
+    );
+  });
+
+  it('rejects an invoice without a description hash', async () => {
+    respondWith(createPaymentRequest([paymentHashField]));
+    const res = await fetchLnurlPayInvoice({ params, amountSats: 1 });
+    expect(res.isErr() && res.error.message).toBe(
+      'The invoice description hash does not match the payment metadata.'
+    );
+  });
+
+  it('rejects an invoice for another amount', async () => {
+    (ldk.decode as jest.Mock).mockResolvedValue(ok({ amount_satoshis: 2 }));
+    respondWith(createPaymentRequest([paymentHashField, descriptionHashField]));
+    const res = await fetchLnurlPayInvoice({ params, amountSats: 1 });
+    expect(res.isErr() && res.error.message).toBe(
+      'The invoice amount does not match the amount requested.'
+    );
+  });
+
+  it('rejects amounts outside the sendable range', async () => {
+    global.fetch = jest.fn();
+    const res = await fetchLnurlPayInvoice({ params, amountSats: 100001 });
+    expect(res.isErr()).toBe(true);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
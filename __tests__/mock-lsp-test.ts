@@ -0,0 +1,60 @@
+import { mockLsp } from '../src/utils/lsp/mock';
+import { ELsps1OrderState, ELsps1PaymentState } from '../src/utils/types';
+
+jest.mock('@synonymdev/react-native-ldk', () => ({
+  ENetworks: { mainnet: 'bitcoin', testnet: 'testnet', regtest: 'regtest' },
+}));
+
+describe('mockLsp', () => {
+  it('charges 1% with a 1000 sats minimum', async () => {
+    const smallQuote = await mockLsp.getFeeQuote(50000);
+    const largeQuote = await mockLsp.getFeeQuote(250001);
+    expect(smallQuote.isOk() && smallQuote.value).toBe(1000);
+    expect(largeQuote.isOk() && largeQuote.value).toBe(2501);
+  });
+
+  it('returns invoices unwrapped', async () => {
+    const wrapped = await mockLsp.wrapInvoice('lnbcrt1mock');
+    expect(wrapped.isOk() && wrapped.value).toBe('lnbcrt1mock');
+  });
+
+  it('is always online', async () => {
+    const status = await mockLsp.getStatus();
+    expect(status.isOk() && status.value.online).toBe(true);
+  });
+
+  it('settles channel orders on the next status check', async () => {
+    const lsps1 = mockLsp.lsps1!;
+    const info = await lsps1.getInfo();
+    expect(info.isOk()).toBe(true);
+
+    const order = await lsps1.createOrder({
+      inboundSats: 500000,
+      channelExpiryBlocks: 4320,
+      nodeId: '02'.padEnd(66, '0'),
+    });
+    if (order.isErr()) {
+      throw order.error;
+    }
+    expect(order.value).toMatchObject({
+      providerId: 'mock',
+      inboundSats: 500000,
+      feeSats: 5000,
+      totalSats: 5000,
+      state: ELsps1OrderState.created,
+      paymentState: ELsps1PaymentState.expectPayment,
+    });
+
+    const refreshed = await lsps1.getOrder(order.value.orderId);
+    if (refreshed.isErr()) {
+      throw refreshed.error;
+    }
+    expect(refreshed.value.state).toBe(ELsps1OrderState.completed);
+    expect(refreshed.value.paymentState).toBe(ELsps1PaymentState.paid);
+  });
+
+  it('rejects unknown orders', async () => {
+    const order = await mockLsp.lsps1!.getOrder('unknown');
+    expect(order.isErr()).toBe(true);
+  });
+});
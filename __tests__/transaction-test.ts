@@ -0,0 +1,171 @@
+import { createUtxo, network, RECIPIENT, root } from './helpers/onchain';
+import * as bitcoin from 'bitcoinjs-lib';
+import { getRootKey } from '../src/utils/bitcoin';
+import { getChainSource } from '../src/utils/chain';
+import { ok } from '../src/utils/result';
+import { createTransaction, DUST_LIMIT, selectCoins } from '../src/utils/transaction';
+import { getChangeAddress } from '../src/utils/wallet';
+
+const unconfirmedUtxo = createUtxo("m/84'/1'/0'/0/0", 100000, 0, 'aa');
+const smallUtxo = createUtxo("m/84'/1'/0'/0/1", 50000, 800000, 'bb');
+const largeUtxo = createUtxo("m/84'/1'/0'/0/2", 80000, 800001, 'cc');
+
+describe('selectCoins', () => {
+  const outputs = [{ address: RECIPIENT, value: 60000, index: 0 }];
+
+  it('spends confirmed and larger coins first and returns the change', () => {
+    const selection = selectCoins({
+      utxos: [unconfirmedUtxo, smallUtxo, largeUtxo],
+      outputs,
+      satsPerVbyte: 2,
+    });
+    // 11 vbytes overhead, 31 for the recipient, 68 for the input and 31 for the change
+    expect(selection.isOk() && selection.value).toEqual({
+      inputs: [largeUtxo],
+      outputs,
+      fee: 282,
+      vbytes: 141,
+      change: 19718,
+    });
+  });
+
+  it('adds coins until the amount and fee are covered', () => {
+    const selection = selectCoins({
+      utxos: [unconfirmedUtxo, smallUtxo, largeUtxo],
+      outputs: [{ address: RECIPIENT, value: 120000, index: 0 }],
+      satsPerVbyte: 2,
+    });
+    expect(selection.isOk() && selection.value.inputs).toEqual([largeUtxo, smallUtxo]);
+    expect(selection.isOk() && selection.value.change).toBe(130000 - 120000 - 2 * 209);
+  });
+
+  it('leaves change below the dust limit to the miners', () => {
+    const selection = selectCoins({
+      utxos: [largeUtxo],
+      outputs: [{ address: RECIPIENT, value: 79500, index: 0 }],
+      satsPerVbyte: 2,
+    });
+    expect(selection.isOk() && selection.value).toMatchObject({ fee: 500, vbytes: 110, change: 0 });
+  });
+
+  it('always spends the required inputs', () => {
+    const selection = selectCoins({
+      utxos: [smallUtxo, largeUtxo, unconfirmedUtxo],
+      requiredInputs: [unconfirmedUtxo],
+      outputs,
+      satsPerVbyte: 2,
+    });
+    expect(selection.isOk() && selection.value.inputs).toEqual([unconfirmedUtxo]);
+  });
+
+  it('sweeps every coin into the recipient when sending the full balance', () => {
+    const selection = selectCoins({
+      utxos: [smallUtxo, largeUtxo],
+      outputs: [{ address: RECIPIENT, index: 0 }],
+      satsPerVbyte: 2,
+      sendMax: true,
+    });
+    expect(selection.isOk() && selection.value).toEqual({
+      inputs: [smallUtxo, largeUtxo],
+      outputs: [{ address: RECIPIENT, value: 130000 - 356, index: 0 }],
+      fee: 356,
+      vbytes: 178,
+      change: 0,
+    });
+  });
+
+  it('rejects invalid payments', () => {
+    const utxos = [smallUtxo, largeUtxo];
+    expect(selectCoins({ utxos, outputs: [], satsPerVbyte: 2 }).isErr()).toBe(true);
+    expect(
+      selectCoins({
+        utxos,
+        outputs: [{ address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', value: 1000, index: 0 }],
+        satsPerVbyte: 2,
+      }).isErr()
+    ).toBe(true);
+    expect(
+      selectCoins({
+        utxos,
+        outputs: [{ address: RECIPIENT, value: DUST_LIMIT - 1, index: 0 }],
+        satsPerVbyte: 2,
+      }).isErr()
+    ).toBe(true);
+    expect(
+      selectCoins({
+        utxos,
+        outputs: [{ address: RECIPIENT, value: 130000, index: 0 }],
+        satsPerVbyte: 2,
+      }).isErr()
+    ).toBe(true);
+  });
+});
+
+describe('createTransaction', () => {
+  const changeAddress = createUtxo("m/84'/1'/0'/1/0", 0, 0, '00').address;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRootKey as jest.Mock).mockResolvedValue(ok(root));
+    (getChangeAddress as jest.Mock).mockResolvedValue(
+      ok({ address: changeAddress, path: "m/84'/1'/0'/1/0" })
+    );
+  });
+
+  it('signs native segwit, nested segwit and taproot inputs and adds the change', async () => {
+    const inputs = [
+      largeUtxo,
+      createUtxo("m/49'/1'/0'/0/0", 30000, 800000, 'dd'),
+      createUtxo("m/86'/1'/0'/0/0", 40000, 800000, 'ee'),
+    ];
+    const selection = selectCoins({
+      utxos: inputs,
+      outputs: [{ address: RECIPIENT, value: 140000, index: 0 }],
+      satsPerVbyte: 5,
+    });
+    if (selection.isErr()) {
+      throw selection.error;
+    }
+
+    const res = await createTransaction({ selection: selection.value, satsPerVbyte: 5 });
+    if (res.isErr()) {
+      throw res.error;
+    }
+    const transaction = bitcoin.Transaction.fromHex(res.value.hex);
+    expect(transaction.getId()).toBe(res.value.txid);
+    expect(transaction.ins).toHaveLength(3);
+    // every input signals replace-by-fee
+    transaction.ins.forEach((input) => expect(input.sequence).toBe(0xfffffffd));
+    expect(transaction.outs.map((output) => output.value)).toEqual([
+      140000,
+      selection.value.change,
+    ]);
+    expect(bitcoin.address.fromOutputScript(transaction.outs[1].script, network)).toBe(
+      changeAddress
+    );
+    const inputsValue = inputs.reduce((acc, utxo) => acc + utxo.value, 0);
+    const outputsValue = transaction.outs.reduce((acc, output) => acc + output.value, 0);
+    expect(inputsValue - outputsValue).toBe(res.value.fee);
+    // the estimate never undershoots, or the fee rate would end up below the one selected
+    expect(transaction.virtualSize()).toBeLessThanOrEqual(res.value.vbytes);
+    expect(getChainSource).not.toHaveBeenCalled();
+  });
+
+  it('does not add a change output when there is no change', async () => {
+    const res = await createTransaction({
+      selection: {
+        inputs: [largeUtxo],
+        outputs: [{ address: RECIPIENT, value: 79500, index: 0 }],
+        fee: 500,
+        vbytes: 110,
+        change: 0,
+      },
+      satsPerVbyte: 2,
+    });
+    if (res.isErr()) {
+      throw res.error;
+    }
+    expect(bitcoin.Transaction.fromHex(res.value.hex).outs).toHaveLength(1);
+    expect(getChangeAddress).not.toHaveBeenCalled();
+  });
+});
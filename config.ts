@@ -22,5 +22,15 @@ export const VOLTAGE_LSP_PUBKEY =
   '025804d4431ad05b06a1a1ee41f22fefeb8ce800b0be3a92ff3b9f594a263da34e';
 export const VOLTAGE_LSP_API_TESTNET = 'https://testnet-lsp.voltageapi.com/api/v1/proposal';
 export const VOLTAGE_LSP_FEE_ESTIMATE_API = 'https://testnet-lsp.voltageapi.com/api/v1/fee';
+export const VOLTAGE_LSP_INFO_API = 'https://testnet-lsp.voltageapi.com/api/v1/info';
+
+export const OLYMPUS_LSP_PUBKEY =
+  '031b301307574bbe9b9ac7b79cbe1700e31e544513eae0b5d7497483083f99e581';
+export const OLYMPUS_LSP_PUBKEY_TESTNET =
+  '03e84a109cd70e57864274932fc87c5e6434c59ebb8e6e7d28532219ba38f7f6df';
+export const OLYMPUS_LSP_API = 'https://0conf.lnolymp.us/api/v1';
+export const OLYMPUS_LSP_API_TESTNET = 'https://testnet-0conf.lnolymp.us/api/v1';
+export const OLYMPUS_LSPS1_API = 'https://lsps1.lnolymp.us/api/v1';
+export const OLYMPUS_LSPS1_API_TESTNET = 'https://testnet-lsps1.lnolymp.us/api/v1';
 
 export const ALERTS_DURATION = 5000;
@@ -1,10 +1,45 @@
 import React from 'react';
-import { Platform, StyleProp, StyleSheet, Text, TextStyle, View } from 'react-native';
-import { Icon, TypographyPresets } from 'etta-ui';
-import { getLightningStore } from '../utils/lightning/helpers';
+import {
+  Platform,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextStyle,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Colors, Icon, TypographyPresets } from 'etta-ui';
+import { useStoreState } from '../state/hooks';
+import { navigate } from '../navigation/NavigationService';
+import { Screens } from '../navigation/Screens';
+
+/**
+ * On-chain balance of the selected network, shown alongside the lightning balance.
+ * Funds from closed channels land here.
+ */
+export const OnchainBalance = () => {
+  const onchainBalance = useStoreState(
+    (state) => state.wallet.onchainBalance[state.wallet.selectedNetwork]
+  );
+
+  return (
+    <View style={styles.onchainContainer}>
+      <Icon name="icon-bitcoin-2" style={styles.onchainIcon} />
+      <Text style={styles.onchainBalance}>{`On-chain: ${onchainBalance.confirmed} sats`}</Text>
+      {onchainBalance.unconfirmed !== 0 ? (
+        // pending transactions can be sped up from here
+        <TouchableOpacity onPress={() => navigate(Screens.BoostTransactionScreen)}>
+          <Text style={styles.unconfirmedBalance}>
+            {` (${onchainBalance.unconfirmed > 0 ? '+' : ''}${onchainBalance.unconfirmed} pending)`}
+          </Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+};
 
 export const HomeBalance = ({ style = styles.balance }: { style?: StyleProp<TextStyle> }) => {
-  const balance = getLightningStore().claimableBalance;
+  const balance = useStoreState((state) => state.lightning.claimableBalance);
 
   const fiatValue: number = 0;
 
@@ -14,6 +49,7 @@ export const HomeBalance = ({ style = styles.balance }: { style?: StyleProp<Text
       <Text style={style}>{balance}</Text>
       {/* Show fiat value if enabled in settings */}
       <Text style={styles.fiatValue}>UGX {fiatValue}</Text>
+      <OnchainBalance />
     </View>
   );
 };
@@ -39,4 +75,25 @@ const styles = StyleSheet.create({
     fontFamily: fontFamilyChoice,
     marginVertical: 5,
   },
+  onchainContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  onchainIcon: {
+    fontSize: 16,
+    color: Colors.neutrals.light.neutral7,
+    marginRight: 4,
+  },
+  onchainBalance: {
+    ...TypographyPresets.Body4,
+    fontFamily: fontFamilyChoice,
+    color: Colors.neutrals.light.neutral7,
+  },
+  unconfirmedBalance: {
+    ...TypographyPresets.Body5,
+    fontFamily: fontFamilyChoice,
+    color: Colors.orange.base,
+  },
 });
@@ -32,8 +32,12 @@ const InvoiceActionsBar = (props: ActionProps) => {
     // pull up device share flow (QR code image or invoice?)
     cueInformativeHaptic();
     try {
+      // bitcoin uris and addresses are shared as is
+      const isInvoice = props.paymentRequest.toLowerCase().startsWith('ln');
       const result = await Share.share({
-        message: `lightning: ${props.paymentRequest.toUpperCase()}`,
+        message: isInvoice
+          ? `lightning: ${props.paymentRequest.toUpperCase()}`
+          : props.paymentRequest,
       });
       if (result.action === Share.sharedAction) {
         if (result.activityType) {
@@ -85,6 +85,11 @@ const useLiquidityOptionBottomSheet = () => {
     const onPressOpen = async () => {
       try {
         cueInformativeHaptic();
+        if (liquidityOption === 'Purchase') {
+          bottomSheetRef.current?.close();
+          navigate(Screens.BuyChannelScreen, { inboundSats: liquidityAmount });
+          return;
+        }
         await sleep(5);
         await fetchInvoice();
         // check if invoice was set
@@ -137,6 +142,15 @@ const useLiquidityOptionBottomSheet = () => {
             isSelected={liquidityOption === 'Default'}
             data={'Default'}
           />
+          <RadioCardOption
+            hideRadio={!true}
+            title="Buy up front"
+            description="Pay once for a channel that stays open, with no fee on every top-up"
+            key="purchase"
+            onSelect={onSelect}
+            isSelected={liquidityOption === 'Purchase'}
+            data={'Purchase'}
+          />
           <RadioCardOption
             hideRadio={!true}
             title="Custom"
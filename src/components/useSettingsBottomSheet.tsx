@@ -44,6 +44,11 @@ const useSettingsBottomSheet = () => {
       navigate(Screens.SecuritySettingsScreen);
     };
 
+    const onPressWallets = () => {
+      cueInformativeHaptic();
+      navigate(Screens.WalletsScreen);
+    };
+
     const onPressBackup = () => {
       cueInformativeHaptic();
       navigate(Screens.WalletBackupScreen);
@@ -96,6 +101,12 @@ const useSettingsBottomSheet = () => {
             icon="icon-lock"
             onPress={onPressSecurity}
           />
+          <SettingsItemWithIcon
+            title="Wallets"
+            withIcon={true}
+            icon="icon-wallet-2"
+            onPress={onPressWallets}
+          />
           <SettingsItemWithIcon
             title="Wallet backup"
             withIcon={true}
@@ -1,15 +1,7 @@
 import { err, ok, Result } from '../utils/result';
-//@ts-ignore
-import * as electrum from 'rn-electrum-client/helpers';
-import {
-  getBlockHeader,
-  getBlockHex,
-  getScriptPubKeyHistory,
-  broadcastTransaction,
-} from '../utils/electrum';
 import lm, {
-  DefaultTransactionDataShape,
   EEventTypes,
+  TChannelManagerChannelClosed,
   TChannelManagerClaim,
   TChannelUpdate,
   TInvoice,
@@ -27,23 +19,42 @@ import {
   updateClaimableBalance,
   getLightningStore,
   addPayment,
+  removePendingWithdrawal,
 } from '../utils/lightning/helpers';
 import { TLightningNodeVersion } from '../utils/types';
+import { completeChannelOrders } from '../utils/lsp/orders';
 import { EmitterSubscription, InteractionManager } from 'react-native';
 import { promiseTimeout, sleep, tryNTimes } from '../utils/helpers';
-import { getBestBlock, getTransactionMerkle } from '../utils/electrum/helpers';
+import { getBestBlock } from '../utils/electrum/helpers';
+import { getChainSource } from '../utils/chain';
 import { getLdkNetwork, TAvailableNetworks } from '../utils/networks';
-import { getReceiveAddress, getSelectedNetwork, getWalletStore } from '../utils/wallet';
+import {
+  getNewReceiveAddress,
+  getSelectedNetwork,
+  getWalletStore,
+  updateFeeEstimates,
+} from '../utils/wallet';
 import { showSuccessBanner, showToast } from '../utils/alerts';
 import { navigate } from '../navigation/NavigationService';
 import { Screens } from '../navigation/Screens';
 import { showErrorBanner } from '../utils/alerts';
+import store from '../state/store';
+import {
+  backupLdk,
+  restoreLdkBackup,
+  subscribeToLdkBackups,
+  unsubscribeFromLdkBackups,
+} from '../utils/backup';
+import Logger from '../utils/logger';
+
+const TAG = 'LDK';
 
 let LDKIsStayingSynced = false;
 
 // Subscribe to LDK module events
 let paymentSubscription: EmitterSubscription | undefined;
 let onChannelSubscription: EmitterSubscription | undefined;
+let onChannelClosedSubscription: EmitterSubscription | undefined;
 let onPaymentFailedSubscription: EmitterSubscription | undefined;
 let onPaymentPathSuccessSubscription: EmitterSubscription | undefined;
 let onPaymentSuccessfulSubscription: EmitterSubscription | undefined;
@@ -198,15 +209,18 @@ const defaultUserConfig: TUserConfig = {
  * In order, this method:
  * 1. Fetches and sets the genesis hash.
  * 2. Retrieves and sets the seed from storage.
- * 3. Starts ldk with the necessary params.
- * 4. Syncs LDK.
+ * 3. Restores the latest channel backup when restoring a wallet.
+ * 4. Starts ldk with the necessary params.
+ * 5. Syncs LDK.
  */
 export const setupLdk = async ({
   selectedNetwork,
   shouldRefreshLdk = true,
+  restore = false,
 }: {
   selectedNetwork: TAvailableNetworks;
   shouldRefreshLdk?: boolean;
+  restore?: boolean;
 }): Promise<Result<string>> => {
   try {
     if (!selectedNetwork) {
@@ -222,18 +236,15 @@ export const setupLdk = async ({
 
     const _getAddress = async (): Promise<string> => {
       // return a valid receive address for the selected network
-      const res = await getReceiveAddress({ selectedNetwork });
-      if (res) {
-        return res;
+      const res = await getNewReceiveAddress({ selectedNetwork });
+      if (res.isOk()) {
+        return res.value;
       }
       return '';
     };
 
     const _broadcastTransaction = async (rawTx: string): Promise<string> => {
-      const res = await broadcastTransaction({
-        rawTx,
-        selectedNetwork,
-      });
+      const res = await getChainSource({ selectedNetwork }).broadcastTransaction(rawTx);
       if (res.isErr()) {
         return '';
       }
@@ -245,25 +256,45 @@ export const setupLdk = async ({
       return err(storageRes.error);
     }
 
-    // derive fees from updated state
-    const feesStore = getWalletStore().fees;
+    if (restore) {
+      // starting without the existing channel state would overwrite the backup, so bail out instead
+      const restoreRes = await restoreLdkBackup({ account: account.value, selectedNetwork });
+      if (restoreRes.isErr()) {
+        return err(`@restoreLdkBackup: ${restoreRes.error.message}`);
+      }
+    }
+
+    let isRefreshingFees = false;
 
     // start the lightning manager
     const lmStart = await lm.start({
       account: account.value,
-      getFees: () =>
-        Promise.resolve({
-          highPriority: feesStore.fast,
-          normal: feesStore.normal,
-          background: feesStore.slow,
-        }),
+      getFees: () => {
+        // answer from the store right away and refresh it for the next call,
+        // LDK waits on this while sweeping and closing channels
+        if (!isRefreshingFees) {
+          isRefreshingFees = true;
+          updateFeeEstimates({ selectedNetwork })
+            .catch((e) => Logger.error(TAG, 'Unable to refresh fee estimates', e))
+            .finally(() => {
+              isRefreshingFees = false;
+            });
+        }
+        const fees = getWalletStore().fees;
+        return Promise.resolve({
+          highPriority: fees.fast,
+          normal: fees.normal,
+          background: fees.slow,
+        });
+      },
       network: getLdkNetwork(selectedNetwork),
       getBestBlock,
       getAddress: _getAddress,
       broadcastTransaction: _broadcastTransaction,
+      // resolved on every call, so changing the chain source applies without restarting LDK
       getTransactionData: (txId) => _getTransactionData(txId, selectedNetwork),
       getScriptPubKeyHistory: (scriptPubkey) => {
-        return getScriptPubKeyHistory(scriptPubkey, selectedNetwork);
+        return getChainSource({ selectedNetwork }).getScriptPubKeyHistory(scriptPubkey);
       },
       getTransactionPosition: (params) => {
         return getTransactionPosition({ ...params, selectedNetwork });
@@ -295,6 +326,10 @@ export const setupLdk = async ({
     // subscribe to events from LDK
     subscribeToPayments({ selectedNetwork });
 
+    // keep an encrypted copy of the channel state, starting with a full snapshot
+    subscribeToLdkBackups({ account: account.value, selectedNetwork });
+    backupLdk({ account: account.value, selectedNetwork }).then();
+
     return ok(`LDK NodeID: ${nodeIdRes.value}`);
   } catch (e) {
     return err(e.toString());
@@ -311,59 +346,7 @@ export const _getTransactionData = async (
   txId: string = '',
   selectedNetwork?: TAvailableNetworks
 ): Promise<TTransactionData> => {
-  let transactionData = DefaultTransactionDataShape;
-  try {
-    const data = {
-      key: 'tx_hash',
-      data: [
-        {
-          tx_hash: txId,
-        },
-      ],
-    };
-
-    if (selectedNetwork) {
-      selectedNetwork = getSelectedNetwork();
-    }
-
-    const response = await electrum.getTransactions({
-      txHashes: data,
-      network: selectedNetwork,
-    });
-
-    if (response.error || !response.data || response.data[0].error) {
-      console.log(
-        `@getTransactions: something ain't right: ${JSON.stringify(response.data[0].error.message)}`
-      );
-      return transactionData;
-    }
-
-    const { confirmations, hex: hex_encoded_tx, vout } = response.data[0].result;
-    const header = getBlockHeader();
-    const currentHeight = header.height;
-    let confirmedHeight = 0;
-    if (confirmations) {
-      confirmedHeight = currentHeight - confirmations + 1;
-    }
-    const hexEncodedHeader = await getBlockHex({
-      height: confirmedHeight,
-      selectedNetwork,
-    });
-    if (hexEncodedHeader.isErr()) {
-      return transactionData;
-    }
-    const voutData = vout.map(({ n, value, scriptPubKey: { hex } }) => {
-      return { n, hex, value };
-    });
-    return {
-      header: hexEncodedHeader.value,
-      height: confirmedHeight,
-      transaction: hex_encoded_tx,
-      vout: voutData,
-    };
-  } catch {
-    return transactionData;
-  }
+  return await getChainSource({ selectedNetwork }).getTransactionData(txId);
 };
 
 /**
@@ -381,15 +364,7 @@ export const getTransactionPosition = async ({
   height: number;
   selectedNetwork?: TAvailableNetworks;
 }): Promise<TTransactionPosition> => {
-  const response = await getTransactionMerkle({
-    tx_hash,
-    height,
-    selectedNetwork,
-  });
-  if (response.error || isNaN(response.data?.pos) || response.data?.pos < 0) {
-    return -1;
-  }
-  return response.data.pos;
+  return await getChainSource({ selectedNetwork }).getTransactionPosition({ tx_hash, height });
 };
 
 /**
@@ -402,9 +377,8 @@ export const checkWatchTxs = async (): Promise<boolean> => {
   const watchTransactionIds = lm.watchTxs.map((tx) => tx.txid);
   for (const watchTx of lm.watchTxs) {
     if (!checkedScriptPubKeys.includes(watchTx.script_pubkey)) {
-      const scriptPubKeyHistory: { txid: string; height: number }[] = await getScriptPubKeyHistory(
-        watchTx.script_pubkey
-      );
+      const scriptPubKeyHistory: { txid: string; height: number }[] =
+        await getChainSource().getScriptPubKeyHistory(watchTx.script_pubkey);
       for (const data of scriptPubKeyHistory) {
         if (!watchTransactionIds.includes(data?.txid)) {
           const txData = await _getTransactionData(data?.txid);
@@ -501,6 +475,15 @@ export const handlePaymentSubscription = async ({
       invoice: invoice.value,
       selectedNetwork,
     });
+    // settle any LNURL-withdraw that was waiting on this claim
+    const pendingWithdrawal = getLightningStore().pendingWithdrawals[payment.payment_hash];
+    if (pendingWithdrawal) {
+      removePendingWithdrawal({ paymentHash: payment.payment_hash });
+      showSuccessBanner({
+        title: 'Withdrawal received',
+        message: `${pendingWithdrawal.domain} sent you ${pendingWithdrawal.amountSats} sats`,
+      });
+    }
     // showSuccessBanner({
     //   title: 'Received',
     //   message: `You received ${invoice.value.amount_satoshis} sats`,
@@ -527,6 +510,17 @@ export const handleNewChannelSubscription = async ({
   if (!selectedNetwork) {
     selectedNetwork = getSelectedNetwork();
   }
+  // fulfil any channel purchased up front from this counterparty
+  const completedOrders = completeChannelOrders({
+    channelId: channel.channel_id,
+    counterpartyNodeId: channel.counterparty_node_id,
+  });
+  if (completedOrders.length) {
+    showSuccessBanner({
+      title: 'Channel opened',
+      message: `Your channel with ${completedOrders[0].inboundSats} sats inbound capacity is ready`,
+    });
+  }
   const pendingChannel = getPendingChannel({
     channelId: channel.channel_id,
     selectedNetwork,
@@ -577,6 +571,21 @@ export const subscribeToPayments = ({
       refreshLdk({ selectedNetwork }).then();
     });
   }
+  if (!onChannelClosedSubscription) {
+    onChannelClosedSubscription = ldk.onEvent(
+      EEventTypes.channel_manager_channel_closed,
+      (res: TChannelManagerChannelClosed) => {
+        store.dispatch.lightning.closeChannels({
+          channelIds: [res.channel_id],
+          reason: res.reason,
+        });
+        showToast({
+          message: 'A channel was closed. Its funds will return on-chain',
+        });
+        refreshLdk({ selectedNetwork }).then();
+      }
+    );
+  }
   if (!onPaymentPathSuccessSubscription) {
     onPaymentPathSuccessSubscription = ldk.onEvent(
       EEventTypes.channel_manager_payment_path_successful,
@@ -617,8 +626,16 @@ export const subscribeToPayments = ({
 
 export const unsubscribeFromLDKSubscriptions = (): void => {
   paymentSubscription?.remove();
+  paymentSubscription = undefined;
   onChannelSubscription?.remove();
+  onChannelSubscription = undefined;
+  onChannelClosedSubscription?.remove();
+  onChannelClosedSubscription = undefined;
   onPaymentPathSuccessSubscription?.remove();
+  onPaymentPathSuccessSubscription = undefined;
   onPaymentFailedSubscription?.remove();
+  onPaymentFailedSubscription = undefined;
   onPaymentSuccessfulSubscription?.remove();
+  onPaymentSuccessfulSubscription = undefined;
+  unsubscribeFromLdkBackups();
 };
@@ -12,6 +12,7 @@ import {
 import { createBottomSheetNavigator } from '@th3rdwave/react-navigation-bottom-sheet';
 import { noHeader, emptyHeader } from './Headers';
 import WelcomeScreen from '../screens/WelcomeScreen';
+import RestoreWalletScreen from '../screens/RestoreWalletScreen';
 import AppLoading from '../shared/AppLoading';
 import SplashScreen from 'react-native-splash-screen';
 import Logger from '../utils/logger';
@@ -27,9 +28,14 @@ import EnterPin from '../shared/EnterPinScreen';
 import ReceiveScreen from '../screens/ReceiveScreen';
 import LightningChannelsIntroScreen from '../screens/LightningChannelsIntro';
 import JITLiquidityScreen from '../screens/JITLiquidityScreen';
+import BuyChannelScreen from '../screens/BuyChannelScreen';
 import ActivityScreen from '../screens/ActivityScreen';
 import ActivityDetailsScreen from '../screens/ActivityDetailsScreen';
 import SendScreen from '../screens/SendScreen';
+import SendOnchainScreen from '../screens/SendOnchainScreen';
+import BoostTransactionScreen from '../screens/BoostTransactionScreen';
+import LnurlPayScreen from '../screens/LnurlPayScreen';
+import LnurlWithdrawScreen from '../screens/LnurlWithdrawScreen';
 import StartLdkScreen from '../screens/StartLdkScreen';
 import ScanQRCodeScreen from '../screens/ScanQRCodeScreen';
 import GenericErrorScreen from '../shared/GenericErrorScreen';
@@ -37,8 +43,15 @@ import TransactionErrorScreen from '../shared/TransactionErrorScreen';
 import GeneralSettingsScreen from '../screens/settings/GeneralSettingsScreen';
 import SecuritySettingsScreen from '../screens/settings/SecuritySettingsScreen';
 import WalletBackupScreen from '../screens/settings/WalletBackupScreen';
+import ManualBackupQuizScreen from '../screens/ManualBackupQuizScreen';
+import WebDavBackupScreen from '../screens/settings/WebDavBackupScreen';
+import WalletsScreen from '../screens/settings/WalletsScreen';
+import AddressTypeScreen from '../screens/settings/AddressTypeScreen';
+import ElectrumServersScreen from '../screens/settings/ElectrumServersScreen';
+import ChainSourceScreen from '../screens/settings/ChainSourceScreen';
 import LightningSettingsScreen from '../screens/settings/LightningSettingsScreen';
 import ChannelsScreen from '../screens/ChannelsScreen';
+import ChannelDetailsScreen from '../screens/ChannelDetailsScreen';
 import LogsScreen from '../screens/LogsScreen';
 import { getLightningStore } from '../utils/lightning/helpers';
 import EnterAmountScreen from '../screens/EnterAmountScreen';
@@ -107,6 +120,11 @@ const walletScreens = (Navigator: typeof Stack) => {
         component={JITLiquidityScreen}
         options={JITLiquidityScreen.navigationOptions as NativeStackNavigationOptions}
       />
+      <Navigator.Screen
+        name={Screens.BuyChannelScreen}
+        component={BuyChannelScreen}
+        options={BuyChannelScreen.navigationOptions as NativeStackNavigationOptions}
+      />
       <Navigator.Screen
         name={Screens.EnterAmountScreen}
         component={EnterAmountScreen}
@@ -127,6 +145,26 @@ const walletScreens = (Navigator: typeof Stack) => {
         component={SendScreen}
         options={SendScreen.navigationOptions as NativeStackNavigationOptions}
       />
+      <Navigator.Screen
+        name={Screens.SendOnchainScreen}
+        component={SendOnchainScreen}
+        options={SendOnchainScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Stack.Screen
+        name={Screens.BoostTransactionScreen}
+        component={BoostTransactionScreen}
+        options={BoostTransactionScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Navigator.Screen
+        name={Screens.LnurlPayScreen}
+        component={LnurlPayScreen}
+        options={LnurlPayScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Navigator.Screen
+        name={Screens.LnurlWithdrawScreen}
+        component={LnurlWithdrawScreen}
+        options={LnurlWithdrawScreen.navigationOptions as NativeStackNavigationOptions}
+      />
       <Navigator.Screen
         name={Screens.ScanQRCodeScreen}
         component={ScanQRCodeScreen}
@@ -169,6 +207,11 @@ const onboardingScreens = (Navigator: typeof Stack) => {
         component={WelcomeScreen}
         options={WelcomeScreen.navigationOptions}
       />
+      <Navigator.Screen
+        name={Screens.RestoreWalletScreen}
+        component={RestoreWalletScreen}
+        options={RestoreWalletScreen.navigationOptions as NativeStackNavigationOptions}
+      />
     </>
   );
 };
@@ -196,16 +239,51 @@ const settingsScreens = (Navigator: typeof Stack) => {
         component={WalletBackupScreen}
         options={WalletBackupScreen.navigationOptions as NativeStackNavigationOptions}
       />
+      <Navigator.Screen
+        name={Screens.ManualBackupQuizScreen}
+        component={ManualBackupQuizScreen}
+        options={ManualBackupQuizScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Navigator.Screen
+        name={Screens.WebDavBackupScreen}
+        component={WebDavBackupScreen}
+        options={WebDavBackupScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Navigator.Screen
+        name={Screens.WalletsScreen}
+        component={WalletsScreen}
+        options={WalletsScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Navigator.Screen
+        name={Screens.AddressTypeScreen}
+        component={AddressTypeScreen}
+        options={AddressTypeScreen.navigationOptions as NativeStackNavigationOptions}
+      />
       <Navigator.Screen
         name={Screens.LightningSettingsScreen}
         component={LightningSettingsScreen}
         options={LightningSettingsScreen.navigationOptions as NativeStackNavigationOptions}
       />
+      <Navigator.Screen
+        name={Screens.ElectrumServersScreen}
+        component={ElectrumServersScreen}
+        options={ElectrumServersScreen.navigationOptions as NativeStackNavigationOptions}
+      />
+      <Navigator.Screen
+        name={Screens.ChainSourceScreen}
+        component={ChainSourceScreen}
+        options={ChainSourceScreen.navigationOptions as NativeStackNavigationOptions}
+      />
       <Navigator.Screen
         name={Screens.ChannelsScreen}
         component={ChannelsScreen}
         options={ChannelsScreen.navigationOptions as NativeStackNavigationOptions}
       />
+      <Navigator.Screen
+        name={Screens.ChannelDetailsScreen}
+        component={ChannelDetailsScreen}
+        options={ChannelDetailsScreen.navigationOptions as NativeStackNavigationOptions}
+      />
       <Navigator.Screen
         name={Screens.LogsScreen}
         component={LogsScreen}
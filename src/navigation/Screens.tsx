@@ -18,7 +18,12 @@ export enum Screens {
   GeneralSettingsScreen = 'GeneralSettingsScreen',
   SecuritySettingsScreen = 'SecuritySettingsScreen',
   WalletBackupScreen = 'WalletBackupScreen',
+  WebDavBackupScreen = 'WebDavBackupScreen',
+  WalletsScreen = 'WalletsScreen',
+  AddressTypeScreen = 'AddressTypeScreen',
   LightningSettingsScreen = 'LightningSettingsScreen',
+  ElectrumServersScreen = 'ElectrumServersScreen',
+  ChainSourceScreen = 'ChainSourceScreen',
   LogsScreen = 'LogsScreen',
   HelpScreen = 'HelpScreen',
   FAQScreen = 'FAQScreen',
@@ -28,12 +33,18 @@ export enum Screens {
   ReceiveScreen = 'ReceiveScreen',
   LightningChannelsIntroScreen = 'LightningChannelsIntroScreen',
   JITLiquidityScreen = 'JITLiquidityScreen',
+  BuyChannelScreen = 'BuyChannelScreen',
   ChannelsScreen = 'ChannelsScreen',
+  ChannelDetailsScreen = 'ChannelDetailsScreen',
   ChannelStatusScreen = 'ChannelStatusScreen',
   ActivityScreen = 'ActivityScreen',
   ActivityDetailsScreen = 'ActivityDetailsScreen',
   ScanQRCodeScreen = 'ScanQRCodeScreen',
   SendScreen = 'SendScreen',
+  SendOnchainScreen = 'SendOnchainScreen',
+  BoostTransactionScreen = 'BoostTransactionScreen',
+  LnurlPayScreen = 'LnurlPayScreen',
+  LnurlWithdrawScreen = 'LnurlWithdrawScreen',
   TransactionErrorScreen = 'TransactionErrorScreen',
   TransactionSuccessScreen = 'TransactionSuccessScreen',
   EnterAmountScreen = 'EnterAmountScreen',
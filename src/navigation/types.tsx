@@ -1,5 +1,5 @@
 import { TChannel } from '@synonymdev/react-native-ldk';
-import { TContact, TLightningPayment } from '../utils/types';
+import { TContact, TLightningPayment, TLnurlPayParams, TLnurlWithdrawParams } from '../utils/types';
 import { Screens } from './Screens';
 
 export type StackParamList = {
@@ -22,7 +22,11 @@ export type StackParamList = {
     | undefined;
   [Screens.EnableBiometryScreen]: undefined;
   [Screens.WelcomeScreen]: undefined;
-  [Screens.RestoreWalletScreen]: undefined;
+  [Screens.RestoreWalletScreen]:
+    | {
+        newWalletName?: string;
+      }
+    | undefined;
   [Screens.WalletHomeScreen]: undefined;
   [Screens.LangugageChooserScreen]:
     | {
@@ -43,7 +47,12 @@ export type StackParamList = {
   [Screens.GeneralSettingsScreen]: undefined;
   [Screens.SecuritySettingsScreen]: undefined;
   [Screens.WalletBackupScreen]: undefined;
+  [Screens.WebDavBackupScreen]: undefined;
+  [Screens.WalletsScreen]: undefined;
+  [Screens.AddressTypeScreen]: undefined;
   [Screens.LightningSettingsScreen]: undefined;
+  [Screens.ElectrumServersScreen]: undefined;
+  [Screens.ChainSourceScreen]: undefined;
   [Screens.LightningSettingsScreen]: undefined;
   [Screens.LogsScreen]: undefined;
   [Screens.HelpScreen]: undefined;
@@ -51,7 +60,12 @@ export type StackParamList = {
   [Screens.TestScreen]: undefined;
   [Screens.StartLN]: undefined;
   [Screens.StartLdkScreen]: undefined;
-  [Screens.EnterAmountScreen]: undefined;
+  [Screens.EnterAmountScreen]:
+    | {
+        paymentRequest?: string;
+        note?: string;
+      }
+    | undefined;
   [Screens.ReviewRequestScreen]:
     | {
         amount?: string;
@@ -68,7 +82,16 @@ export type StackParamList = {
     liquidityAmount?: string;
     paymentRequest?: string;
   };
+  [Screens.BuyChannelScreen]:
+    | {
+        inboundSats?: string;
+      }
+    | undefined;
   [Screens.ChannelsScreen]: undefined;
+  [Screens.ChannelDetailsScreen]: {
+    channelId: string;
+    isClosed?: boolean;
+  };
   [Screens.ActivityScreen]: undefined;
   [Screens.ActivityDetailsScreen]: {
     transaction: TLightningPayment;
@@ -81,8 +104,21 @@ export type StackParamList = {
     | {
         amount?: string;
         paymentRequest?: string;
+        note?: string;
       }
     | undefined;
+  [Screens.SendOnchainScreen]: {
+    address: string;
+    amount?: number;
+    note?: string;
+  };
+  [Screens.BoostTransactionScreen]: undefined;
+  [Screens.LnurlPayScreen]: {
+    params: TLnurlPayParams;
+  };
+  [Screens.LnurlWithdrawScreen]: {
+    params: TLnurlWithdrawParams;
+  };
   [Screens.TransactionErrorScreen]: {
     errorMessage?: string;
     canRetry?: boolean;
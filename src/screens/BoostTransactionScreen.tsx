@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Platform, ScrollView, StyleSheet, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import { headerWithBackButton } from '../navigation/Headers';
+import { navigateBack } from '../navigation/NavigationService';
+import Card from '../components/Card';
+import RadioCardOption from '../components/RadioCardOption';
+import { InfoListItem } from '../components/InfoListItem';
+import { useStoreState } from '../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import {
+  boostTransaction,
+  getBoostableTransactions,
+  getCpfpBoost,
+  getFeeRate,
+  getRbfBoost,
+} from '../utils/transaction';
+import { refreshWallet } from '../utils/wallet';
+import { Result } from '../utils/result';
+import { EBoostType, EFeeId, TBoostTransaction, TBoostableTransaction } from '../utils/types';
+
+const FEE_TIERS: { feeId: EFeeId; title: string; description: string }[] = [
+  { feeId: EFeeId.fast, title: 'Fast', description: '10-20 minutes' },
+  { feeId: EFeeId.normal, title: 'Normal', description: '20-60 minutes' },
+];
+
+const BOOST_TYPE_LABELS = {
+  [EBoostType.rbf]: 'Replace with a higher fee (RBF)',
+  [EBoostType.cpfp]: 'Speed up with a child transaction (CPFP)',
+};
+
+const BoostTransactionScreen = () => {
+  const utxos = useStoreState((state) => state.wallet.utxos[state.wallet.selectedNetwork]);
+  const fees = useStoreState((state) => state.wallet.fees);
+  const [feeId, setFeeId] = useState(EFeeId.fast);
+  const [boostable, setBoostable] = useState<TBoostableTransaction[]>([]);
+  const [boosts, setBoosts] = useState<Result<TBoostTransaction>[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [boostingTxid, setBoostingTxid] = useState('');
+
+  useEffect(() => {
+    getBoostableTransactions().then((res) => {
+      setIsLoading(false);
+      if (res.isErr()) {
+        showErrorBanner({
+          title: 'Unable to load pending transactions',
+          message: res.error.message,
+          dismissAfter: 5000,
+        });
+        return;
+      }
+      setBoostable(res.value);
+    });
+  }, [utxos]);
+
+  useEffect(() => {
+    const satsPerVbyte = getFeeRate({ feeId });
+    if (satsPerVbyte.isErr()) {
+      return;
+    }
+    Promise.all(
+      boostable.map(({ txid, type, utxo }) =>
+        type === EBoostType.rbf
+          ? Promise.resolve(getRbfBoost({ txid, satsPerVbyte: satsPerVbyte.value }))
+          : getCpfpBoost({ utxo: utxo!, satsPerVbyte: satsPerVbyte.value })
+      )
+    ).then(setBoosts);
+  }, [boostable, feeId, fees]);
+
+  const onSelectFeeTier = (title: string, tier: EFeeId) => {
+    cueInformativeHaptic();
+    setFeeId(tier);
+  };
+
+  const onBoost = async (boost: TBoostTransaction) => {
+    setBoostingTxid(boost.txid);
+    const boostRes = await boostTransaction({ boost });
+    setBoostingTxid('');
+    if (boostRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to boost transaction',
+        message: boostRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({
+      title: 'Transaction boosted',
+      message: `Now paying ${boost.satsPerVbyte} sat/vB`,
+    });
+    refreshWallet({}).then();
+    navigateBack();
+  };
+
+  const onPressBoost = (boost: TBoostTransaction) => {
+    cueInformativeHaptic();
+    Alert.alert(
+      'Boost transaction?',
+      `This will cost an extra ${boost.extraFee} sats in network fees.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Boost', onPress: () => onBoost(boost) },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.title}>Pending transactions</Text>
+        <Text style={styles.subtitle}>Target speed</Text>
+        {FEE_TIERS.map(({ feeId: tier, title, description }) => {
+          const satsPerVbyte = getFeeRate({ feeId: tier });
+          return (
+            <RadioCardOption
+              key={tier}
+              title={satsPerVbyte.isOk() ? `${title} (${satsPerVbyte.value} sat/vB)` : title}
+              description={description}
+              onSelect={onSelectFeeTier}
+              isSelected={feeId === tier}
+              data={tier}
+            />
+          );
+        })}
+        {!isLoading && !boostable.length ? (
+          <Text style={styles.text}>There are no pending transactions to speed up.</Text>
+        ) : null}
+        {boostable.map(({ txid, type }, index) => {
+          const boost = boosts[index];
+          return (
+            <Card key={txid} rounded style={styles.card}>
+              <Text style={styles.boostType}>{BOOST_TYPE_LABELS[type]}</Text>
+              <InfoListItem title="Transaction" value={txid} canCopy />
+              {boost?.isOk() ? (
+                <>
+                  <InfoListItem title="New fee" value={boost.value.fee} valueIsNumeric />
+                  <InfoListItem
+                    title="Extra cost"
+                    value={boost.value.extraFee}
+                    valueIsNumeric
+                    highlightValue
+                  />
+                </>
+              ) : boost?.isErr() ? (
+                <Text style={styles.error}>{boost.error.message}</Text>
+              ) : null}
+              <Button
+                title={boostingTxid === txid ? 'Boosting...' : 'Boost'}
+                onPress={() => boost?.isOk() && onPressBoost(boost.value)}
+                style={styles.button}
+                disabled={!boost?.isOk() || !!boostingTxid}
+              />
+            </Card>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+BoostTransactionScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...TypographyPresets.Header5,
+    marginVertical: 16,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    textAlign: 'center',
+    padding: 16,
+  },
+  card: {
+    marginTop: 16,
+  },
+  boostType: {
+    ...TypographyPresets.Body4,
+    marginBottom: 8,
+  },
+  error: {
+    ...TypographyPresets.Body5,
+    color: Colors.red.base,
+    paddingVertical: 10,
+    textAlign: 'center',
+  },
+  button: {
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+});
+
+export default BoostTransactionScreen;
@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { ActivityIndicator, Dimensions, Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import QRCode from 'react-native-qrcode-svg';
+import { headerWithBackButton } from '../navigation/Headers';
+import { StackParamList } from '../navigation/types';
+import { Screens } from '../navigation/Screens';
+import KeyboardAwareScrollView from '../components/keyboard/KeyboardInScrollView';
+import FormInput from '../components/form/Input';
+import RadioCardOption from '../components/RadioCardOption';
+import { InfoListItem } from '../components/InfoListItem';
+import InvoiceActionsBar from '../components/InvoiceActionsBar';
+import { useStoreState } from '../state/hooks';
+import store from '../state/store';
+import { cueErrorHaptic, cueInformativeHaptic } from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import { getLsps1Provider } from '../utils/lsp';
+import { BLOCKS_PER_MONTH } from '../utils/lsp/lsps1';
+import { createChannelOrder, refreshChannelOrder } from '../utils/lsp/orders';
+import { getTotalBalance, payInvoice } from '../utils/lightning/helpers';
+import { ELsps1OrderState, ELsps1PaymentState, TLsps1Options } from '../utils/types';
+
+const WINDOW_WIDTH = Dimensions.get('window').width;
+const QR_CODE_WIDTH = WINDOW_WIDTH - 170;
+const ORDER_REFRESH_INTERVAL = 10000;
+
+const CHANNEL_LIFETIMES = [1, 3, 6, 12];
+
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.BuyChannelScreen>;
+type Props = RouteProps;
+
+const BuyChannelScreen = ({ route }: Props) => {
+  const [inboundSats, setInboundSats] = useState(route.params?.inboundSats ?? '');
+  const [lifetimeMonths, setLifetimeMonths] = useState(CHANNEL_LIFETIMES[0]);
+  const [options, setOptions] = useState<TLsps1Options>();
+  const [orderId, setOrderId] = useState<string>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const order = useStoreState((state) =>
+    orderId ? state.lightning.channelOrders[orderId] : undefined
+  );
+
+  useEffect(() => {
+    async function getOptions() {
+      const lsp = getLsps1Provider({});
+      if (lsp.isErr() || !lsp.value.lsps1) {
+        setIsLoading(false);
+        showErrorBanner({
+          title: 'Unavailable',
+          message: 'No liquidity provider sells channels up front on this network',
+          dismissAfter: 5000,
+        });
+        return;
+      }
+      const info = await lsp.value.lsps1.getInfo();
+      setIsLoading(false);
+      if (info.isErr()) {
+        showErrorBanner({
+          title: 'Unable to reach provider',
+          message: info.error.message,
+          dismissAfter: 5000,
+        });
+        return;
+      }
+      setOptions(info.value);
+    }
+
+    getOptions();
+  }, []);
+
+  // keep polling the order until the channel is open or the order fails
+  useEffect(() => {
+    if (!orderId || order?.state !== ELsps1OrderState.created) {
+      return;
+    }
+    const interval = setInterval(() => {
+      refreshChannelOrder({ orderId }).then();
+    }, ORDER_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [orderId, order?.state]);
+
+  const availableLifetimes = CHANNEL_LIFETIMES.filter(
+    (months) =>
+      !options ||
+      (months * BLOCKS_PER_MONTH >= options.minChannelExpiryBlocks &&
+        months * BLOCKS_PER_MONTH <= options.maxChannelExpiryBlocks)
+  );
+
+  const amount = parseInt(inboundSats, 10) || 0;
+  const amountIsValid =
+    !!options && amount >= options.minInboundSats && amount <= options.maxInboundSats;
+
+  const onSelectLifetime = (title: string, months: number) => {
+    cueInformativeHaptic();
+    setLifetimeMonths(months);
+  };
+
+  const onPressGetQuote = async () => {
+    cueInformativeHaptic();
+    setIsLoading(true);
+    const orderRes = await createChannelOrder({
+      inboundSats: amount,
+      channelExpiryBlocks: lifetimeMonths * BLOCKS_PER_MONTH,
+    });
+    setIsLoading(false);
+    if (orderRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to get a quote',
+        message: orderRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    setOrderId(orderRes.value.orderId);
+  };
+
+  const onPressPay = useCallback(async () => {
+    if (!order) {
+      return;
+    }
+    cueInformativeHaptic();
+    setIsPaying(true);
+    const payRes = await payInvoice(order.invoice);
+    setIsPaying(false);
+    if (payRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Payment failed',
+        message: payRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    store.dispatch.lightning.updateChannelOrder({
+      ...order,
+      paymentState: ELsps1PaymentState.paid,
+    });
+    showSuccessBanner({
+      title: 'Order paid',
+      message: 'Your channel will be opened shortly',
+    });
+    refreshChannelOrder({ orderId: order.orderId }).then();
+  }, [order]);
+
+  const getOrderStatus = (): string => {
+    if (!order) {
+      return '';
+    }
+    if (order.state === ELsps1OrderState.completed) {
+      return 'Channel opened successfully';
+    }
+    if (order.state === ELsps1OrderState.failed) {
+      return 'This order failed. Any payment made will be refunded';
+    }
+    if (order.paymentState === ELsps1PaymentState.expectPayment) {
+      return `Waiting for payment of ${order.totalSats} sats`;
+    }
+    return 'Payment received, waiting for the channel to open';
+  };
+
+  const canPayFromWallet =
+    !!order?.invoice &&
+    order.paymentState === ELsps1PaymentState.expectPayment &&
+    getTotalBalance({}).spendableBalance >= order.totalSats;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.title}>Buy inbound liquidity</Text>
+        {isLoading && !order ? (
+          <ActivityIndicator color={Colors.orange.base} />
+        ) : !order ? (
+          <>
+            <FormInput
+              label="Inbound capacity in sats"
+              onChangeText={setInboundSats}
+              value={inboundSats}
+              placeholder={
+                options ? `${options.minInboundSats} - ${options.maxInboundSats}` : 'Amount in sats'
+              }
+              keyboardType={'decimal-pad'}
+              multiline={false}
+            />
+            <Text style={styles.subtitle}>Channel lifetime</Text>
+            {availableLifetimes.map((months) => (
+              <RadioCardOption
+                key={months}
+                title={months === 1 ? '1 month' : `${months} months`}
+                description={`The provider keeps the channel open for at least ${months * 30} days`}
+                onSelect={onSelectLifetime}
+                isSelected={lifetimeMonths === months}
+                data={months}
+              />
+            ))}
+            <Button
+              title={isLoading ? 'Loading...' : 'Get quote'}
+              onPress={onPressGetQuote}
+              style={styles.button}
+              disabled={!amountIsValid || isLoading}
+            />
+          </>
+        ) : (
+          <>
+            <InfoListItem title="Inbound capacity" value={order.inboundSats} valueIsNumeric />
+            <InfoListItem
+              title="Channel lifetime"
+              value={`${Math.round(order.channelExpiryBlocks / BLOCKS_PER_MONTH)} months`}
+            />
+            <InfoListItem title="LSP fees" value={order.feeSats} valueIsNumeric />
+            <InfoListItem
+              title="Total to pay"
+              value={order.totalSats}
+              valueIsNumeric
+              highlightValue
+            />
+            {order.invoice && order.paymentState === ELsps1PaymentState.expectPayment ? (
+              <View style={styles.qrContainer}>
+                <QRCode
+                  value={`lightning:${order.invoice}`}
+                  size={QR_CODE_WIDTH}
+                  backgroundColor={Colors.common.white}
+                  color={Colors.common.black}
+                />
+                <InvoiceActionsBar
+                  paymentRequest={order.invoice}
+                  allowModifier={false}
+                  smallButtons={true}
+                />
+              </View>
+            ) : null}
+            <Text style={styles.status}>{getOrderStatus()}</Text>
+            {canPayFromWallet ? (
+              <Button
+                title={isPaying ? 'Paying...' : 'Pay with Etta'}
+                onPress={onPressPay}
+                style={styles.button}
+                disabled={isPaying}
+              />
+            ) : null}
+          </>
+        )}
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+BuyChannelScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...TypographyPresets.Header5,
+    marginVertical: 16,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  status: {
+    ...TypographyPresets.Body4,
+    color: Colors.orange.base,
+    paddingVertical: 10,
+    textAlign: 'center',
+  },
+  button: {
+    justifyContent: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default BuyChannelScreen;
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Alert, Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import { headerWithBackButton } from '../navigation/Headers';
+import { StackParamList } from '../navigation/types';
+import { Screens } from '../navigation/Screens';
+import { navigateBack } from '../navigation/NavigationService';
+import { InfoListItem } from '../components/InfoListItem';
+import { useStoreState } from '../state/hooks';
+import {
+  closeLightningChannel,
+  getChannelAlias,
+  getChannelBalance,
+  getChannelConfirmations,
+} from '../utils/lightning/helpers';
+import { cueErrorHaptic, cueInformativeHaptic } from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import { humanizeTimestamp } from '../utils/time';
+import i18n from '../i18n';
+
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.ChannelDetailsScreen>;
+type Props = RouteProps;
+
+const ChannelDetailsScreen = ({ route }: Props) => {
+  const { channelId, isClosed } = route.params;
+  const channel = useStoreState((state) =>
+    isClosed ? state.lightning.closedChannels[channelId] : state.lightning.channels[channelId]
+  );
+  const closedChannel = useStoreState((state) => state.lightning.closedChannels[channelId]);
+  const [confirmations, setConfirmations] = useState<number>();
+  const [isClosing, setIsClosing] = useState(false);
+
+  useEffect(() => {
+    if (!channel || isClosed) {
+      return;
+    }
+    getChannelConfirmations({ channel }).then((res) => {
+      if (res.isOk()) {
+        setConfirmations(res.value);
+      }
+    });
+  }, [channel, isClosed]);
+
+  if (!channel) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.text}>This channel could not be found.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const balance = getChannelBalance(channel);
+  const alias = getChannelAlias({ nodeId: channel.counterparty_node_id });
+  const reserve = channel.unspendable_punishment_reserve ?? 0;
+
+  const closeChannel = async (force: boolean) => {
+    setIsClosing(true);
+    const closeRes = await closeLightningChannel({ channel, force });
+    setIsClosing(false);
+    if (closeRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to close channel',
+        message: closeRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    showSuccessBanner({
+      title: force ? 'Force close started' : 'Channel closing',
+      message: force
+        ? `Your funds will be available on-chain after ${
+            channel.force_close_spend_delay ?? 144
+          } blocks`
+        : 'Your funds will be available on-chain once the closing transaction confirms',
+    });
+    navigateBack();
+  };
+
+  const onPressClose = () => {
+    cueInformativeHaptic();
+    Alert.alert(
+      'Close channel?',
+      `Your ${balance.spendingTotal} sats will be sent back to your on-chain wallet. ${alias} needs to be online.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close', onPress: () => closeChannel(false) },
+      ]
+    );
+  };
+
+  const onPressForceClose = () => {
+    cueInformativeHaptic();
+    Alert.alert(
+      'Force close channel?',
+      'Only force close if the other node is unresponsive. Your funds will be locked until the timelock expires and you will pay the on-chain fees.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Force close', style: 'destructive', onPress: () => closeChannel(true) },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.title}>{alias}</Text>
+        <InfoListItem title="Capacity" value={balance.capacity} valueIsNumeric highlightValue />
+        <InfoListItem title="Local balance" value={balance.spendingTotal} valueIsNumeric />
+        <InfoListItem title="Remote balance" value={balance.receivingTotal} valueIsNumeric />
+        <InfoListItem title="Can send" value={balance.spendingAvailable} valueIsNumeric />
+        <InfoListItem title="Can receive" value={balance.receivingAvailable} valueIsNumeric />
+        <InfoListItem title="Reserve" value={reserve} valueIsNumeric />
+        {!isClosed ? (
+          <InfoListItem
+            title="Confirmations"
+            value={
+              confirmations === undefined
+                ? '-'
+                : `${confirmations} / ${channel.confirmations_required ?? 0}`
+            }
+          />
+        ) : null}
+        <InfoListItem title="Counterparty" value={channel.counterparty_node_id} canCopy />
+        <InfoListItem title="Channel ID" value={channel.channel_id} canCopy />
+        {channel.funding_txid ? (
+          <InfoListItem title="Funding transaction" value={channel.funding_txid} canCopy />
+        ) : null}
+        {isClosed && closedChannel ? (
+          <>
+            <InfoListItem title="Closed" value={humanizeTimestamp(closedChannel.closedAt, i18n)} />
+            {closedChannel.closeReason ? (
+              <InfoListItem title="Reason" value={closedChannel.closeReason} />
+            ) : null}
+          </>
+        ) : (
+          <View style={styles.buttonContainer}>
+            <Button
+              title={isClosing ? 'Closing...' : 'Close channel'}
+              onPress={onPressClose}
+              style={styles.button}
+              disabled={isClosing || !channel.is_usable}
+            />
+            <Button
+              title="Force close"
+              appearance="outline"
+              onPress={onPressForceClose}
+              style={styles.button}
+              disabled={isClosing}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+ChannelDetailsScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    textAlign: 'center',
+    padding: 16,
+  },
+  buttonContainer: {
+    marginTop: 24,
+  },
+  button: {
+    justifyContent: 'center',
+    marginVertical: 8,
+  },
+});
+
+export default ChannelDetailsScreen;
@@ -1,20 +1,110 @@
-import React from 'react';
-import { Text, SafeAreaView, StyleSheet, View, Platform } from 'react-native';
+import React, { useMemo } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Platform, SectionList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Colors, TypographyPresets } from 'etta-ui';
+import { TChannel } from '@synonymdev/react-native-ldk';
 import { headerWithBackButton } from '../navigation/Headers';
+import { StackParamList } from '../navigation/types';
+import { Screens } from '../navigation/Screens';
+import { navigate } from '../navigation/NavigationService';
 import { useStoreState } from '../state/hooks';
+import { getChannelAlias, getChannelBalance } from '../utils/lightning/helpers';
+import { TClosedChannel } from '../utils/types';
+import { humanizeTimestamp } from '../utils/time';
+import i18n from '../i18n';
 
-const ChannelsScreen = () => {
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.ChannelsScreen>;
+type Props = RouteProps;
+
+type ChannelItemProps = {
+  channel: TChannel | TClosedChannel;
+  isClosed?: boolean;
+};
+
+const ChannelItem = ({ channel, isClosed }: ChannelItemProps) => {
+  const balance = getChannelBalance(channel);
+  const alias = getChannelAlias({ nodeId: channel.counterparty_node_id });
+  const localShare = balance.capacity ? balance.spendingTotal / balance.capacity : 0;
+
+  const getStatus = (): string => {
+    if (isClosed) {
+      return `Closed ${humanizeTimestamp((channel as TClosedChannel).closedAt, i18n)}`;
+    }
+    if (!channel.is_channel_ready) {
+      return 'Pending';
+    }
+    return channel.is_usable ? 'Active' : 'Offline';
+  };
+
+  return (
+    <TouchableOpacity
+      onPress={() =>
+        navigate(Screens.ChannelDetailsScreen, { channelId: channel.channel_id, isClosed })
+      }
+    >
+      <View style={styles.channelContainer}>
+        <View style={styles.channelHeader}>
+          <Text style={styles.channelTitle}>{alias}</Text>
+          <Text style={styles.channelCapacity}>{`${balance.capacity} sats`}</Text>
+        </View>
+        <Text style={styles.channelStatus}>{getStatus()}</Text>
+        {!isClosed ? (
+          <>
+            <View style={styles.balanceBar}>
+              <View style={[styles.localBalanceBar, { flex: localShare }]} />
+              <View style={[styles.remoteBalanceBar, { flex: 1 - localShare }]} />
+            </View>
+            <View style={styles.channelHeader}>
+              <Text style={styles.balanceText}>{`Can send ${balance.spendingAvailable}`}</Text>
+              <Text style={styles.balanceText}>{`Can receive ${balance.receivingAvailable}`}</Text>
+            </View>
+          </>
+        ) : null}
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const ChannelsScreen = ({}: Props) => {
   const channels = useStoreState((state) => state.lightning.channels);
+  const openChannelIds = useStoreState((state) => state.lightning.openChannelIds);
+  const closedChannels = useStoreState((state) => state.lightning.closedChannels);
+
+  const sections = useMemo(() => {
+    const openChannels = Object.values(channels).filter((channel) =>
+      openChannelIds.includes(channel.channel_id)
+    );
+    const closed = Object.values(closedChannels).sort((a, b) => b.closedAt - a.closedAt);
+    return [
+      { title: 'Open channels', data: openChannels, isClosed: false },
+      { title: 'Closed channels', data: closed, isClosed: true },
+    ].filter((section) => section.data.length > 0);
+  }, [channels, openChannelIds, closedChannels]);
+
+  if (!sections.length) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.messageContainer}>
+          <Text style={styles.text}>You don't have any lightning channels yet.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
 
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.messageContainer}>
-        <Text style={styles.text}>
-          {Object.entries(channels).map(([key, value]) => (
-            <Text key={key}>{value.short_channel_id}</Text>
-          ))}
-        </Text>
-      </View>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.channel_id}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        renderItem={({ item, section }) => (
+          <ChannelItem channel={item} isClosed={section.isClosed} />
+        )}
+        stickySectionHeadersEnabled={false}
+      />
     </SafeAreaView>
   );
 };
@@ -29,6 +119,7 @@ ChannelsScreen.navigationOptions = {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+    paddingHorizontal: 16,
   },
   messageContainer: {
     flex: 1,
@@ -36,8 +127,56 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
     textAlign: 'center',
   },
+  sectionTitle: {
+    ...TypographyPresets.Header5,
+    color: Colors.common.black,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  channelContainer: {
+    borderWidth: 1,
+    borderColor: Colors.neutrals.light.neutral3,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  channelHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  channelTitle: {
+    ...TypographyPresets.Body4,
+    flexShrink: 1,
+  },
+  channelCapacity: {
+    ...TypographyPresets.Body4,
+  },
+  channelStatus: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    paddingVertical: 4,
+  },
+  balanceBar: {
+    flexDirection: 'row',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginVertical: 8,
+  },
+  localBalanceBar: {
+    backgroundColor: Colors.orange.base,
+  },
+  remoteBalanceBar: {
+    backgroundColor: Colors.neutrals.light.neutral3,
+  },
+  balanceText: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+  },
 });
 
 export default ChannelsScreen;
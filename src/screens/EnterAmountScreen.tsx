@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { StyleSheet, View, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { headerWithBackButton } from '../navigation/Headers';
@@ -7,12 +8,21 @@ import AmountKeypad from '../components/amount/AmountKeyPad';
 import AmountDisplay from '../components/amount/AmountDisplay';
 import { moderateScale } from '../utils/sizing';
 import { useStoreState } from '../state/hooks';
-import { cueInformativeHaptic } from '../utils/accessibility/haptics';
+import { cueErrorHaptic, cueInformativeHaptic } from '../utils/accessibility/haptics';
 import { navigate } from '../navigation/NavigationService';
 import { Screens } from '../navigation/Screens';
+import { StackParamList } from '../navigation/types';
 import { localCurrencyToSats } from '../utils/helpers';
+import { getTotalBalance } from '../utils/lightning/helpers';
+import { showErrorBanner } from '../utils/alerts';
 
-const EnterAmountScreen = () => {
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.EnterAmountScreen>;
+type Props = RouteProps;
+
+const EnterAmountScreen = ({ route }: Props) => {
+  // set when paying a zero-amount invoice, otherwise we are requesting a payment
+  const paymentRequest = route.params?.paymentRequest;
+  const note = route.params?.note;
   const [amountEntered, setAmountEntered] = useState('');
   const [amountInSats, setAmountInSats] = useState(0);
   const preferredCurrencyCode = useStoreState((state) => state.nuxt.localCurrency);
@@ -35,6 +45,26 @@ const EnterAmountScreen = () => {
 
   const onPressNext = () => {
     cueInformativeHaptic();
+    if (paymentRequest) {
+      const { spendableBalance } = getTotalBalance({});
+      if (!amountInSats || amountInSats > spendableBalance) {
+        cueErrorHaptic();
+        showErrorBanner({
+          title: 'Insufficient balance',
+          message: `You can send up to ${spendableBalance} sats.`,
+          dismissAfter: 5000,
+        });
+        return;
+      }
+      requestAnimationFrame(() => {
+        navigate(Screens.SendScreen, {
+          amount: amountInSats.toString(),
+          paymentRequest,
+          note,
+        });
+      });
+      return;
+    }
     // update invoice fees if necessary
     // getFeesPayable().then();
     requestAnimationFrame(() => {
@@ -7,7 +7,6 @@ import { Button, Colors, TypographyPresets } from 'etta-ui';
 import QRCode from 'react-native-qrcode-svg';
 import KeyboardAwareScrollView from '../components/keyboard/KeyboardInScrollView';
 import KeyboardSpacer from '../components/keyboard/KeyboardSpacer';
-import { VOLTAGE_LSP_API_TESTNET, VOLTAGE_LSP_FEE_ESTIMATE_API } from '../../config';
 import InvoiceActionsBar from '../components/InvoiceActionsBar';
 import { Screens } from '../navigation/Screens';
 import { StackParamList } from '../navigation/types';
@@ -17,6 +16,7 @@ import CancelButton from '../navigation/components/CancelButton';
 import { navigate } from '../navigation/NavigationService';
 import { showSuccessBanner, showWarningBanner } from '../utils/alerts';
 import { getLightningStore } from '../utils/lightning/helpers';
+import { getLspProvider } from '../utils/lsp';
 
 const WINDOW_WIDTH = Dimensions.get('window').width;
 const QR_CODE_WIDTH = WINDOW_WIDTH - 170;
@@ -31,7 +31,7 @@ const JITLiquidityScreen = ({ navigation, route }: Props) => {
 
   const { t } = useTranslation();
   const [isLoading, setIsLoading] = useState(false);
-  const [wrappedInvoice, setWrappedInvoice] = useState(undefined);
+  const [wrappedInvoice, setWrappedInvoice] = useState<string>();
   const [wrappedInvoiceFees, setWrappedInvoiceFees] = useState(0);
   const [paymentConfirmed, setPaymentConfirmed] = useState(false);
 
@@ -56,41 +56,25 @@ const JITLiquidityScreen = ({ navigation, route }: Props) => {
   const getWrappedInvoice = async () => {
     // get wrapped invoice
     setIsLoading(true);
-    try {
-      await fetch(VOLTAGE_LSP_API_TESTNET, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          bolt11: nodeInvoice,
-        }),
-      })
-        .then((response) => {
-          if (response.ok) {
-            return response.json();
-          } else {
-            // Handle error response
-            throw new Error('The LSP is unavailable to fulfill this order');
-          }
-        })
-        .then((data) => {
-          setWrappedInvoice(data.jit_bolt11);
-          console.log('wrapped: ', wrappedInvoice);
-        })
-        .catch((error) => {
-          showWarningBanner({
-            title: "There's a problem!",
-            message: error.message,
-          });
-        });
+    const lsp = getLspProvider({});
+    if (lsp.isErr()) {
+      showWarningBanner({
+        title: "There's a problem!",
+        message: lsp.error.message,
+      });
       setIsLoading(false);
-    } catch (e) {
-      // console.error(e.message);
+      return;
+    }
+    const wrapResponse = await lsp.value.wrapInvoice(nodeInvoice);
+    if (wrapResponse.isErr()) {
       showWarningBanner({
-        message: e.message,
+        title: "There's a problem!",
+        message: wrapResponse.error.message,
       });
+    } else {
+      setWrappedInvoice(wrapResponse.value);
     }
+    setIsLoading(false);
   };
 
   const confirmChannelOpen = () => {
@@ -117,35 +101,18 @@ const JITLiquidityScreen = ({ navigation, route }: Props) => {
   };
 
   const estimateFees = async () => {
-    try {
-      await fetch(VOLTAGE_LSP_FEE_ESTIMATE_API, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount_msat: parseInt(requestLiquidity, 10) * 1000, // get amount in msats
-          pubkey: '025804d4431ad05b06a1a1ee41f22fefeb8ce800b0be3a92ff3b9f594a263da34e',
-        }),
-      })
-        .then((fees) => fees.json())
-        .then((data) => {
-          const feeInSats = data.fee_amount_msat / 1000; // get fee in sats from msats
-          setWrappedInvoiceFees(feeInSats);
-          console.log('fee api', data);
-        })
-        .catch((error) => {
-          showWarningBanner({
-            message: error.message,
-          });
-        });
-      setIsLoading(false);
-    } catch (e) {
-      // console.error(e.message);
+    const lsp = getLspProvider({});
+    if (lsp.isErr()) {
+      return;
+    }
+    const feeQuote = await lsp.value.getFeeQuote(parseInt(requestLiquidity, 10));
+    if (feeQuote.isErr()) {
       showWarningBanner({
-        message: e.message,
+        message: feeQuote.error.message,
       });
+      return;
     }
+    setWrappedInvoiceFees(feeQuote.value);
   };
 
   useEffect(() => {
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { ActivityIndicator, Image, Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Chip, Colors, TypographyPresets } from 'etta-ui';
+import { headerWithBackButton } from '../navigation/Headers';
+import { StackParamList } from '../navigation/types';
+import { Screens } from '../navigation/Screens';
+import { navigate } from '../navigation/NavigationService';
+import AmountKeypad from '../components/amount/AmountKeyPad';
+import AmountDisplay from '../components/amount/AmountDisplay';
+import FormInput from '../components/form/Input';
+import { useStoreState } from '../state/hooks';
+import { moderateScale } from '../utils/sizing';
+import { localCurrencyToSats } from '../utils/helpers';
+import { cueErrorHaptic, cueInformativeHaptic } from '../utils/accessibility/haptics';
+import { showErrorBanner } from '../utils/alerts';
+import { fetchLnurlPayInvoice, parseLnurlPayMetadata } from '../utils/lightning/lnurl';
+import { getTotalBalance } from '../utils/lightning/helpers';
+
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.LnurlPayScreen>;
+type Props = RouteProps;
+
+const LnurlPayScreen = ({ route }: Props) => {
+  const { params } = route.params;
+  const [amountEntered, setAmountEntered] = useState('');
+  const [amountInSats, setAmountInSats] = useState(0);
+  const [comment, setComment] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const preferredCurrencyCode = useStoreState((state) => state.nuxt.localCurrency);
+  const [isUsingLocalCurrency, setIsUsingLocalCurrency] = useState(false);
+
+  const metadata = useMemo(() => parseLnurlPayMetadata(params.metadata), [params.metadata]);
+  const minSendable = Math.ceil(params.minSendable / 1000);
+  const maxSendable = Math.min(
+    Math.floor(params.maxSendable / 1000),
+    getTotalBalance({}).spendableBalance
+  );
+  const isFixedAmount = minSendable === Math.floor(params.maxSendable / 1000);
+
+  useEffect(() => {
+    if (isFixedAmount) {
+      setAmountEntered(minSendable.toString());
+    }
+  }, [isFixedAmount, minSendable]);
+
+  useEffect(() => {
+    async function formatAmount() {
+      if (isUsingLocalCurrency) {
+        const amountEnteredInSats = await localCurrencyToSats({
+          localAmount: parseInt(amountEntered, 10),
+        });
+        setAmountInSats(amountEnteredInSats);
+      } else {
+        setAmountInSats(parseInt(amountEntered, 10) || 0);
+      }
+    }
+
+    formatAmount();
+  }, [amountEntered, isUsingLocalCurrency]);
+
+  const amountIsValid = amountInSats >= minSendable && amountInSats <= maxSendable;
+
+  const onPressContinue = async () => {
+    cueInformativeHaptic();
+    setIsLoading(true);
+    const invoiceRes = await fetchLnurlPayInvoice({
+      params,
+      amountSats: amountInSats,
+      comment,
+    });
+    setIsLoading(false);
+    if (invoiceRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to get an invoice',
+        message: invoiceRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+
+    navigate(Screens.SendScreen, {
+      amount: amountInSats.toString(),
+      paymentRequest: invoiceRes.value.to_str,
+    });
+  };
+
+  const onAmountChange = (updatedAmount: string) => {
+    setAmountEntered(updatedAmount);
+  };
+
+  const onPressCurrencySwitch = () => {
+    onAmountChange('');
+    setIsUsingLocalCurrency(!isUsingLocalCurrency);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.contentContainer}>
+        <View style={styles.header}>
+          {metadata.image ? <Image source={{ uri: metadata.image }} style={styles.image} /> : null}
+          <Text style={styles.title}>{metadata.identifier ?? params.domain}</Text>
+          <Text style={styles.description}>{metadata.description}</Text>
+          <Text style={styles.limits}>
+            {isFixedAmount
+              ? `Amount: ${minSendable} sats`
+              : `Min: ${minSendable} sats · Max: ${maxSendable} sats`}
+          </Text>
+        </View>
+        <AmountDisplay inputAmount={amountEntered} usingLocalCurrency={isUsingLocalCurrency} />
+        {preferredCurrencyCode !== null && !isFixedAmount ? (
+          <Chip icon="icon-flip-vertical" onPress={onPressCurrencySwitch} style={styles.switchBtn}>
+            {isUsingLocalCurrency ? 'Switch to sats' : `Switch to ${preferredCurrencyCode}`}
+          </Chip>
+        ) : null}
+        {params.commentAllowed > 0 ? (
+          <FormInput
+            label={`Comment (max ${params.commentAllowed}char)`}
+            style={styles.field}
+            onChangeText={setComment}
+            value={comment}
+            maxLength={params.commentAllowed}
+            multiline={false}
+          />
+        ) : null}
+        {!isFixedAmount ? (
+          <AmountKeypad amount={amountEntered} maxDecimals={2} onAmountChange={onAmountChange} />
+        ) : null}
+      </View>
+      {isLoading && <ActivityIndicator size="large" color={Colors.orange.base} />}
+      <Button
+        title={isLoading ? 'Requesting invoice...' : 'Continue'}
+        style={styles.button}
+        appearance="filled"
+        onPress={onPressContinue}
+        disabled={!amountIsValid || isLoading}
+      />
+    </SafeAreaView>
+  );
+};
+
+LnurlPayScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    flex: 1,
+    marginHorizontal: moderateScale(16),
+  },
+  header: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  image: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    marginBottom: 8,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    textAlign: 'center',
+  },
+  description: {
+    ...TypographyPresets.Body4,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  limits: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginTop: 4,
+  },
+  field: {
+    marginVertical: 8,
+  },
+  button: {
+    justifyContent: 'center',
+    marginBottom: 32,
+    marginHorizontal: moderateScale(32),
+  },
+  switchBtn: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+});
+
+export default LnurlPayScreen;
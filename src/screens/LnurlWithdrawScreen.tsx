@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { ActivityIndicator, Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Chip, Colors, TypographyPresets } from 'etta-ui';
+import { headerWithBackButton } from '../navigation/Headers';
+import { StackParamList } from '../navigation/types';
+import { Screens } from '../navigation/Screens';
+import { navigateBack } from '../navigation/NavigationService';
+import AmountKeypad from '../components/amount/AmountKeyPad';
+import AmountDisplay from '../components/amount/AmountDisplay';
+import { useStoreState } from '../state/hooks';
+import { moderateScale } from '../utils/sizing';
+import { localCurrencyToSats } from '../utils/helpers';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import { withdrawFromLnurl } from '../utils/lightning/lnurl';
+
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.LnurlWithdrawScreen>;
+type Props = RouteProps;
+
+const LnurlWithdrawScreen = ({ route }: Props) => {
+  const { params } = route.params;
+  const minWithdrawable = Math.ceil(params.minWithdrawable / 1000);
+  const maxWithdrawable = Math.floor(params.maxWithdrawable / 1000);
+  const isFixedAmount = minWithdrawable === maxWithdrawable;
+  const [amountEntered, setAmountEntered] = useState(maxWithdrawable.toString());
+  const [amountInSats, setAmountInSats] = useState(maxWithdrawable);
+  const [isLoading, setIsLoading] = useState(false);
+  const preferredCurrencyCode = useStoreState((state) => state.nuxt.localCurrency);
+  const [isUsingLocalCurrency, setIsUsingLocalCurrency] = useState(false);
+
+  useEffect(() => {
+    async function formatAmount() {
+      if (isUsingLocalCurrency) {
+        const amountEnteredInSats = await localCurrencyToSats({
+          localAmount: parseInt(amountEntered, 10),
+        });
+        setAmountInSats(amountEnteredInSats);
+      } else {
+        setAmountInSats(parseInt(amountEntered, 10) || 0);
+      }
+    }
+
+    formatAmount();
+  }, [amountEntered, isUsingLocalCurrency]);
+
+  const amountIsValid = amountInSats >= minWithdrawable && amountInSats <= maxWithdrawable;
+
+  const onPressWithdraw = async () => {
+    cueInformativeHaptic();
+    setIsLoading(true);
+    const withdrawRes = await withdrawFromLnurl({ params, amountSats: amountInSats });
+    setIsLoading(false);
+    if (withdrawRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        message: withdrawRes.error.message,
+        title: 'Withdrawal failed',
+        dismissAfter: 5000,
+      });
+      return;
+    }
+
+    cueSuccessHaptic();
+    showSuccessBanner({
+      message: `${params.domain} is sending ${withdrawRes.value.amount_satoshis} sats to your wallet`,
+      title: 'Withdrawal requested',
+    });
+    navigateBack();
+  };
+
+  const onAmountChange = (updatedAmount: string) => {
+    setAmountEntered(updatedAmount);
+  };
+
+  const onPressCurrencySwitch = () => {
+    onAmountChange('');
+    setIsUsingLocalCurrency(!isUsingLocalCurrency);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{params.domain}</Text>
+          <Text style={styles.description}>{params.defaultDescription}</Text>
+          <Text style={styles.limits}>
+            {isFixedAmount
+              ? `Amount: ${maxWithdrawable} sats`
+              : `Min: ${minWithdrawable} sats · Max: ${maxWithdrawable} sats`}
+          </Text>
+        </View>
+        <AmountDisplay inputAmount={amountEntered} usingLocalCurrency={isUsingLocalCurrency} />
+        {preferredCurrencyCode !== null && !isFixedAmount ? (
+          <Chip icon="icon-flip-vertical" onPress={onPressCurrencySwitch} style={styles.switchBtn}>
+            {isUsingLocalCurrency ? 'Switch to sats' : `Switch to ${preferredCurrencyCode}`}
+          </Chip>
+        ) : null}
+        {!isFixedAmount ? (
+          <AmountKeypad amount={amountEntered} maxDecimals={2} onAmountChange={onAmountChange} />
+        ) : null}
+      </View>
+      {isLoading && <ActivityIndicator size="large" color={Colors.orange.base} />}
+      <Button
+        title={isLoading ? 'Requesting withdrawal...' : 'Withdraw'}
+        style={styles.button}
+        appearance="filled"
+        onPress={onPressWithdraw}
+        disabled={!amountIsValid || isLoading}
+      />
+    </SafeAreaView>
+  );
+};
+
+LnurlWithdrawScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    flex: 1,
+    marginHorizontal: moderateScale(16),
+  },
+  header: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    textAlign: 'center',
+  },
+  description: {
+    ...TypographyPresets.Body4,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  limits: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginTop: 4,
+  },
+  button: {
+    justifyContent: 'center',
+    marginBottom: 32,
+    marginHorizontal: moderateScale(32),
+  },
+  switchBtn: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+});
+
+export default LnurlWithdrawScreen;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import { wordlists } from 'bip39';
+import { headerWithBackButton } from '../navigation/Headers';
+import { navigateBack } from '../navigation/NavigationService';
+import RadioCardOption from '../components/RadioCardOption';
+import { useStoreActions } from '../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import { getMnemonicPhrase } from '../utils/lightning/helpers';
+
+const WORDLIST = wordlists.english;
+const QUESTION_COUNT = 3;
+const DECOY_COUNT = 3;
+
+type TQuizQuestion = {
+  position: number;
+  answer: string;
+  options: string[];
+};
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Picks random positions of the mnemonic and mixes each answer with decoys
+ * from the BIP39 wordlist that do not appear anywhere in the phrase.
+ * @param {string[]} words
+ * @returns {TQuizQuestion[]}
+ */
+const createQuiz = (words: string[]): TQuizQuestion[] => {
+  const positions = shuffle(words.map((_word, index) => index))
+    .slice(0, QUESTION_COUNT)
+    .sort((a, b) => a - b);
+  return positions.map((position) => {
+    const decoys: string[] = [];
+    while (decoys.length < DECOY_COUNT) {
+      const word = WORDLIST[Math.floor(Math.random() * WORDLIST.length)];
+      if (!words.includes(word) && !decoys.includes(word)) {
+        decoys.push(word);
+      }
+    }
+    return {
+      position,
+      answer: words[position],
+      options: shuffle([words[position], ...decoys]),
+    };
+  });
+};
+
+const ManualBackupQuizScreen = () => {
+  const setBackupCompleted = useStoreActions((actions) => actions.nuxt.setBackupCompleted);
+  const updateWalletInfo = useStoreActions((actions) => actions.wallet.updateWalletInfo);
+  const [words, setWords] = useState<string[]>([]);
+  const [questions, setQuestions] = useState<TQuizQuestion[]>([]);
+  const [step, setStep] = useState(0);
+  const [selectedWord, setSelectedWord] = useState('');
+
+  useEffect(() => {
+    getMnemonicPhrase().then((res) => {
+      if (res.isErr()) {
+        showErrorBanner({
+          title: 'Unable to load recovery phrase',
+          message: res.error.message,
+        });
+        return;
+      }
+      const mnemonic = res.value.split(' ');
+      setWords(mnemonic);
+      setQuestions(createQuiz(mnemonic));
+    });
+  }, []);
+
+  const question = questions[step];
+
+  const onSelectWord = (word: string) => {
+    cueInformativeHaptic();
+    setSelectedWord(word);
+  };
+
+  const onPressNext = () => {
+    if (selectedWord !== question.answer) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: `That is not word #${question.position + 1}`,
+        message: 'Check the recovery phrase you wrote down and try again.',
+        dismissAfter: 5000,
+      });
+      // start over with new positions so answers cannot be found by elimination
+      setQuestions(createQuiz(words));
+      setStep(0);
+      setSelectedWord('');
+      return;
+    }
+    if (step < questions.length - 1) {
+      cueInformativeHaptic();
+      setStep(step + 1);
+      setSelectedWord('');
+      return;
+    }
+    setBackupCompleted(true);
+    updateWalletInfo({
+      hasBackedUpWallet: true,
+      walletBackupTimestamp: Date.now().toString(),
+    });
+    cueSuccessHaptic();
+    showSuccessBanner({
+      title: 'Backup verified',
+      message: 'Keep your recovery phrase somewhere safe and private',
+    });
+    navigateBack();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.contentContainer}>
+        <Text style={styles.title}>Verify your recovery phrase</Text>
+        <Text style={styles.text}>
+          {`Question ${Math.min(step + 1, QUESTION_COUNT)} of ${QUESTION_COUNT}`}
+        </Text>
+        {question ? (
+          <>
+            <Text style={styles.subtitle}>{`Which is word #${question.position + 1}?`}</Text>
+            {question.options.map((word) => (
+              <RadioCardOption
+                key={word}
+                title={word}
+                onSelect={onSelectWord}
+                isSelected={selectedWord === word}
+                data={word}
+              />
+            ))}
+          </>
+        ) : null}
+        <Button
+          title={step < questions.length - 1 ? 'Next' : 'Finish'}
+          onPress={onPressNext}
+          style={styles.button}
+          disabled={!question || !selectedWord}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+ManualBackupQuizScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...TypographyPresets.Header5,
+    marginVertical: 16,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    textAlign: 'center',
+  },
+  button: {
+    justifyContent: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default ManualBackupQuizScreen;
@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useLayoutEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo } from 'react';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useTranslation } from 'react-i18next';
 import {
   SafeAreaView,
   StyleSheet,
@@ -18,7 +19,7 @@ import {
 } from '../utils/lightning/helpers';
 import { isLdkRunning, waitForLdk } from '../ldk';
 import QRCode from 'react-native-qrcode-svg';
-import { Colors, TypographyPresets } from 'etta-ui';
+import { Chip, Colors, TypographyPresets } from 'etta-ui';
 import { moderateScale } from '../utils/sizing';
 import InvoiceActionsBar from '../components/InvoiceActionsBar';
 import usePaymentRequestBottomSheet from '../components/usePaymentRequestBottomSheet';
@@ -29,6 +30,19 @@ import { humanizeTimestamp } from '../utils/time';
 import { showErrorBanner } from '../utils/alerts';
 import { navigate } from '../navigation/NavigationService';
 import CancelButton from '../navigation/components/CancelButton';
+import { getReceiveAddress } from '../utils/wallet';
+import { createBip21Uri } from '../utils/bip21';
+import { EReceiveMode } from '../utils/types';
+import { cueInformativeHaptic } from '../utils/accessibility/haptics';
+import Logger from '../utils/logger';
+
+const TAG = 'ReceiveScreen';
+
+const RECEIVE_MODES = [
+  { mode: EReceiveMode.unified, labelKey: 'receiveBitcoin.unifiedMode' },
+  { mode: EReceiveMode.lightning, labelKey: 'receiveBitcoin.lightningMode' },
+  { mode: EReceiveMode.onchain, labelKey: 'receiveBitcoin.onchainMode' },
+];
 
 const WINDOW_WIDTH = Dimensions.get('window').width;
 const QR_CODE_WIDTH = WINDOW_WIDTH - 150;
@@ -37,10 +51,13 @@ type RouteProps = NativeStackScreenProps<StackParamList, Screens.ReceiveScreen>;
 type Props = RouteProps;
 
 const ReceiveScreen = ({ navigation, route }: Props) => {
+  const { t } = useTranslation();
   const [invoice, setInvoice] = useState(undefined);
   const [timestamp, setTimestamp] = useState(0);
   const [expiry, setExpiry] = useState(3600);
   const [isLoading, setIsLoading] = useState(true);
+  const [address, setAddress] = useState<string>();
+  const [receiveMode, setReceiveMode] = useState(EReceiveMode.unified);
 
   const amount = route.params?.amount || '0';
   const feesPayable = route.params?.feesPayable || 0;
@@ -64,6 +81,17 @@ const ReceiveScreen = ({ navigation, route }: Props) => {
     expiresOn: invoiceExpires,
   });
 
+  // on-chain fallback for payers whose wallets do not support lightning
+  useEffect(() => {
+    getReceiveAddress({}).then((addressRes) => {
+      if (addressRes.isErr()) {
+        Logger.error(TAG, 'Unable to get an on-chain address', addressRes.error);
+        return;
+      }
+      setAddress(addressRes.value);
+    });
+  }, []);
+
   useEffect(() => {
     async function fetchInvoice() {
       try {
@@ -117,6 +145,30 @@ const ReceiveScreen = ({ navigation, route }: Props) => {
     fetchInvoice();
   }, [amount]);
 
+  // the unified and on-chain requests need an address, offer lightning only until there is one
+  const receiveModes = address
+    ? RECEIVE_MODES
+    : RECEIVE_MODES.filter(({ mode }) => mode === EReceiveMode.lightning);
+  const activeMode = address ? receiveMode : EReceiveMode.lightning;
+
+  const paymentRequest = useMemo(() => {
+    if (!address || activeMode === EReceiveMode.lightning) {
+      return invoice;
+    }
+    if (activeMode === EReceiveMode.onchain) {
+      return createBip21Uri({ address, amountSats: parseInt(amount, 10) });
+    }
+    return createBip21Uri({ address, amountSats: parseInt(amount, 10), lightning: invoice });
+  }, [activeMode, invoice, address, amount]);
+
+  const qrValue =
+    activeMode === EReceiveMode.lightning ? `lightning:${invoice}` : paymentRequest ?? '';
+
+  const onPressMode = (mode: EReceiveMode) => {
+    cueInformativeHaptic();
+    setReceiveMode(mode);
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.headerContainer}>
@@ -128,13 +180,30 @@ const ReceiveScreen = ({ navigation, route }: Props) => {
           <ActivityIndicator color={Colors.orange.base} />
         ) : (
           <>
+            <View style={styles.modesContainer}>
+              {receiveModes.map(({ mode, labelKey }) => (
+                <Chip
+                  key={mode}
+                  style={styles.modeChip}
+                  icon={activeMode === mode ? 'icon-check' : undefined}
+                  iconPosition="left"
+                  onPress={() => onPressMode(mode)}
+                >
+                  {t(labelKey)}
+                </Chip>
+              ))}
+            </View>
             <QRCode
-              value={`lightning:${invoice}`}
+              value={qrValue}
               size={QR_CODE_WIDTH}
               backgroundColor={Colors.common.white}
               color={Colors.common.black}
             />
-            <Text style={styles.advice}>{`This request will expire on ${invoiceExpires}`}</Text>
+            {activeMode !== EReceiveMode.onchain ? (
+              <Text style={styles.advice}>{`This request will expire on ${invoiceExpires}`}</Text>
+            ) : (
+              <Text style={styles.advice}>{address}</Text>
+            )}
           </>
         )}
       </View>
@@ -143,8 +212,8 @@ const ReceiveScreen = ({ navigation, route }: Props) => {
           ''
         ) : (
           <InvoiceActionsBar
-            paymentRequest={invoice!}
-            allowModifier={true}
+            paymentRequest={paymentRequest!}
+            allowModifier={activeMode !== EReceiveMode.onchain}
             onPressDetails={openPaymentRequestSheet}
             smallButtons={true}
           />
@@ -191,6 +260,13 @@ const styles = StyleSheet.create({
     marginHorizontal: moderateScale(16),
     textAlign: 'center',
   },
+  modesContainer: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  modeChip: {
+    marginHorizontal: 4,
+  },
   advice: {
     ...TypographyPresets.Body5,
     marginVertical: 20,
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Chip, Colors, TypographyPresets } from 'etta-ui';
+import { wordlists } from 'bip39';
+import { headerWithBackButton } from '../navigation/Headers';
+import { navigateClearingStack } from '../navigation/NavigationService';
+import { Screens } from '../navigation/Screens';
+import { StackParamList } from '../navigation/types';
+import KeyboardAwareScrollView from '../components/keyboard/KeyboardInScrollView';
+import FormInput from '../components/form/Input';
+import { useStoreActions } from '../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import { createWallet, restoreWallet, validateMnemonic } from '../utils/wallet';
+import { startLightning } from '../utils/lightning/helpers';
+import { getMnemonicFingerprint } from '../utils/bitcoin';
+
+const WORDLIST = wordlists.english;
+const VALID_WORD_COUNTS = [12, 24];
+const MAX_SUGGESTIONS = 4;
+// deriving the root key is slow, so wait for the user to stop typing
+const FINGERPRINT_DELAY = 500;
+
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.RestoreWalletScreen>;
+type Props = RouteProps;
+
+const RestoreWalletScreen = ({ route }: Props) => {
+  // set when importing a wallet next to the existing ones rather than during onboarding
+  const newWalletName = route.params?.newWalletName;
+  const setChoseRestoreWallet = useStoreActions((actions) => actions.nuxt.setChoseRestoreWallet);
+  const [phrase, setPhrase] = useState('');
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [bip39Passphrase, setBip39Passphrase] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [fingerprint, setFingerprint] = useState('');
+
+  const words = phrase.toLowerCase().trim().split(/\s+/).filter(Boolean);
+  // the word being typed is only complete once followed by a space
+  const partialWord = /\s$/.test(phrase) ? '' : words[words.length - 1] ?? '';
+  const unknownWords = words.filter((word) => word !== partialWord && !WORDLIST.includes(word));
+
+  const suggestions = useMemo(() => {
+    if (!partialWord) {
+      return [];
+    }
+    return WORDLIST.filter((word) => word.startsWith(partialWord)).slice(0, MAX_SUGGESTIONS);
+  }, [partialWord]);
+
+  const hasValidWordCount = VALID_WORD_COUNTS.includes(words.length);
+  const isValidMnemonic = hasValidWordCount && validateMnemonic(words.join(' '));
+
+  const mnemonic = words.join(' ');
+  const passphrase = usePassphrase ? bip39Passphrase : '';
+
+  useEffect(() => {
+    setFingerprint('');
+    if (!isValidMnemonic) {
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const fingerprintRes = await getMnemonicFingerprint({
+        mnemonic,
+        bip39Passphrase: passphrase,
+      });
+      if (!cancelled && fingerprintRes.isOk()) {
+        setFingerprint(fingerprintRes.value);
+      }
+    }, FINGERPRINT_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isValidMnemonic, mnemonic, passphrase]);
+
+  const onSelectSuggestion = (suggestion: string) => {
+    cueInformativeHaptic();
+    setPhrase(`${[...words.slice(0, -1), suggestion].join(' ')} `);
+  };
+
+  const onPressPassphrase = () => {
+    cueInformativeHaptic();
+    setUsePassphrase(!usePassphrase);
+    setBip39Passphrase('');
+  };
+
+  const onPressImport = async (name: string) => {
+    const createRes = await createWallet({
+      name,
+      mnemonic,
+      bip39Passphrase: passphrase,
+    });
+    setIsRestoring(false);
+    if (createRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to import wallet',
+        message: createRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({
+      title: `Switched to ${name}`,
+      message: 'Your on-chain funds and channels are being synced',
+    });
+    navigateClearingStack(Screens.DrawerNavigator);
+  };
+
+  const onPressRestore = async () => {
+    cueInformativeHaptic();
+    setIsRestoring(true);
+    if (newWalletName) {
+      await onPressImport(newWalletName);
+      return;
+    }
+    const restoreRes = await restoreWallet({
+      mnemonic,
+      bip39Passphrase: passphrase,
+    });
+    if (restoreRes.isErr()) {
+      setIsRestoring(false);
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to restore wallet',
+        message: restoreRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    // finds used addresses and lets LDK recover its channel monitors
+    const startRes = await startLightning({ restore: true });
+    setIsRestoring(false);
+    if (startRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to start your node',
+        message: startRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    setChoseRestoreWallet(false);
+    cueSuccessHaptic();
+    showSuccessBanner({
+      title: 'Wallet restored',
+      message: 'Your on-chain funds and channels are being synced',
+    });
+    navigateClearingStack(Screens.DrawerNavigator);
+  };
+
+  const errorMessage = unknownWords.length
+    ? `Not a recovery phrase word: ${unknownWords.join(', ')}`
+    : hasValidWordCount && !isValidMnemonic
+    ? 'This recovery phrase is not valid. Please check the words and their order.'
+    : '';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>
+          {newWalletName ? `Import ${newWalletName}` : 'Restore your wallet'}
+        </Text>
+        <Text style={styles.text}>
+          Enter your 12 or 24 word recovery phrase, separating the words with spaces.
+        </Text>
+        <FormInput
+          label={`Recovery phrase (${words.length} words)`}
+          onChangeText={setPhrase}
+          value={phrase}
+          placeholder="word1 word2 word3 ..."
+          multiline={true}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isRestoring}
+        />
+        <View style={styles.chipContainer}>
+          {suggestions.map((suggestion) => (
+            <View key={suggestion} style={styles.chip}>
+              <Chip onPress={() => onSelectSuggestion(suggestion)}>{suggestion}</Chip>
+            </View>
+          ))}
+        </View>
+        {errorMessage ? <Text style={styles.error}>{errorMessage}</Text> : null}
+        <View style={styles.chipContainer}>
+          <Chip
+            icon={usePassphrase ? 'icon-check' : undefined}
+            iconPosition="left"
+            onPress={onPressPassphrase}
+          >
+            Use a passphrase
+          </Chip>
+        </View>
+        {usePassphrase ? (
+          <FormInput
+            label="Passphrase"
+            onChangeText={setBip39Passphrase}
+            value={bip39Passphrase}
+            placeholder="The passphrase set when the wallet was created"
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry={true}
+            multiline={false}
+            editable={!isRestoring}
+          />
+        ) : null}
+        {fingerprint ? (
+          <Text style={styles.fingerprint}>
+            Wallet fingerprint: {fingerprint}
+            {usePassphrase
+              ? '\nCheck it matches the fingerprint shown when the wallet was created.'
+              : ''}
+          </Text>
+        ) : null}
+        <Button
+          title={isRestoring ? 'Restoring...' : 'Restore'}
+          onPress={onPressRestore}
+          style={styles.button}
+          disabled={!isValidMnemonic || (usePassphrase && !bip39Passphrase) || isRestoring}
+        />
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+RestoreWalletScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    textAlign: 'center',
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  error: {
+    ...TypographyPresets.Body5,
+    color: Colors.red.base,
+    paddingVertical: 10,
+    textAlign: 'center',
+  },
+  fingerprint: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  button: {
+    justifyContent: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default RestoreWalletScreen;
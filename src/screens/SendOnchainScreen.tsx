@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Chip, Colors, TypographyPresets } from 'etta-ui';
+import { headerWithBackButton } from '../navigation/Headers';
+import { StackParamList } from '../navigation/types';
+import { Screens } from '../navigation/Screens';
+import { navigateHome } from '../navigation/NavigationService';
+import KeyboardAwareScrollView from '../components/keyboard/KeyboardInScrollView';
+import FormInput from '../components/form/Input';
+import RadioCardOption from '../components/RadioCardOption';
+import { InfoListItem } from '../components/InfoListItem';
+import { useStoreState } from '../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../utils/alerts';
+import { getCoinSelection, getFeeRate, sendOnchainTransaction } from '../utils/transaction';
+import { refreshWallet } from '../utils/wallet';
+import { feeSourceLabels } from '../utils/fees';
+import { EFeeId } from '../utils/types';
+
+type RouteProps = NativeStackScreenProps<StackParamList, Screens.SendOnchainScreen>;
+type Props = RouteProps;
+
+const FEE_TIERS: { feeId: EFeeId; title: string; description: string }[] = [
+  { feeId: EFeeId.fast, title: 'Fast', description: '10-20 minutes' },
+  { feeId: EFeeId.normal, title: 'Normal', description: '20-60 minutes' },
+  { feeId: EFeeId.slow, title: 'Slow', description: '1-2 hours' },
+];
+
+const SendOnchainScreen = ({ route }: Props) => {
+  const { address, note } = route.params;
+  const balance = useStoreState((state) => state.wallet.walletinfo.balance);
+  // re-run coin selection whenever the tracked utxos or fee estimates change
+  const utxos = useStoreState((state) => state.wallet.utxos[state.wallet.selectedNetwork]);
+  const fees = useStoreState((state) => state.wallet.fees);
+  const [amount, setAmount] = useState(route.params.amount ? `${route.params.amount}` : '');
+  const [sendMax, setSendMax] = useState(false);
+  const [feeId, setFeeId] = useState(EFeeId.normal);
+  const [isSending, setIsSending] = useState(false);
+
+  const amountSats = parseInt(amount, 10) || 0;
+
+  const selections = useMemo(
+    () =>
+      FEE_TIERS.map(({ feeId: tier }) => {
+        const satsPerVbyte = getFeeRate({ feeId: tier });
+        if (satsPerVbyte.isErr()) {
+          return satsPerVbyte;
+        }
+        return getCoinSelection({ address, amountSats, satsPerVbyte: satsPerVbyte.value, sendMax });
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [address, amountSats, sendMax, utxos, fees]
+  );
+  const selection = selections[FEE_TIERS.findIndex((tier) => tier.feeId === feeId)];
+  const sendingSats = selection.isOk() ? selection.value.outputs[0].value ?? 0 : amountSats;
+
+  const onSelectFeeTier = (title: string, tier: EFeeId) => {
+    cueInformativeHaptic();
+    setFeeId(tier);
+  };
+
+  const onPressSendMax = () => {
+    cueInformativeHaptic();
+    setSendMax(!sendMax);
+  };
+
+  const onPressSend = async () => {
+    cueInformativeHaptic();
+    const satsPerVbyte = getFeeRate({ feeId });
+    if (satsPerVbyte.isErr()) {
+      return;
+    }
+    setIsSending(true);
+    const sendRes = await sendOnchainTransaction({
+      address,
+      amountSats,
+      satsPerVbyte: satsPerVbyte.value,
+      sendMax,
+    });
+    setIsSending(false);
+    if (sendRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to send',
+        message: sendRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({
+      title: 'Transaction sent',
+      message: `${sendingSats} sats are on their way`,
+    });
+    refreshWallet({}).then();
+    navigateHome();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.title}>Send on-chain</Text>
+        <InfoListItem title="To" value={address} canCopy />
+        {note ? <InfoListItem title="Note" value={note} /> : null}
+        <InfoListItem title="On-chain balance" value={balance} valueIsNumeric />
+        <FormInput
+          label="Amount in sats"
+          onChangeText={setAmount}
+          value={sendMax ? `${sendingSats}` : amount}
+          placeholder="Amount in sats"
+          keyboardType={'decimal-pad'}
+          multiline={false}
+          editable={!sendMax}
+        />
+        <View style={styles.chipContainer}>
+          <Chip
+            icon={sendMax ? 'icon-check' : undefined}
+            iconPosition="left"
+            onPress={onPressSendMax}
+          >
+            Send max
+          </Chip>
+        </View>
+        <Text style={styles.subtitle}>Network fee</Text>
+        <Text style={styles.feeSource}>Rates from {feeSourceLabels[fees.source]}</Text>
+        {FEE_TIERS.map(({ feeId: tier, title, description }, index) => {
+          const tierSelection = selections[index];
+          const satsPerVbyte = getFeeRate({ feeId: tier });
+          return (
+            <RadioCardOption
+              key={tier}
+              title={satsPerVbyte.isOk() ? `${title} (${satsPerVbyte.value} sat/vB)` : title}
+              description={
+                tierSelection.isOk()
+                  ? `${description}, ${tierSelection.value.fee} sats`
+                  : description
+              }
+              onSelect={onSelectFeeTier}
+              isSelected={feeId === tier}
+              data={tier}
+            />
+          );
+        })}
+        {selection.isOk() ? (
+          <>
+            <InfoListItem title="Network fee" value={selection.value.fee} valueIsNumeric />
+            <InfoListItem
+              title="Total"
+              value={sendingSats + selection.value.fee}
+              valueIsNumeric
+              highlightValue
+            />
+          </>
+        ) : amountSats || sendMax ? (
+          <Text style={styles.error}>{selection.error.message}</Text>
+        ) : null}
+        <Button
+          title={isSending ? 'Sending...' : 'Send'}
+          onPress={onPressSend}
+          style={styles.button}
+          disabled={selection.isErr() || isSending}
+        />
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+SendOnchainScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  title: {
+    ...TypographyPresets.Header5,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...TypographyPresets.Header5,
+    marginVertical: 16,
+  },
+  feeSource: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginBottom: 8,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  error: {
+    ...TypographyPresets.Body5,
+    color: Colors.red.base,
+    paddingVertical: 10,
+    textAlign: 'center',
+  },
+  button: {
+    justifyContent: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default SendOnchainScreen;
@@ -46,6 +46,7 @@ const getReadableSendingError = (errorFound) => {
 const SendScreen = ({ route }: Props) => {
   const amount = route.params?.amount || '0';
   const paymentRequest = route.params?.paymentRequest || '';
+  const note = route.params?.note;
   const [decodedInvoice, setDecodedInvoice] = useState<TInvoice>();
 
   const { t } = useTranslation();
@@ -87,7 +88,7 @@ const SendScreen = ({ route }: Props) => {
     }
 
     // attempt to pay this bolt11 invoice
-    const payInvoiceResponse = await payInvoice(paymentRequest);
+    const payInvoiceResponse = await payInvoice(paymentRequest, parseInt(amount, 10), note);
 
     if (payInvoiceResponse.isErr()) {
       console.log('Error@payInvoiceResponse: ', payInvoiceResponse.error.message);
@@ -163,7 +164,9 @@ const SendScreen = ({ route }: Props) => {
         </View>
       )}
 
-      {/* @TODO: Meta data like notes and tagging goes here */}
+      {note ? <InfoListItem title="Note" value={note} /> : null}
+
+      {/* @TODO: Meta data like tagging goes here */}
 
       {paymentSuccessful ? (
         <Button
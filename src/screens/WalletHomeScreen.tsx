@@ -28,6 +28,7 @@ import { Screens } from '../navigation/Screens';
 import useSendBottomSheet from '../components/useSendBottomSheet';
 import useSettingsBottomSheet from '../components/useSettingsBottomSheet';
 import AmountDisplay from '../components/amount/AmountDisplay';
+import { OnchainBalance } from '../components/HomeBalance';
 
 const AnimatedSectionList = Animated.createAnimatedComponent(SectionList);
 
@@ -74,7 +75,12 @@ const WalletHomeScreen = () => {
 
   const balanceSection = {
     data: [{}],
-    renderItem: () => <AmountDisplay inputAmount={balance.toString()} usingLocalCurrency={false} />,
+    renderItem: () => (
+      <>
+        <AmountDisplay inputAmount={balance.toString()} usingLocalCurrency={false} />
+        <OnchainBalance />
+      </>
+    ),
   };
   // @ts-ignore
   sections.push(balanceSection);
@@ -1,7 +1,7 @@
-import React, { useCallback, useState } from 'react';
+import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Button, TypographyPresets, Colors } from 'etta-ui';
-import { SafeAreaView, View, StyleSheet, Text } from 'react-native';
+import { Button, Chip, TypographyPresets, Colors } from 'etta-ui';
+import { Alert, SafeAreaView, View, StyleSheet, Text } from 'react-native';
 import { navigate } from '../navigation/NavigationService';
 import { Screens } from '../navigation/Screens';
 import { initNavigationOptions } from '../navigation/Headers';
@@ -11,6 +11,9 @@ import { APP_NAME } from '../../config';
 import { PinType } from '../utils/types';
 import { sleep } from '../utils/helpers';
 import { createDefaultWallet } from '../utils/wallet';
+import { getWalletFingerprint } from '../utils/bitcoin';
+import { cueInformativeHaptic } from '../utils/accessibility/haptics';
+import FormInput from '../components/form/Input';
 import Logger from '../utils/logger';
 import Logo from '../icons/Logo';
 
@@ -18,6 +21,9 @@ const TAG = 'WelcomeScreen';
 
 const WelcomeScreen = () => {
   const [creatingWallet, setCreatingWallet] = useState(false);
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const acknowledgedDisclaimer = useStoreState((state) => state.nuxt.acknowledgedDisclaimer);
   const pincodeType = useStoreState((state) => state.nuxt.pincodeType);
   const supportedBiometryType = useStoreState((state) => state.app.supportedBiometryType);
@@ -47,23 +53,46 @@ const WelcomeScreen = () => {
     }
   };
 
-  const createWalletHandler = useCallback(async (): Promise<void> => {
+  const createWalletHandler = async (): Promise<void> => {
     setCreatingWallet(true);
     await sleep(500); // wait
-    const res = await createDefaultWallet({});
+    const bip39Passphrase = usePassphrase ? passphrase : '';
+    const res = await createDefaultWallet({ bip39Passphrase });
     if (res.isErr()) {
       setCreatingWallet(false);
       Logger.error(`${TAG}/createWalletHandler`, res.error.message);
-    } else {
-      // show success notification
+      return;
+    }
+    if (!bip39Passphrase) {
       setCreatingWallet(false);
       // redirect when ready
       requestAnimationFrame(() => {
         navigateNext();
       });
+      return;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    // the fingerprint lets the user check they typed the same passphrase when restoring
+    const fingerprint = await getWalletFingerprint();
+    setCreatingWallet(false);
+    Alert.alert(
+      'Write down your fingerprint',
+      `${
+        fingerprint.isOk() ? fingerprint.value : ''
+      }\n\nYou will need your recovery phrase and the exact passphrase to restore this wallet. A wrong passphrase opens a different, empty wallet with a different fingerprint.`,
+      [{ text: 'Continue', onPress: navigateNext }]
+    );
+  };
+
+  const onPressPassphrase = () => {
+    cueInformativeHaptic();
+    setUsePassphrase(!usePassphrase);
+    setPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const passphraseMismatch =
+    usePassphrase && !!confirmPassphrase && passphrase !== confirmPassphrase;
+  const passphraseIsReady = !usePassphrase || (!!passphrase && passphrase === confirmPassphrase);
 
   const restoreWalletHandler = () => {
     setChoseRestore(true);
@@ -83,8 +112,45 @@ const WelcomeScreen = () => {
         title={!creatingWallet ? t('welcome.createNewWallet') : 'Creating wallet ...'}
         appearance="filled"
         onPress={createWalletHandler}
-        disabled={creatingWallet}
+        disabled={creatingWallet || !passphraseIsReady}
       />
+      <View style={styles.chipContainer}>
+        <Chip
+          icon={usePassphrase ? 'icon-check' : undefined}
+          iconPosition="left"
+          onPress={onPressPassphrase}
+        >
+          Advanced: add a passphrase
+        </Chip>
+      </View>
+      {usePassphrase ? (
+        <>
+          <FormInput
+            label="Passphrase"
+            onChangeText={setPassphrase}
+            value={passphrase}
+            placeholder="Your 25th word"
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry={true}
+            multiline={false}
+            editable={!creatingWallet}
+          />
+          <FormInput
+            label="Confirm passphrase"
+            onChangeText={setConfirmPassphrase}
+            value={confirmPassphrase}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry={true}
+            multiline={false}
+            editable={!creatingWallet}
+          />
+          {passphraseMismatch ? (
+            <Text style={styles.error}>The passphrases do not match</Text>
+          ) : null}
+        </>
+      ) : null}
       <Button
         style={styles.button}
         title={t('welcome.restoreWallet')}
@@ -126,6 +192,17 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     justifyContent: 'center',
   },
+  chipContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  error: {
+    ...TypographyPresets.Body5,
+    color: Colors.red.base,
+    paddingVertical: 10,
+    textAlign: 'center',
+  },
   footer: {
     flex: 1,
     position: 'relative',
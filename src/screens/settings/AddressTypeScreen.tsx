@@ -0,0 +1,110 @@
+import React, { useLayoutEffect } from 'react';
+import { Platform, StyleSheet, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Colors, TypographyPresets } from 'etta-ui';
+import { HeaderTitleWithSubtitle, headerWithBackButton } from '../../navigation/Headers';
+import { navigateBack } from '../../navigation/NavigationService';
+import KeyboardAwareScrollView from '../../components/keyboard/KeyboardInScrollView';
+import RadioCardOption from '../../components/RadioCardOption';
+import { useStoreState } from '../../state/hooks';
+import { cueErrorHaptic, cueInformativeHaptic } from '../../utils/accessibility/haptics';
+import { showErrorBanner } from '../../utils/alerts';
+import { refreshUtxos, updateAddressType } from '../../utils/wallet';
+import { EAddressType } from '../../utils/types';
+
+const ADDRESS_TYPE_OPTIONS = [
+  {
+    type: EAddressType.p2tr,
+    title: 'Taproot',
+    description: 'Smallest and most private outputs. Starts with bc1p.',
+  },
+  {
+    type: EAddressType.p2wpkh,
+    title: 'Native SegWit',
+    description: 'Low fees and supported almost everywhere. Starts with bc1q.',
+  },
+  {
+    type: EAddressType.p2sh,
+    title: 'Nested SegWit',
+    description: 'For older services that cannot send to bc1 addresses. Starts with 3.',
+  },
+  {
+    type: EAddressType.p2pkh,
+    title: 'Legacy',
+    description: 'Highest fees, only use it if nothing else works. Starts with 1.',
+  },
+];
+
+const AddressTypeScreen = ({ navigation }) => {
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: () => <HeaderTitleWithSubtitle title="Address type" />,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectedAddressType = useStoreState((state) => state.wallet.walletinfo.addressType);
+
+  const onSelect = (_title: string, addressType: EAddressType) => {
+    cueInformativeHaptic();
+    const res = updateAddressType({ addressType });
+    if (res.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to change the address type',
+        message: res.error.message,
+      });
+      return;
+    }
+    // subscribe to the addresses of the new type
+    refreshUtxos().then();
+    requestAnimationFrame(() => {
+      navigateBack();
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.text}>
+          New receive and change addresses will use this type, including the addresses your channels
+          close to. Funds on addresses you already used stay in your wallet.
+        </Text>
+        {ADDRESS_TYPE_OPTIONS.map(({ type, title, description }) => (
+          <RadioCardOption
+            key={type}
+            title={title}
+            description={description}
+            onSelect={onSelect}
+            isSelected={type === selectedAddressType}
+            data={type}
+          />
+        ))}
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+AddressTypeScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginBottom: 16,
+  },
+});
+
+export default AddressTypeScreen;
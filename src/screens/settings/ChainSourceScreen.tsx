@@ -0,0 +1,193 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { Platform, StyleSheet, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import { HeaderTitleWithSubtitle, headerWithBackButton } from '../../navigation/Headers';
+import { navigateBack } from '../../navigation/NavigationService';
+import KeyboardAwareScrollView from '../../components/keyboard/KeyboardInScrollView';
+import FormInput from '../../components/form/Input';
+import RadioCardOption from '../../components/RadioCardOption';
+import { useStoreActions, useStoreState } from '../../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../../utils/alerts';
+import { connectToChainSource, testEsploraServer } from '../../utils/chain';
+import { getSelectedNetwork, refreshWallet } from '../../utils/wallet';
+import { EChainSourceType } from '../../utils/types';
+
+const CHAIN_SOURCE_OPTIONS = [
+  {
+    type: EChainSourceType.electrum,
+    title: 'Electrum',
+    description: 'Notified of new blocks and wallet activity right away',
+  },
+  {
+    type: EChainSourceType.esplora,
+    title: 'Esplora',
+    description: 'Plain HTTPS requests, checks for new blocks every 30 seconds',
+  },
+];
+
+const ChainSourceScreen = ({ navigation }) => {
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: () => <HeaderTitleWithSubtitle title="Blockchain data source" />,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectedNetwork = getSelectedNetwork();
+  const chainSource = useStoreState((state) => state.settings.chainSource[selectedNetwork]);
+  const setChainSource = useStoreActions((actions) => actions.settings.setChainSource);
+  const [type, setType] = useState(chainSource.type);
+  const [esploraUrl, setEsploraUrl] = useState(chainSource.esploraUrl);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isEsplora = type === EChainSourceType.esplora;
+
+  const onSelectType = (_title: string, newType: EChainSourceType) => {
+    cueInformativeHaptic();
+    setType(newType);
+  };
+
+  const onPressTest = async () => {
+    cueInformativeHaptic();
+    setIsBusy(true);
+    const testRes = await testEsploraServer({ url: esploraUrl, selectedNetwork });
+    setIsBusy(false);
+    if (testRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to reach the server',
+        message: testRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({ title: 'Server is reachable', message: testRes.value });
+  };
+
+  const onPressSave = async () => {
+    cueInformativeHaptic();
+    setIsBusy(true);
+    if (isEsplora) {
+      const testRes = await testEsploraServer({ url: esploraUrl, selectedNetwork });
+      if (testRes.isErr()) {
+        setIsBusy(false);
+        cueErrorHaptic();
+        showErrorBanner({
+          title: 'Unable to reach the server',
+          message: testRes.error.message,
+          dismissAfter: 5000,
+        });
+        return;
+      }
+    }
+    setChainSource({ selectedNetwork, chainSource: { type, esploraUrl: esploraUrl.trim() } });
+    const connectRes = await connectToChainSource({
+      selectedNetwork,
+      onBlock: () => {
+        refreshWallet({ selectedNetwork });
+      },
+    });
+    setIsBusy(false);
+    if (connectRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to connect',
+        message: connectRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    refreshWallet({ selectedNetwork }).then();
+    cueSuccessHaptic();
+    showSuccessBanner({ message: `Connected to ${isEsplora ? 'Esplora' : 'Electrum'}` });
+    navigateBack();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.text}>
+          Your wallet and lightning node read the blockchain and broadcast transactions through this
+          source.
+        </Text>
+        {CHAIN_SOURCE_OPTIONS.map((option) => (
+          <RadioCardOption
+            key={option.type}
+            title={option.title}
+            description={option.description}
+            onSelect={onSelectType}
+            isSelected={option.type === type}
+            data={option.type}
+            disabled={isBusy}
+          />
+        ))}
+        {isEsplora ? (
+          <>
+            <FormInput
+              label="Esplora URL"
+              onChangeText={setEsploraUrl}
+              value={esploraUrl}
+              placeholder="https://blockstream.info/api"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              multiline={false}
+              editable={!isBusy}
+            />
+            <Button
+              title="Test connection"
+              onPress={onPressTest}
+              appearance="outline"
+              style={styles.button}
+              disabled={!esploraUrl.trim() || isBusy}
+            />
+          </>
+        ) : null}
+        <Button
+          title={isBusy ? 'Please wait...' : 'Save'}
+          onPress={onPressSave}
+          style={styles.button}
+          disabled={(isEsplora && !esploraUrl.trim()) || isBusy}
+        />
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+ChainSourceScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginBottom: 16,
+  },
+  button: {
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+});
+
+export default ChainSourceScreen;
@@ -0,0 +1,337 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Chip, Colors, TypographyPresets } from 'etta-ui';
+import { HeaderTitleWithSubtitle, headerWithBackButton } from '../../navigation/Headers';
+import KeyboardAwareScrollView from '../../components/keyboard/KeyboardInScrollView';
+import FormInput from '../../components/form/Input';
+import RadioCardOption from '../../components/RadioCardOption';
+import SectionTitle from '../../components/SectionTitle';
+import { useStoreActions, useStoreState } from '../../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../../utils/alerts';
+import { reconnectToElectrum } from '../../utils/electrum';
+import { getConnectedElectrumPeer, testElectrumPeer } from '../../utils/electrum/helpers';
+import { getChainSource } from '../../utils/chain';
+import { getSelectedNetwork } from '../../utils/wallet';
+import {
+  EChainSourceType,
+  ICustomElectrumPeer,
+  IElectrumPeerData,
+  TProtocol,
+} from '../../utils/types';
+
+const DEFAULT_PORTS: Record<TProtocol, string> = {
+  ssl: '50002',
+  tcp: '50001',
+};
+
+const ElectrumServersScreen = ({ navigation }) => {
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: () => <HeaderTitleWithSubtitle title="Electrum servers" />,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectedNetwork = getSelectedNetwork();
+  const savedPeers = useStoreState((state) => state.settings.customElectrumPeers[selectedNetwork]);
+  const preferredHost = useStoreState(
+    (state) => state.settings.preferredElectrumPeer[selectedNetwork]
+  );
+  const saveElectrumPeer = useStoreActions((actions) => actions.settings.saveElectrumPeer);
+  const removeElectrumPeer = useStoreActions((actions) => actions.settings.removeElectrumPeer);
+  const setPreferredElectrumPeer = useStoreActions(
+    (actions) => actions.settings.setPreferredElectrumPeer
+  );
+
+  const peers = savedPeers.filter((peer) => !!peer.host);
+  const [connectedPeer, setConnectedPeer] = useState<IElectrumPeerData>();
+  // host of the saved peer being edited, empty when adding a new one
+  const [editingHost, setEditingHost] = useState('');
+  const [host, setHost] = useState('');
+  const [port, setPort] = useState(DEFAULT_PORTS.ssl);
+  const [protocol, setProtocol] = useState<TProtocol>('ssl');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const updateConnectedPeer = async () => {
+    const peerInfo = await getConnectedElectrumPeer(selectedNetwork);
+    setConnectedPeer(peerInfo.isOk() ? peerInfo.value : undefined);
+  };
+
+  useEffect(() => {
+    updateConnectedPeer().then();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const getPeer = (): ICustomElectrumPeer => {
+    const existing = peers.find((peer) => peer.host === editingHost);
+    return {
+      host: host.trim(),
+      ssl: protocol === 'ssl' ? Number(port) : existing?.ssl ?? 0,
+      tcp: protocol === 'tcp' ? Number(port) : existing?.tcp ?? 0,
+      protocol,
+    };
+  };
+
+  const portIsValid = Number.isInteger(Number(port)) && Number(port) > 0 && Number(port) < 65536;
+  const formIsValid = !!host.trim() && portIsValid;
+
+  const resetForm = () => {
+    setEditingHost('');
+    setHost('');
+    setProtocol('ssl');
+    setPort(DEFAULT_PORTS.ssl);
+  };
+
+  const applyConnection = async () => {
+    if (getChainSource({ selectedNetwork }).type !== EChainSourceType.electrum) {
+      // picked up the next time Electrum is selected as the chain source
+      showSuccessBanner({ message: 'Server saved' });
+      return;
+    }
+    const reconnectRes = await reconnectToElectrum({ selectedNetwork });
+    await updateConnectedPeer();
+    if (reconnectRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to connect',
+        message: reconnectRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({ message: 'Connected to Electrum' });
+  };
+
+  const onSelectPeer = (_title: string, peer: ICustomElectrumPeer) => {
+    cueInformativeHaptic();
+    setEditingHost(peer.host);
+    setHost(peer.host);
+    setProtocol(peer.protocol);
+    setPort(`${peer[peer.protocol]}`);
+  };
+
+  const onSelectProtocol = (newProtocol: TProtocol) => {
+    cueInformativeHaptic();
+    setProtocol(newProtocol);
+    if (port === DEFAULT_PORTS[protocol]) {
+      setPort(DEFAULT_PORTS[newProtocol]);
+    }
+  };
+
+  const onPressTest = async () => {
+    cueInformativeHaptic();
+    setIsBusy(true);
+    const testRes = await testElectrumPeer({ peer: getPeer(), selectedNetwork });
+    setIsBusy(false);
+    if (testRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to reach the server',
+        message: testRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({ title: 'Server is reachable', message: testRes.value });
+  };
+
+  const onPressSave = async () => {
+    cueInformativeHaptic();
+    const peer = getPeer();
+    if (peers.some(({ host: savedHost }) => savedHost === peer.host && savedHost !== editingHost)) {
+      cueErrorHaptic();
+      showErrorBanner({ message: 'This server has already been added' });
+      return;
+    }
+    saveElectrumPeer({ selectedNetwork, peer, previousHost: editingHost || undefined });
+    resetForm();
+    if (editingHost && editingHost === preferredHost) {
+      setIsBusy(true);
+      await applyConnection();
+      setIsBusy(false);
+      return;
+    }
+    showSuccessBanner({ message: 'Server saved' });
+  };
+
+  const onPressRemove = async () => {
+    cueInformativeHaptic();
+    removeElectrumPeer({ selectedNetwork, host: editingHost });
+    resetForm();
+    if (editingHost === preferredHost) {
+      setIsBusy(true);
+      await applyConnection();
+      setIsBusy(false);
+    }
+  };
+
+  const onPressPreferred = async () => {
+    cueInformativeHaptic();
+    setPreferredElectrumPeer({
+      selectedNetwork,
+      host: editingHost === preferredHost ? '' : editingHost,
+    });
+    setIsBusy(true);
+    await applyConnection();
+    setIsBusy(false);
+  };
+
+  const getDescription = (peer: ICustomElectrumPeer): string => {
+    const details = [peer.protocol.toUpperCase()];
+    if (peer.host === preferredHost) {
+      details.push('Preferred');
+    }
+    if (peer.host === connectedPeer?.host) {
+      details.push('Connected');
+    }
+    return details.join(' · ');
+  };
+
+  const isEditingSavedPeer = !!editingHost && peers.some((peer) => peer.host === editingHost);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.text}>
+          {preferredHost
+            ? `Etta only connects to ${preferredHost}.`
+            : 'Etta tries these servers in order, then a set of public servers.'}
+        </Text>
+        {connectedPeer ? (
+          <Text style={styles.text}>
+            Connected to {connectedPeer.host}:{connectedPeer.port}
+          </Text>
+        ) : (
+          <Text style={styles.text}>No connected electrum peer at this time</Text>
+        )}
+        {peers.map((peer) => (
+          <RadioCardOption
+            key={peer.host}
+            title={`${peer.host}:${peer[peer.protocol]}`}
+            description={getDescription(peer)}
+            onSelect={onSelectPeer}
+            isSelected={peer.host === editingHost}
+            data={peer}
+            disabled={isBusy}
+          />
+        ))}
+        <SectionTitle
+          title={isEditingSavedPeer ? `Edit ${editingHost}` : 'Add a server'}
+          style={styles.sectionHeading}
+        />
+        <FormInput
+          label="Host"
+          onChangeText={setHost}
+          value={host}
+          placeholder="electrum.example.com"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          multiline={false}
+          editable={!isBusy}
+        />
+        <FormInput
+          label="Port"
+          onChangeText={setPort}
+          value={port}
+          keyboardType="number-pad"
+          multiline={false}
+          editable={!isBusy}
+        />
+        <View style={styles.chipContainer}>
+          {(['ssl', 'tcp'] as TProtocol[]).map((option) => (
+            <View key={option} style={styles.chip}>
+              <Chip
+                icon={protocol === option ? 'icon-check' : undefined}
+                iconPosition="left"
+                onPress={() => onSelectProtocol(option)}
+              >
+                {option.toUpperCase()}
+              </Chip>
+            </View>
+          ))}
+        </View>
+        <Button
+          title="Test connection"
+          onPress={onPressTest}
+          appearance="outline"
+          style={styles.button}
+          disabled={!formIsValid || isBusy}
+        />
+        <Button
+          title={isBusy ? 'Please wait...' : 'Save server'}
+          onPress={onPressSave}
+          style={styles.button}
+          disabled={!formIsValid || isBusy}
+        />
+        {isEditingSavedPeer ? (
+          <>
+            <Button
+              title={editingHost === preferredHost ? 'Stop preferring' : 'Set as preferred'}
+              onPress={onPressPreferred}
+              appearance="outline"
+              style={styles.button}
+              disabled={isBusy}
+            />
+            <Button
+              title="Remove server"
+              onPress={onPressRemove}
+              appearance="transparent"
+              style={styles.button}
+              disabled={isBusy}
+            />
+          </>
+        ) : null}
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+ElectrumServersScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  sectionHeading: {
+    marginVertical: 16,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginBottom: 16,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  button: {
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+});
+
+export default ElectrumServersScreen;
@@ -13,6 +13,8 @@ import { cueInformativeHaptic } from '../../utils/accessibility/haptics';
 const GeneralSettingsScreen = ({ navigation, route }) => {
   const currentLanguage = useStoreState((state) => state.nuxt.language);
   const preferedCurrency = useStoreState((state) => state.nuxt.localCurrency);
+  const addressType = useStoreState((state) => state.wallet.walletinfo.addressType);
+  const addressTypes = useStoreState((state) => state.wallet.addressTypes);
   const { t } = useTranslation();
 
   useLayoutEffect(() => {
@@ -32,6 +34,11 @@ const GeneralSettingsScreen = ({ navigation, route }) => {
     navigate(Screens.CurrencyChooserScreen);
   };
 
+  const onPressAddressType = () => {
+    cueInformativeHaptic();
+    navigate(Screens.AddressTypeScreen);
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <SettingsItemWithTextValue
@@ -52,6 +59,12 @@ const GeneralSettingsScreen = ({ navigation, route }) => {
         withChevron={true}
         onPress={() => 0}
       />
+      <SettingsItemWithTextValue
+        title="Address type"
+        value={addressTypes[addressType]?.label ?? addressType}
+        withChevron={true}
+        onPress={onPressAddressType}
+      />
     </SafeAreaView>
   );
 };
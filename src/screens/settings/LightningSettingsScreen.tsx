@@ -12,10 +12,14 @@ import { navigate } from '../../navigation/NavigationService';
 import { Screens } from '../../navigation/Screens';
 import SectionTitle from '../../components/SectionTitle';
 import useLightningSettingsBottomSheet from './useLightningSettingsBottomSheet';
+import { getLspProviders } from '../../utils/lsp';
+import { getSelectedNetwork } from '../../utils/wallet';
+import { EChainSourceType } from '../../utils/types';
 
 const LightningSettingsScreen = ({ navigation }) => {
   const nodeID = useStoreState((state) => state.lightning.nodeId);
   const maskedNodeId = maskString(nodeID!, 10);
+  const chainSource = useStoreState((state) => state.settings.chainSource[getSelectedNetwork()]);
 
   useLayoutEffect(() => {
     navigation.setOptions({
@@ -29,10 +33,13 @@ const LightningSettingsScreen = ({ navigation }) => {
     openUpdateExpirySheet,
     updateDescriptionBottomSheet,
     updateExpiryBottomSheet,
-    openElectrumSheet,
-    showElectrumBottomSheet,
+    openLspSheet,
+    lspBottomSheet,
+    currentLspId,
   } = useLightningSettingsBottomSheet();
 
+  const currentLsp = getLspProviders().find((provider) => provider.id === currentLspId);
+
   const onPressNodeId = () => {
     Clipboard.setString(nodeID || '');
     showToast({
@@ -46,6 +53,16 @@ const LightningSettingsScreen = ({ navigation }) => {
     navigate(Screens.ChannelsScreen);
   };
 
+  const onPressElectrumServers = () => {
+    cueInformativeHaptic();
+    navigate(Screens.ElectrumServersScreen);
+  };
+
+  const onPressChainSource = () => {
+    cueInformativeHaptic();
+    navigate(Screens.ChainSourceScreen);
+  };
+
   const onPressViewLogs = () => {
     cueInformativeHaptic();
     navigate(Screens.LogsScreen);
@@ -77,10 +94,22 @@ const LightningSettingsScreen = ({ navigation }) => {
         onPress={onPressChannels}
       />
       <SettingsItemWithTextValue title="Peers" withChevron={true} onPress={onPressChannels} />
+      <SettingsItemWithTextValue
+        title="Liquidity provider"
+        value={currentLsp?.name ?? 'None'}
+        withChevron={true}
+        onPress={openLspSheet}
+      />
       <SettingsItemWithTextValue
         title="Electrum servers"
         withChevron={true}
-        onPress={openElectrumSheet}
+        onPress={onPressElectrumServers}
+      />
+      <SettingsItemWithTextValue
+        title="Blockchain data source"
+        value={chainSource.type === EChainSourceType.esplora ? 'Esplora' : 'Electrum'}
+        withChevron={true}
+        onPress={onPressChainSource}
       />
       <SettingsItemWithTextValue
         title="View LDK logs"
@@ -89,7 +118,7 @@ const LightningSettingsScreen = ({ navigation }) => {
       />
       {updateDescriptionBottomSheet}
       {updateExpiryBottomSheet}
-      {showElectrumBottomSheet}
+      {lspBottomSheet}
     </SafeAreaView>
   );
 };
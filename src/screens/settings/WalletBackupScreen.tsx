@@ -1,12 +1,22 @@
-/* eslint-disable react-native/no-inline-styles */
-import React, { useLayoutEffect } from 'react';
-import { Platform, StyleSheet } from 'react-native';
+import React, { useLayoutEffect, useState } from 'react';
+import { Platform, ScrollView, StyleSheet } from 'react-native';
 import { SettingsItemSwitch, SettingsItemWithTextValue } from '../../components/InfoListItem';
 import { HeaderTitleWithSubtitle, headerWithBackButton } from '../../navigation/Headers';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import SectionTitle from '../../components/SectionTitle';
-import { cueInformativeHaptic } from '../../utils/accessibility/haptics';
+import { cueErrorHaptic, cueInformativeHaptic } from '../../utils/accessibility/haptics';
 import useWalletBackupBottomSheet from './useWalletBackupBottomSheet';
+import { useStoreActions, useStoreState } from '../../state/hooks';
+import { Button } from 'etta-ui';
+import { backupMetadata, backupNow } from '../../utils/backup';
+import { showErrorBanner, showSuccessBanner } from '../../utils/alerts';
+import { EBackupCategory } from '../../utils/types';
+
+const DESTINATION_NAMES = {
+  local: 'This device',
+  webdav: 'WebDAV server',
+  none: 'None',
+};
 
 const WalletBackupScreen = ({ navigation }) => {
   useLayoutEffect(() => {
@@ -16,6 +26,16 @@ const WalletBackupScreen = ({ navigation }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const backupCompleted = useStoreState((state) => state.nuxt.backupCompleted);
+  const walletBackupTimestamp = useStoreState(
+    (state) => state.wallet.walletinfo.walletBackupTimestamp
+  );
+  const backup = useStoreState((state) => state.backup);
+  const { setBackupChannels, setBackupMetadata, setEncryptMetadata } = useStoreActions(
+    (actions) => actions.backup
+  );
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
   const {
     openRecoveryPhraseSheet,
     cloudOptionsBottomSheet,
@@ -23,61 +43,113 @@ const WalletBackupScreen = ({ navigation }) => {
     recoveryPhraseBottomSheet,
   } = useWalletBackupBottomSheet();
 
-  // const onToggleCloudBackupProvider = () => {
-  //   cueInformativeHaptic();
-  //   return;
-  // };
+  const isEnabled = backup.destinationId !== 'none';
+  const lastBackup = Math.max(
+    backup.status[EBackupCategory.channels].lastSuccess,
+    backup.status[EBackupCategory.metadata].lastSuccess
+  );
 
-  // const onPressRecoveryPhrase = async () => {
-  //   const pinIsCorrect = await ensurePincode();
-  //   if (pinIsCorrect) {
-  //     openRecoveryPhraseSheet;
-  //   }
-  // };
+  const getStatusDetails = (category: EBackupCategory, enabled: boolean): string => {
+    const { lastSuccess, failedAttempts, error } = backup.status[category];
+    if (!isEnabled || !enabled) {
+      return 'Not backed up';
+    }
+    if (failedAttempts) {
+      return `Failed ${failedAttempts} times, retrying automatically: ${error}`;
+    }
+    return lastSuccess
+      ? `Last backup: ${new Date(lastSuccess).toLocaleString()}`
+      : 'Waiting for the first backup';
+  };
 
-  const onToggleEncryptBackup = () => {
+  const onToggleBackupChannels = (value: boolean) => {
     cueInformativeHaptic();
-    return;
+    setBackupChannels(value);
+  };
+
+  const onToggleBackupMetadata = (value: boolean) => {
+    cueInformativeHaptic();
+    setBackupMetadata(value);
+  };
+
+  const onToggleEncryptBackup = (value: boolean) => {
+    cueInformativeHaptic();
+    setEncryptMetadata(value);
+    // replace the copy stored with the previous setting
+    backupMetadata().then();
+  };
+
+  const onPressBackupNow = async () => {
+    cueInformativeHaptic();
+    setIsBackingUp(true);
+    const res = await backupNow();
+    setIsBackingUp(false);
+    if (res.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Backup failed',
+        message: res.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    showSuccessBanner({ message: 'Backup complete' });
   };
 
   return (
     <SafeAreaView style={styles.container}>
-      <SectionTitle
-        title="Automatic cloud backups"
-        details="Last backup: "
-        style={styles.sectionHeading}
-      />
-      <SettingsItemWithTextValue
-        title="Store cloud backup in"
-        value="Apple iCloud"
-        withChevron={true}
-        onPress={openCloudOptionsSheet}
-      />
-      <SettingsItemSwitch
-        title="Encrypt cloud backup"
-        value={true}
-        onValueChange={onToggleEncryptBackup}
-      />
-      <SettingsItemSwitch
-        title="Backup channels"
-        value={true}
-        onValueChange={onToggleEncryptBackup}
-      />
-      <SettingsItemSwitch
-        title="Backup transactions"
-        value={true}
-        onValueChange={onToggleEncryptBackup}
-      />
-      <SectionTitle
-        title="Manual backup"
-        details="Highly recommended"
-        style={styles.sectionHeading}
-      />
-      <SettingsItemWithTextValue
-        title="View recovery phrase"
-        withChevron={true}
-        onPress={openRecoveryPhraseSheet}
-      />
+      <ScrollView>
+        <SectionTitle
+          title="Automatic backups"
+          details={`Last backup: ${lastBackup ? new Date(lastBackup).toLocaleString() : 'never'}`}
+          style={styles.sectionHeading}
+        />
+        <SettingsItemWithTextValue
+          title="Store backups in"
+          value={DESTINATION_NAMES[backup.destinationId]}
+          withChevron={true}
+          onPress={openCloudOptionsSheet}
+        />
+        <SettingsItemSwitch
+          title="Backup channels"
+          value={backup.backupChannels}
+          onValueChange={onToggleBackupChannels}
+          details={getStatusDetails(EBackupCategory.channels, backup.backupChannels)}
+        />
+        <SettingsItemSwitch
+          title="Backup contacts, notes and settings"
+          value={backup.backupMetadata}
+          onValueChange={onToggleBackupMetadata}
+          details={getStatusDetails(EBackupCategory.metadata, backup.backupMetadata)}
+        />
+        <SettingsItemSwitch
+          title="Encrypt contacts, notes and settings"
+          value={backup.encryptMetadata}
+          onValueChange={onToggleEncryptBackup}
+          details="Channel backups are always encrypted"
+        />
+        <Button
+          title={isBackingUp ? 'Backing up...' : 'Back up now'}
+          onPress={onPressBackupNow}
+          appearance="outline"
+          style={styles.button}
+          disabled={!isEnabled || isBackingUp}
+        />
+        <SectionTitle
+          title="Manual backup"
+          details={
+            backupCompleted && walletBackupTimestamp
+              ? `Verified on ${new Date(Number(walletBackupTimestamp)).toLocaleDateString()}`
+              : 'Highly recommended'
+          }
+          style={styles.sectionHeading}
+        />
+        <SettingsItemWithTextValue
+          title="View recovery phrase"
+          withChevron={true}
+          onPress={openRecoveryPhraseSheet}
+        />
+      </ScrollView>
       {cloudOptionsBottomSheet}
       {recoveryPhraseBottomSheet}
     </SafeAreaView>
@@ -101,6 +173,11 @@ const styles = StyleSheet.create({
   sectionHeading: {
     marginVertical: 16,
   },
+  button: {
+    justifyContent: 'center',
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
 });
 
 export default WalletBackupScreen;
@@ -0,0 +1,178 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { Alert, Platform, StyleSheet, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import { HeaderTitleWithSubtitle, headerWithBackButton } from '../../navigation/Headers';
+import { navigate, navigateHome } from '../../navigation/NavigationService';
+import { Screens } from '../../navigation/Screens';
+import KeyboardAwareScrollView from '../../components/keyboard/KeyboardInScrollView';
+import FormInput from '../../components/form/Input';
+import RadioCardOption from '../../components/RadioCardOption';
+import SectionTitle from '../../components/SectionTitle';
+import { useStoreActions, useStoreState } from '../../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../../utils/alerts';
+import { createWallet, switchWallet } from '../../utils/wallet';
+import { Result } from '../../utils/result';
+import { TWalletName } from '../../utils/types';
+
+const WalletsScreen = ({ navigation }) => {
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: () => <HeaderTitleWithSubtitle title="Wallets" />,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const wallets = useStoreState((state) => state.wallet.wallets);
+  const selectedWallet = useStoreState((state) => state.wallet.defaultWallet);
+  const renameWallet = useStoreActions((actions) => actions.wallet.renameWallet);
+  const [walletName, setWalletName] = useState(wallets[selectedWallet]?.name ?? '');
+  const [newWalletName, setNewWalletName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const onResult = (res: Result<string>, name: string) => {
+    setIsBusy(false);
+    if (res.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to open wallet',
+        message: res.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({ message: `Switched to ${name}` });
+    navigateHome();
+  };
+
+  const onSelectWallet = (name: string, id: TWalletName) => {
+    cueInformativeHaptic();
+    if (id === selectedWallet) {
+      return;
+    }
+    Alert.alert('Switch wallet?', `Your lightning node will restart with ${name}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Switch',
+        onPress: async () => {
+          setIsBusy(true);
+          onResult(await switchWallet({ walletName: id }), name);
+        },
+      },
+    ]);
+  };
+
+  const onPressRename = () => {
+    cueInformativeHaptic();
+    renameWallet({ id: selectedWallet, name: walletName.trim() });
+    showSuccessBanner({ message: 'Wallet renamed' });
+  };
+
+  const onPressCreate = async () => {
+    cueInformativeHaptic();
+    setIsBusy(true);
+    const name = newWalletName.trim();
+    onResult(await createWallet({ name }), name);
+  };
+
+  const onPressImport = () => {
+    cueInformativeHaptic();
+    navigate(Screens.RestoreWalletScreen, { newWalletName: newWalletName.trim() });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        {Object.values(wallets).map(({ id, name }) => (
+          <RadioCardOption
+            key={id}
+            title={name}
+            description={id === selectedWallet ? 'Current wallet' : undefined}
+            onSelect={onSelectWallet}
+            isSelected={id === selectedWallet}
+            data={id}
+            disabled={isBusy}
+          />
+        ))}
+        <SectionTitle title="Rename current wallet" style={styles.sectionHeading} />
+        <FormInput
+          label="Wallet name"
+          onChangeText={setWalletName}
+          value={walletName}
+          multiline={false}
+        />
+        <Button
+          title="Save name"
+          onPress={onPressRename}
+          appearance="outline"
+          style={styles.button}
+          disabled={!walletName.trim()}
+        />
+        <SectionTitle title="Add a wallet" style={styles.sectionHeading} />
+        <Text style={styles.text}>
+          Every wallet has its own recovery phrase, lightning node and channels.
+        </Text>
+        <FormInput
+          label="Wallet name"
+          onChangeText={setNewWalletName}
+          value={newWalletName}
+          placeholder="e.g. Shop"
+          multiline={false}
+          editable={!isBusy}
+        />
+        <Button
+          title={isBusy ? 'Please wait...' : 'Create new wallet'}
+          onPress={onPressCreate}
+          style={styles.button}
+          disabled={!newWalletName.trim() || isBusy}
+        />
+        <Button
+          title="Import with recovery phrase"
+          onPress={onPressImport}
+          appearance="outline"
+          style={styles.button}
+          disabled={!newWalletName.trim() || isBusy}
+        />
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+WalletsScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  sectionHeading: {
+    marginVertical: 16,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+  },
+  button: {
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+});
+
+export default WalletsScreen;
@@ -0,0 +1,132 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { Platform, StyleSheet, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Colors, TypographyPresets } from 'etta-ui';
+import { HeaderTitleWithSubtitle, headerWithBackButton } from '../../navigation/Headers';
+import { navigateBack } from '../../navigation/NavigationService';
+import KeyboardAwareScrollView from '../../components/keyboard/KeyboardInScrollView';
+import FormInput from '../../components/form/Input';
+import { useStoreState } from '../../state/hooks';
+import {
+  cueErrorHaptic,
+  cueInformativeHaptic,
+  cueSuccessHaptic,
+} from '../../utils/accessibility/haptics';
+import { showErrorBanner, showSuccessBanner } from '../../utils/alerts';
+import { backupNow, setupWebDavBackup } from '../../utils/backup';
+
+const WebDavBackupScreen = ({ navigation }) => {
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: () => <HeaderTitleWithSubtitle title="WebDAV backup" />,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const webdav = useStoreState((state) => state.backup.webdav);
+  const [url, setUrl] = useState(webdav.url);
+  const [username, setUsername] = useState(webdav.username);
+  const [password, setPassword] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const onPressSave = async () => {
+    cueInformativeHaptic();
+    setIsConnecting(true);
+    const setupRes = await setupWebDavBackup({ url: url.trim(), username, password });
+    setIsConnecting(false);
+    if (setupRes.isErr()) {
+      cueErrorHaptic();
+      showErrorBanner({
+        title: 'Unable to reach the server',
+        message: setupRes.error.message,
+        dismissAfter: 5000,
+      });
+      return;
+    }
+    cueSuccessHaptic();
+    showSuccessBanner({
+      title: 'Backups will be stored on your server',
+      message: `${setupRes.value.length} existing backup files found`,
+    });
+    backupNow().then();
+    navigateBack();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAwareScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.text}>
+          Backups are stored in the folder at this address, e.g. a Nextcloud folder or your own
+          server. Channel state is always encrypted with a key from your recovery phrase.
+        </Text>
+        <FormInput
+          label="Folder URL"
+          onChangeText={setUrl}
+          value={url}
+          placeholder="https://cloud.example.com/remote.php/dav/files/me/etta"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          multiline={false}
+          editable={!isConnecting}
+        />
+        <FormInput
+          label="Username"
+          onChangeText={setUsername}
+          value={username}
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline={false}
+          editable={!isConnecting}
+        />
+        <FormInput
+          label="Password"
+          onChangeText={setPassword}
+          value={password}
+          autoCapitalize="none"
+          autoCorrect={false}
+          secureTextEntry={true}
+          multiline={false}
+          editable={!isConnecting}
+        />
+        <Button
+          title={isConnecting ? 'Connecting...' : 'Connect and save'}
+          onPress={onPressSave}
+          style={styles.button}
+          disabled={!url.trim() || isConnecting}
+        />
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+};
+
+WebDavBackupScreen.navigationOptions = {
+  ...headerWithBackButton,
+  ...Platform.select({
+    ios: { animation: 'slide_from_bottom' },
+  }),
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  text: {
+    ...TypographyPresets.Body5,
+    color: Colors.neutrals.light.neutral7,
+    marginBottom: 16,
+  },
+  button: {
+    justifyContent: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default WebDavBackupScreen;
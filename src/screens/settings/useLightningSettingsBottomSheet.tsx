@@ -3,7 +3,7 @@ import BottomSheet, {
   useBottomSheetDynamicSnapPoints,
 } from '@gorhom/bottom-sheet';
 import { Button, Colors, TypographyPresets } from 'etta-ui';
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { StyleSheet, Text, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -12,8 +12,8 @@ import { cueInformativeHaptic } from '../../utils/accessibility/haptics';
 import FormInput from '../../components/form/Input';
 import { useStoreDispatch, useStoreState } from '../../state/hooks';
 import RadioCardOption from '../../components/RadioCardOption';
-import { getConnectedElectrumPeer } from '../../utils/electrum/helpers';
-import { IElectrumPeerData } from '../../utils/types';
+import { getLspProviders } from '../../utils/lsp';
+import { getSelectedNetwork } from '../../utils/wallet';
 
 const useLightningSettingsBottomSheet = () => {
   const { t } = useTranslation();
@@ -22,7 +22,7 @@ const useLightningSettingsBottomSheet = () => {
 
   const updateDescriptionBottomSheetRef = useRef<BottomSheet>(null);
   const updateExpiryBottomSheetRef = useRef<BottomSheet>(null);
-  const electrumServersBottomSheetRef = useRef<BottomSheet>(null);
+  const lspBottomSheetRef = useRef<BottomSheet>(null);
 
   const defaultDescription = useStoreState((state) => state.lightning.defaultPRDescription);
   const defaultExpiry = useStoreState((state) => state.lightning.defaultPRExpiry);
@@ -30,7 +30,12 @@ const useLightningSettingsBottomSheet = () => {
   const [newDescription, setNewDescription] = useState(defaultDescription);
   const [newExpiry, setNewExpiry] = useState(defaultExpiry);
 
-  const [connectedPeer, setConnectedPeer] = useState<IElectrumPeerData>();
+  const selectedNetwork = getSelectedNetwork();
+  const lspProviders = getLspProviders(selectedNetwork);
+  const selectedLspId = useStoreState(
+    (state) => state.settings.selectedLspProvider[selectedNetwork]
+  );
+  const currentLspId = selectedLspId || lspProviders[0]?.id;
 
   const dispatch = useStoreDispatch();
 
@@ -46,30 +51,10 @@ const useLightningSettingsBottomSheet = () => {
     updateExpiryBottomSheetRef.current?.snapToIndex(0);
   };
 
-  const openElectrumSheet = () => {
-    electrumServersBottomSheetRef.current?.snapToIndex(0);
+  const openLspSheet = () => {
+    lspBottomSheetRef.current?.snapToIndex(0);
   };
 
-  useEffect(() => {
-    async function getElectrumPeer() {
-      try {
-        const peerInfo = await getConnectedElectrumPeer();
-        console.log(peerInfo.value.host);
-        if (peerInfo.isOk()) {
-          console.log(peerInfo);
-          setConnectedPeer(peerInfo.value);
-        } else {
-          console.log(peerInfo);
-          setConnectedPeer(undefined);
-        }
-      } catch (error) {
-        console.log(error);
-      }
-    }
-
-    getElectrumPeer();
-  }, []);
-
   const renderBackdrop = useCallback(
     (props) => (
       // added opacity here, default is 0.5
@@ -219,15 +204,20 @@ const useLightningSettingsBottomSheet = () => {
     dispatch.lightning,
   ]);
 
-  const showElectrumBottomSheet = useMemo(() => {
+  const lspBottomSheet = useMemo(() => {
     const onPressCancel = () => {
       cueInformativeHaptic();
-      electrumServersBottomSheetRef.current?.close();
+      lspBottomSheetRef.current?.close();
+    };
+
+    const onSelect = (title: string, providerId: string) => {
+      cueInformativeHaptic();
+      dispatch.settings.setLspProvider({ selectedNetwork, providerId });
     };
 
     return (
       <BottomSheet
-        ref={electrumServersBottomSheetRef}
+        ref={lspBottomSheetRef}
         index={-1}
         snapPoints={animatedSnapPoints}
         handleHeight={animatedHandleHeight}
@@ -240,18 +230,20 @@ const useLightningSettingsBottomSheet = () => {
           <View style={styles.cancelBtn}>
             <CancelButton onCancel={onPressCancel} />
           </View>
-          {connectedPeer ? (
-            <RadioCardOption
-              hideRadio={!true}
-              title="Connected"
-              description={`${connectedPeer.host}:${connectedPeer.port}`}
-              key={connectedPeer.host}
-              onSelect={() => 0}
-              isSelected={true}
-              data={connectedPeer}
-            />
+          <Text style={styles.title}>{t('Choose liquidity provider')}</Text>
+          {lspProviders.length ? (
+            lspProviders.map((provider) => (
+              <RadioCardOption
+                title={provider.name}
+                description={provider.description}
+                key={provider.id}
+                onSelect={onSelect}
+                isSelected={currentLspId === provider.id}
+                data={provider.id}
+              />
+            ))
           ) : (
-            <Text style={styles.subtitle}>No connected electrum peer at this time </Text>
+            <Text style={styles.subtitle}>No liquidity providers available on this network</Text>
           )}
         </View>
       </BottomSheet>
@@ -263,7 +255,11 @@ const useLightningSettingsBottomSheet = () => {
     renderBackdrop,
     paddingBottom,
     handleContentLayout,
-    connectedPeer,
+    t,
+    lspProviders,
+    currentLspId,
+    selectedNetwork,
+    dispatch.settings,
   ]);
 
   return {
@@ -271,8 +267,9 @@ const useLightningSettingsBottomSheet = () => {
     updateDescriptionBottomSheet,
     openUpdateExpirySheet,
     updateExpiryBottomSheet,
-    openElectrumSheet,
-    showElectrumBottomSheet,
+    openLspSheet,
+    lspBottomSheet,
+    currentLspId,
   };
 };
 
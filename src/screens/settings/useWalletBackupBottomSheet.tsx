@@ -15,6 +15,10 @@ import RecoveryPhraseContainer from '../../components/RecoveryPhraseContainer';
 import QRCode from 'react-native-qrcode-svg';
 import { getMnemonicPhrase } from '../../utils/lightning/helpers';
 import { showErrorBanner } from '../../utils/alerts';
+import { navigate } from '../../navigation/NavigationService';
+import { Screens } from '../../navigation/Screens';
+import { useStoreActions } from '../../state/hooks';
+import { backupNow } from '../../utils/backup';
 
 const WINDOW_WIDTH = Dimensions.get('window').width;
 const QR_CODE_WIDTH = WINDOW_WIDTH - 150;
@@ -27,6 +31,7 @@ const useWalletBackupBottomSheet = () => {
   const cloudOptionsBottomSheetRef = useRef<BottomSheet>(null);
   const recoveryPhraseBottomSheetRef = useRef<BottomSheet>(null);
 
+  const setDestination = useStoreActions((actions) => actions.backup.setDestination);
   const [checked, setChecked] = useState(false);
   const [mnemonic, setMnemonic] = useState<string[]>([]);
 
@@ -64,9 +69,18 @@ const useWalletBackupBottomSheet = () => {
   );
 
   const cloudOptionsBottomSheet = useMemo(() => {
-    const onPressManual = () => {
+    const onSelectDestination = (destinationId: string) => {
       cueInformativeHaptic();
-      // do
+      cloudOptionsBottomSheetRef.current?.close();
+      setDestination(destinationId);
+      backupNow().then();
+    };
+
+    const onPressWebDav = () => {
+      cueInformativeHaptic();
+      cloudOptionsBottomSheetRef.current?.close();
+      // only switches over once the server has been reached
+      navigate(Screens.WebDavBackupScreen);
     };
 
     return (
@@ -83,16 +97,22 @@ const useWalletBackupBottomSheet = () => {
         <View style={[styles.container, { paddingBottom }]} onLayout={handleContentLayout}>
           {/* options list */}
           <ListItemWithIcon
-            title="Apple iCloud"
+            title="This device"
+            withIcon={true}
+            icon="icon-sd-card"
+            onPress={() => onSelectDestination('local')}
+          />
+          <ListItemWithIcon
+            title="WebDAV server"
             withIcon={true}
             icon="icon-cloud"
-            onPress={onPressManual}
+            onPress={onPressWebDav}
           />
           <ListItemWithIcon
             title="None"
             withIcon={true}
             icon="icon-cross"
-            onPress={onPressManual}
+            onPress={() => onSelectDestination('none')}
           />
         </View>
       </BottomSheet>
@@ -104,12 +124,15 @@ const useWalletBackupBottomSheet = () => {
     renderBackdrop,
     paddingBottom,
     handleContentLayout,
+    setDestination,
   ]);
 
   const recoveryPhraseBottomSheet = useMemo(() => {
     const onPressDone = () => {
       cueInformativeHaptic();
       recoveryPhraseBottomSheetRef.current?.close();
+      // the backup only counts once the user proves they wrote the words down
+      navigate(Screens.ManualBackupQuizScreen);
     };
 
     const onPressCancel = () => {
@@ -163,7 +186,7 @@ const useWalletBackupBottomSheet = () => {
             </Text>
           </View>
           <Button
-            title="Done"
+            title="I wrote it down"
             onPress={onPressDone}
             size="default"
             appearance="filled"
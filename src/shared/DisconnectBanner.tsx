@@ -1,5 +1,5 @@
 import React from 'react';
-import { ActivityIndicator, View, Text } from 'react-native';
+import { ActivityIndicator, StyleSheet, View, Text } from 'react-native';
 import { Colors } from 'etta-ui';
 import { useStoreState, useStoreActions } from '../state/hooks';
 import LottieView from 'lottie-react-native';
@@ -12,6 +12,8 @@ const DisconnectBanner = () => {
 
   // Use the Easy Peasy hook to access the appConnected state
   const isAppConnected = useStoreState((state) => state.internet.isConnected);
+  const isConnectedToElectrum = useStoreState((state) => state.app.isConnectedToElectrum);
+  const walletExists = useStoreState((state) => state.wallet.walletExists);
   const checkConnectionStatus = useStoreActions(
     (actions) => actions.internet.checkConnectionStatus
   );
@@ -33,31 +35,47 @@ const DisconnectBanner = () => {
     setHasAppConnected(isAppConnected);
   }, [isAppConnected]);
 
-  if (hasAppConnected) {
+  if (hasAppConnected && (isConnectedToElectrum || !walletExists)) {
     return null;
   }
 
   // App's not connected anymore, show not connected animation
   if (!hasAppConnected) {
     return (
-      <View style={{ flex: 1, flexDirection: 'row', alignItems: 'center' }}>
+      <View style={styles.container}>
         <LottieView
-          style={{ width: '10%', aspectRatio: 1 }}
+          style={styles.animation}
           source={require('../../assets/lottie/no-connection.json')}
           autoPlay
           loop
         />
-        <Text style={{ paddingLeft: 10 }}>{t('disconnected')}</Text>
+        <Text style={styles.text}>{t('disconnected')}</Text>
       </View>
     );
   }
 
-  // App is connecting for first time, show grey banner
+  // Online but the Electrum connection dropped, the supervisor is reconnecting
   return (
-    <View>
+    <View style={styles.container}>
       <ActivityIndicator size="small" color={Colors.orange.base} />
+      <Text style={styles.text}>{t('reconnecting')}</Text>
     </View>
   );
 };
 
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  animation: {
+    width: '10%',
+    aspectRatio: 1,
+  },
+  text: {
+    paddingLeft: 10,
+  },
+});
+
 export default DisconnectBanner;
@@ -0,0 +1,74 @@
+import { action } from 'easy-peasy';
+import type { Action } from 'easy-peasy';
+import { EBackupCategory, TBackupStatus, TWebDavConfig } from '../../utils/types';
+
+const defaultBackupStatus: TBackupStatus = {
+  lastSuccess: 0,
+  lastFailure: 0,
+  failedAttempts: 0,
+  error: '',
+};
+
+export interface BackupModelType {
+  // 'local', 'webdav' or 'none' to turn automatic backups off
+  destinationId: string;
+  webdav: TWebDavConfig;
+  backupChannels: boolean;
+  backupMetadata: boolean;
+  // channel state is always encrypted, this only applies to contacts, notes and settings
+  encryptMetadata: boolean;
+  status: Record<EBackupCategory, TBackupStatus>;
+  setDestination: Action<BackupModelType, string>;
+  setWebDavConfig: Action<BackupModelType, TWebDavConfig>;
+  setBackupChannels: Action<BackupModelType, boolean>;
+  setBackupMetadata: Action<BackupModelType, boolean>;
+  setEncryptMetadata: Action<BackupModelType, boolean>;
+  setBackupSuccess: Action<BackupModelType, EBackupCategory>;
+  setBackupFailure: Action<BackupModelType, { category: EBackupCategory; error: string }>;
+}
+
+export const backupModel: BackupModelType = {
+  destinationId: 'local',
+  webdav: {
+    url: '',
+    username: '',
+  },
+  backupChannels: true,
+  backupMetadata: true,
+  encryptMetadata: true,
+  status: {
+    [EBackupCategory.channels]: defaultBackupStatus,
+    [EBackupCategory.metadata]: defaultBackupStatus,
+  },
+  setDestination: action((state, destinationId) => {
+    state.destinationId = destinationId;
+  }),
+  setWebDavConfig: action((state, payload) => {
+    state.webdav = payload;
+  }),
+  setBackupChannels: action((state, backupChannels) => {
+    state.backupChannels = backupChannels;
+  }),
+  setBackupMetadata: action((state, backupMetadata) => {
+    state.backupMetadata = backupMetadata;
+  }),
+  setEncryptMetadata: action((state, encryptMetadata) => {
+    state.encryptMetadata = encryptMetadata;
+  }),
+  setBackupSuccess: action((state, category) => {
+    state.status[category] = {
+      ...state.status[category],
+      lastSuccess: Date.now(),
+      failedAttempts: 0,
+      error: '',
+    };
+  }),
+  setBackupFailure: action((state, { category, error }) => {
+    state.status[category] = {
+      ...state.status[category],
+      lastFailure: Date.now(),
+      failedAttempts: state.status[category].failedAttempts + 1,
+      error,
+    };
+  }),
+};
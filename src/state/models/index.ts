@@ -7,6 +7,7 @@ import Logger from '../../utils/logger';
 import { WalletModelType, walletModel } from './wallet';
 import { SettingsModelType, settingsModel } from './settings';
 import { AccessibilityModelType, accessibilityModel } from './accessibility';
+import { BackupModelType, backupModel } from './backup';
 import * as Keychain from 'react-native-keychain';
 import { collectAppVersion, collectBuildNumber } from '../../utils/helpers';
 
@@ -21,6 +22,7 @@ export interface RootModelType {
   lightning: LightningNodeModelType;
   settings: SettingsModelType;
   wallet: WalletModelType;
+  backup: BackupModelType;
 }
 
 const rootModel: RootModelType = {
@@ -42,6 +44,7 @@ const rootModel: RootModelType = {
   lightning: lightningModel,
   settings: settingsModel,
   wallet: walletModel,
+  backup: backupModel,
 };
 
 export default rootModel;
@@ -2,14 +2,19 @@ import { Action, action, Thunk, thunk } from 'easy-peasy';
 import {
   EPaymentType,
   NodeState,
+  TClosedChannel,
   TContact,
   TLightningNodeVersion,
   TLightningPayment,
   TModifyInvoice,
+  TLsps1Order,
+  TPendingLnurlWithdrawal,
+  TWalletName,
 } from '../../utils/types';
 import { TChannel, TInvoice } from '@synonymdev/react-native-ldk';
 import { startLightning } from '../../utils/lightning/helpers';
 import logger from '../../utils/logger';
+import { cloneDeep } from 'lodash';
 import { isLdkRunning, waitForLdk } from '../../ldk';
 
 const TAG = 'LightningStore';
@@ -23,7 +28,10 @@ export interface LightningNodeModelType {
   ldkVersion: TLightningNodeVersion;
   channels: { [key: string]: TChannel };
   openChannelIds: string[];
+  closedChannels: { [key: string]: TClosedChannel };
   invoices: TInvoice[];
+  pendingWithdrawals: { [paymentHash: string]: TPendingLnurlWithdrawal };
+  channelOrders: { [orderId: string]: TLsps1Order };
   payments: { [key: string]: TLightningPayment };
   peers: string[];
   contacts: TContact[];
@@ -43,9 +51,14 @@ export interface LightningNodeModelType {
   removeInvoice: Action<LightningNodeModelType, string>;
   updateInvoices: Action<LightningNodeModelType, { index: number; invoice: TInvoice }>;
   updateChannels: Action<LightningNodeModelType, Partial<LightningNodeModelType>>;
+  closeChannels: Action<LightningNodeModelType, { channelIds: string[]; reason?: string }>;
   updateClaimableBalance: Action<LightningNodeModelType, number>;
   setMaxReceivable: Action<LightningNodeModelType, number>;
   removeExpiredInvoices: Action<LightningNodeModelType, TInvoice[]>;
+  addPendingWithdrawal: Action<LightningNodeModelType, TPendingLnurlWithdrawal>;
+  removePendingWithdrawal: Action<LightningNodeModelType, string>;
+  addChannelOrder: Action<LightningNodeModelType, TLsps1Order>;
+  updateChannelOrder: Action<LightningNodeModelType, TLsps1Order>;
   addPayment: Action<LightningNodeModelType, TLightningPayment>;
   updatePayment: Action<LightningNodeModelType, TLightningPayment>;
   addPeer: Action<LightningNodeModelType, string>;
@@ -53,8 +66,60 @@ export interface LightningNodeModelType {
   updateContact: Action<LightningNodeModelType, { contactId: string; updatedContact: TContact }>;
   deleteContact: Action<LightningNodeModelType, string>;
   deleteContactAddress: Action<LightningNodeModelType, { contactId: string; addressId: string }>;
+  // state of every wallet but the selected one, swapped back in when switching to it
+  inactiveWallets: { [id: TWalletName]: TLightningWalletState };
+  switchWallet: Action<LightningNodeModelType, { from: TWalletName; to: TWalletName }>;
+  // only for wallets that aren't selected
+  removeWallet: Action<LightningNodeModelType, TWalletName>;
 }
 
+// everything that belongs to a single wallet's node, the rest is shared by all wallets
+export type TLightningWalletState = Pick<
+  LightningNodeModelType,
+  | 'nodeId'
+  | 'channels'
+  | 'openChannelIds'
+  | 'closedChannels'
+  | 'invoices'
+  | 'pendingWithdrawals'
+  | 'channelOrders'
+  | 'payments'
+  | 'peers'
+  | 'contacts'
+  | 'claimableBalance'
+  | 'maxReceivable'
+>;
+
+const LIGHTNING_WALLET_STATE_KEYS: (keyof TLightningWalletState)[] = [
+  'nodeId',
+  'channels',
+  'openChannelIds',
+  'closedChannels',
+  'invoices',
+  'pendingWithdrawals',
+  'channelOrders',
+  'payments',
+  'peers',
+  'contacts',
+  'claimableBalance',
+  'maxReceivable',
+];
+
+const copyWalletStateKey = <K extends keyof TLightningWalletState>(
+  target: TLightningWalletState,
+  source: TLightningWalletState,
+  key: K
+): void => {
+  target[key] = source[key];
+};
+
+// the wallet's part of the state, without the values shared by all wallets
+const pickWalletState = (source: TLightningWalletState): TLightningWalletState => {
+  const walletState = {} as TLightningWalletState;
+  LIGHTNING_WALLET_STATE_KEYS.forEach((key) => copyWalletStateKey(walletState, source, key));
+  return walletState;
+};
+
 export const lightningModel: LightningNodeModelType = {
   ldkState: NodeState.OFFLINE,
   nodeStarted: false,
@@ -64,7 +129,10 @@ export const lightningModel: LightningNodeModelType = {
     c_bindings: '',
   },
   channels: {},
+  closedChannels: {},
   invoices: [],
+  pendingWithdrawals: {},
+  channelOrders: {},
   payments: {},
   peers: [],
   contacts: [],
@@ -146,12 +214,49 @@ export const lightningModel: LightningNodeModelType = {
     const uniqueIds = newChannelIds.filter((id) => !state.openChannelIds.includes(id));
     state.openChannelIds = [...state.openChannelIds, ...uniqueIds];
   }),
+  closeChannels: action((state, payload) => {
+    // move closed channels out of the open set so their balances stop counting
+    payload.channelIds.forEach((channelId) => {
+      const channel = state.channels[channelId];
+      if (channel) {
+        state.closedChannels[channelId] = {
+          ...channel,
+          closedAt: Date.now(),
+          closeReason: payload.reason,
+        };
+        delete state.channels[channelId];
+      }
+    });
+    state.openChannelIds = state.openChannelIds.filter(
+      (channelId) => !payload.channelIds.includes(channelId)
+    );
+  }),
   updateClaimableBalance: action((state, payload) => {
     state.claimableBalance = payload;
   }),
   setMaxReceivable: action((state, payload) => {
     state.maxReceivable = payload;
   }),
+  addPendingWithdrawal: action((state, payload) => {
+    state.pendingWithdrawals = {
+      ...state.pendingWithdrawals,
+      [payload.paymentHash]: payload,
+    };
+  }),
+  removePendingWithdrawal: action((state, payload) => {
+    delete state.pendingWithdrawals[payload];
+  }),
+  addChannelOrder: action((state, payload) => {
+    state.channelOrders = {
+      ...state.channelOrders,
+      [payload.orderId]: payload,
+    };
+  }),
+  updateChannelOrder: action((state, payload) => {
+    if (state.channelOrders[payload.orderId]) {
+      state.channelOrders[payload.orderId] = payload;
+    }
+  }),
   addPayment: action((state, payload) => {
     state.payments = {
       ...state.payments,
@@ -162,6 +267,7 @@ export const lightningModel: LightningNodeModelType = {
           payload?.invoice.payee_pub_key === state.nodeId
             ? EPaymentType.received
             : EPaymentType.sent,
+        note: payload?.note,
       },
     };
   }),
@@ -228,4 +334,19 @@ export const lightningModel: LightningNodeModelType = {
       return { ...contact, items: updatedIdentifiers };
     });
   }),
+  inactiveWallets: {},
+  switchWallet: action((state, { from, to }) => {
+    const previous = pickWalletState(state);
+    const target = state.inactiveWallets[to] ?? getDefaultLightningWalletState();
+    LIGHTNING_WALLET_STATE_KEYS.forEach((key) => copyWalletStateKey(state, target, key));
+    state.inactiveWallets[from] = previous;
+    delete state.inactiveWallets[to];
+  }),
+  removeWallet: action((state, payload) => {
+    delete state.inactiveWallets[payload];
+  }),
+};
+
+export const getDefaultLightningWalletState = (): TLightningWalletState => {
+  return cloneDeep(pickWalletState(lightningModel));
 };
@@ -1,5 +1,12 @@
+import { Action, action } from 'easy-peasy';
 import { TAvailableNetworks } from '../../utils/networks';
-import { ICustomElectrumPeer, IWalletItem } from '../../utils/types';
+import {
+  EChainSourceType,
+  EFeeSource,
+  ICustomElectrumPeer,
+  IWalletItem,
+  TChainSourceSettings,
+} from '../../utils/types';
 
 // const TAG = 'SettingsStore';
 
@@ -36,12 +43,112 @@ export const publicElectrumPeers: Record<TAvailableNetworks, ICustomElectrumPeer
   ],
 };
 
+export const defaultEsploraUrls: Record<TAvailableNetworks, string> = {
+  bitcoin: 'https://blockstream.info/api',
+  bitcoinTestnet: 'https://blockstream.info/testnet/api',
+  bitcoinRegtest: '',
+};
+
+export const defaultMempoolApiUrls: Record<TAvailableNetworks, string> = {
+  bitcoin: 'https://mempool.space/api',
+  bitcoinTestnet: 'https://mempool.space/testnet/api',
+  bitcoinRegtest: '',
+};
+
 export type TCustomElectrumPeers = IWalletItem<ICustomElectrumPeer[]>;
 
 export interface SettingsModelType {
   customElectrumPeers: TCustomElectrumPeers;
+  // host of the peer to connect to first, empty to try them in order
+  preferredElectrumPeer: IWalletItem<string>;
+  selectedLspProvider: IWalletItem<string>;
+  chainSource: IWalletItem<TChainSourceSettings>;
+  // fee estimate sources, tried in order until one answers
+  feeSources: EFeeSource[];
+  mempoolApiUrl: IWalletItem<string>;
+  setLspProvider: Action<
+    SettingsModelType,
+    { selectedNetwork: TAvailableNetworks; providerId: string }
+  >;
+  saveElectrumPeer: Action<
+    SettingsModelType,
+    { selectedNetwork: TAvailableNetworks; peer: ICustomElectrumPeer; previousHost?: string }
+  >;
+  removeElectrumPeer: Action<
+    SettingsModelType,
+    { selectedNetwork: TAvailableNetworks; host: string }
+  >;
+  setPreferredElectrumPeer: Action<
+    SettingsModelType,
+    { selectedNetwork: TAvailableNetworks; host: string }
+  >;
+  setChainSource: Action<
+    SettingsModelType,
+    { selectedNetwork: TAvailableNetworks; chainSource: TChainSourceSettings }
+  >;
+  setFeeSources: Action<SettingsModelType, EFeeSource[]>;
+  setMempoolApiUrl: Action<SettingsModelType, { selectedNetwork: TAvailableNetworks; url: string }>;
 }
 
 export const settingsModel: SettingsModelType = {
   customElectrumPeers: publicElectrumPeers,
+  preferredElectrumPeer: {
+    bitcoin: '',
+    bitcoinTestnet: '',
+    bitcoinRegtest: '',
+  },
+  // empty means the network's default provider
+  selectedLspProvider: {
+    bitcoin: '',
+    bitcoinTestnet: '',
+    bitcoinRegtest: '',
+  },
+  chainSource: {
+    bitcoin: { type: EChainSourceType.electrum, esploraUrl: defaultEsploraUrls.bitcoin },
+    bitcoinTestnet: {
+      type: EChainSourceType.electrum,
+      esploraUrl: defaultEsploraUrls.bitcoinTestnet,
+    },
+    bitcoinRegtest: {
+      type: EChainSourceType.electrum,
+      esploraUrl: defaultEsploraUrls.bitcoinRegtest,
+    },
+  },
+  feeSources: [EFeeSource.mempool, EFeeSource.electrum, EFeeSource.cache],
+  mempoolApiUrl: defaultMempoolApiUrls,
+  setLspProvider: action((state, payload) => {
+    state.selectedLspProvider[payload.selectedNetwork] = payload.providerId;
+  }),
+  saveElectrumPeer: action((state, { selectedNetwork, peer, previousHost = peer.host }) => {
+    const peers = state.customElectrumPeers[selectedNetwork];
+    const index = peers.findIndex(({ host }) => host === previousHost);
+    if (index === -1) {
+      peers.push(peer);
+    } else {
+      peers[index] = peer;
+    }
+    if (state.preferredElectrumPeer[selectedNetwork] === previousHost) {
+      state.preferredElectrumPeer[selectedNetwork] = peer.host;
+    }
+  }),
+  removeElectrumPeer: action((state, { selectedNetwork, host }) => {
+    state.customElectrumPeers[selectedNetwork] = state.customElectrumPeers[selectedNetwork].filter(
+      (peer) => peer.host !== host
+    );
+    if (state.preferredElectrumPeer[selectedNetwork] === host) {
+      state.preferredElectrumPeer[selectedNetwork] = '';
+    }
+  }),
+  setPreferredElectrumPeer: action((state, { selectedNetwork, host }) => {
+    state.preferredElectrumPeer[selectedNetwork] = host;
+  }),
+  setChainSource: action((state, { selectedNetwork, chainSource }) => {
+    state.chainSource[selectedNetwork] = chainSource;
+  }),
+  setFeeSources: action((state, payload) => {
+    state.feeSources = payload;
+  }),
+  setMempoolApiUrl: action((state, { selectedNetwork, url }) => {
+    state.mempoolApiUrl[selectedNetwork] = url;
+  }),
 };
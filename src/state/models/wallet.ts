@@ -2,11 +2,19 @@ import { Action, action } from 'easy-peasy';
 import { TAvailableNetworks } from '../../utils/networks';
 import {
   EAddressType,
+  EFeeSource,
+  IAddressTypeContent,
   IAddressTypes,
   IHeader,
   IKeyDerivationPath,
   IOnchainFees,
+  IUtxo,
   IWallet,
+  IWalletItem,
+  TAddressIndexes,
+  TOnchainBalance,
+  TOnchainTransaction,
+  TWalletMeta,
   TWalletName,
   addressTypes,
   defaultKeyDerivationPath,
@@ -28,6 +36,9 @@ export interface WalletModelType {
     name: string;
     type: string;
     addressIndex: number;
+    changeAddressIndex: number;
+    // indexes found by address discovery for every address type, the selected type uses the above
+    addressIndexes: Partial<IAddressTypeContent<TAddressIndexes>>;
     balance: number;
     lastUpdated: number;
     hasBackedUpWallet: boolean;
@@ -38,12 +49,44 @@ export interface WalletModelType {
   };
   setWalletExists: Action<WalletModelType, boolean>;
   setAddressIndex: Action<WalletModelType, number>;
+  setChangeAddressIndex: Action<WalletModelType, number>;
   setHeader: Action<WalletModelType, IHeader>;
   updateWalletInfo: Action<WalletModelType, Partial<WalletModelType['walletinfo']>>;
   fees: IOnchainFees;
   updateFees: Action<WalletModelType, IOnchainFees>;
+  utxos: IWalletItem<IUtxo[]>;
+  updateUtxos: Action<WalletModelType, { selectedNetwork: TAvailableNetworks; utxos: IUtxo[] }>;
+  removeUtxos: Action<
+    WalletModelType,
+    { selectedNetwork: TAvailableNetworks; outpoints: { tx_hash: string; tx_pos: number }[] }
+  >;
+  onchainBalance: IWalletItem<TOnchainBalance>;
+  updateOnchainBalance: Action<
+    WalletModelType,
+    { selectedNetwork: TAvailableNetworks; balance: TOnchainBalance }
+  >;
+  transactions: IWalletItem<{ [txid: string]: TOnchainTransaction }>;
+  addTransaction: Action<
+    WalletModelType,
+    { selectedNetwork: TAvailableNetworks; transaction: TOnchainTransaction }
+  >;
+  removeTransaction: Action<WalletModelType, { selectedNetwork: TAvailableNetworks; txid: string }>;
+  wallets: { [id: TWalletName]: TWalletMeta };
+  // state of every wallet but the selected one, swapped back in when switching to it
+  inactiveWallets: { [id: TWalletName]: TWalletState };
+  addWallet: Action<WalletModelType, TWalletMeta>;
+  renameWallet: Action<WalletModelType, { id: TWalletName; name: string }>;
+  switchWallet: Action<WalletModelType, { from: TWalletName; to: TWalletName }>;
+  // only for wallets that aren't selected
+  removeWallet: Action<WalletModelType, TWalletName>;
 }
 
+// everything that belongs to a single wallet, the rest is shared by all wallets
+export type TWalletState = Pick<
+  WalletModelType,
+  'walletinfo' | 'utxos' | 'onchainBalance' | 'transactions'
+>;
+
 export const walletModel: WalletModelType = {
   walletExists: false,
   selectedNetwork: EAvailableNetworks.bitcoinTestnet,
@@ -55,6 +98,8 @@ export const walletModel: WalletModelType = {
     name: '',
     type: 'default',
     addressIndex: 0,
+    changeAddressIndex: 0,
+    addressIndexes: {},
     balance: 0,
     lastUpdated: 0,
     hasBackedUpWallet: false,
@@ -69,10 +114,29 @@ export const walletModel: WalletModelType = {
     slow: 2, // 1-2 hrs
     minimum: 1,
     timestamp: Date.now() - 60 * 30 * 1000 - 1, // minus 30 mins
+    source: EFeeSource.default,
+  },
+  utxos: {
+    bitcoin: [],
+    bitcoinTestnet: [],
+    bitcoinRegtest: [],
+  },
+  onchainBalance: {
+    bitcoin: { confirmed: 0, unconfirmed: 0 },
+    bitcoinTestnet: { confirmed: 0, unconfirmed: 0 },
+    bitcoinRegtest: { confirmed: 0, unconfirmed: 0 },
+  },
+  transactions: {
+    bitcoin: {},
+    bitcoinTestnet: {},
+    bitcoinRegtest: {},
   },
   setAddressIndex: action((state, payload) => {
     state.walletinfo.addressIndex = payload;
   }),
+  setChangeAddressIndex: action((state, payload) => {
+    state.walletinfo.changeAddressIndex = payload;
+  }),
   setWalletExists: action((state, payload) => {
     state.walletExists = payload;
   }),
@@ -89,8 +153,74 @@ export const walletModel: WalletModelType = {
       ...payload,
     };
   }),
+  updateUtxos: action((state, payload) => {
+    state.utxos[payload.selectedNetwork] = payload.utxos;
+  }),
+  removeUtxos: action((state, payload) => {
+    // drop utxos spent by a broadcast transaction until the next utxo refresh
+    state.utxos[payload.selectedNetwork] = state.utxos[payload.selectedNetwork].filter(
+      (utxo) =>
+        !payload.outpoints.some(
+          (outpoint) => outpoint.tx_hash === utxo.tx_hash && outpoint.tx_pos === utxo.tx_pos
+        )
+    );
+  }),
+  updateOnchainBalance: action((state, payload) => {
+    state.onchainBalance[payload.selectedNetwork] = payload.balance;
+    if (payload.selectedNetwork === state.selectedNetwork) {
+      state.walletinfo.balance = payload.balance.confirmed + payload.balance.unconfirmed;
+    }
+  }),
+  addTransaction: action((state, payload) => {
+    state.transactions[payload.selectedNetwork][payload.transaction.txid] = payload.transaction;
+  }),
+  removeTransaction: action((state, payload) => {
+    delete state.transactions[payload.selectedNetwork][payload.txid];
+  }),
+  wallets: {
+    wallet0: {
+      id: 'wallet0',
+      name: 'Main wallet',
+      createdAt: 0,
+    },
+  },
+  inactiveWallets: {},
+  addWallet: action((state, payload) => {
+    state.wallets[payload.id] = payload;
+  }),
+  renameWallet: action((state, payload) => {
+    state.wallets[payload.id].name = payload.name;
+  }),
+  switchWallet: action((state, { from, to }) => {
+    state.inactiveWallets[from] = {
+      walletinfo: state.walletinfo,
+      utxos: state.utxos,
+      onchainBalance: state.onchainBalance,
+      transactions: state.transactions,
+    };
+    const target = state.inactiveWallets[to] ?? getDefaultWalletState(to);
+    state.walletinfo = target.walletinfo;
+    state.utxos = target.utxos;
+    state.onchainBalance = target.onchainBalance;
+    state.transactions = target.transactions;
+    delete state.inactiveWallets[to];
+    state.defaultWallet = to;
+  }),
+  removeWallet: action((state, payload) => {
+    delete state.wallets[payload];
+    delete state.inactiveWallets[payload];
+  }),
 };
 
 export const getDefaultWalletShape = (): IWallet => {
   return cloneDeep(walletModel.walletinfo);
 };
+
+export const getDefaultWalletState = (id: TWalletName): TWalletState => {
+  return cloneDeep({
+    walletinfo: { ...walletModel.walletinfo, id },
+    utxos: walletModel.utxos,
+    onchainBalance: walletModel.onchainBalance,
+    transactions: walletModel.transactions,
+  });
+};
@@ -0,0 +1,563 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import lm, { TAccount, TAccountBackup } from '@synonymdev/react-native-ldk';
+import { err, ok, Result } from '../result';
+import { getSeed } from '../bitcoin';
+import { getSelectedNetwork } from '../wallet';
+import { TAvailableNetworks } from '../networks';
+import {
+  BackupDestination,
+  EBackupCategory,
+  TBackupMetadata,
+  TEncryptedBackup,
+  TWebDavConfig,
+} from '../types';
+import { getKeychainValue, setKeychainValue } from '../keychain';
+import { getLdkAccount } from '../lightning/helpers';
+import Logger from '../logger';
+import store from '../../state/store';
+import { localFileDestination } from './local';
+import { createWebDavDestination } from './webdav';
+
+// bump whenever the archive layout changes, keeping older versions readable
+export const BACKUP_VERSION = 1;
+const SUPPORTED_BACKUP_VERSIONS = [1];
+const BACKUP_CIPHER = 'aes-256-cbc';
+const WEBDAV_PASSWORD_KEY = 'webdavBackupPassword';
+// failed backups are retried after these delays, repeating the last one until they succeed
+const RETRY_DELAYS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 30 * 60 * 1000];
+// metadata changes in bursts (e.g. editing a contact), so wait for things to settle
+const METADATA_BACKUP_DELAY = 5000;
+
+let backupSubscriptionId: string | undefined;
+let unsubscribeFromMetadata: (() => void) | undefined;
+let metadataBackupTimer: ReturnType<typeof setTimeout> | undefined;
+const retryTimers: Partial<Record<EBackupCategory, ReturnType<typeof setTimeout>>> = {};
+// uploads run one after the other so an older backup can never overwrite a newer one
+let uploadQueue: Promise<unknown> = Promise.resolve();
+
+type TBackupKeys = {
+  encryptionKey: Buffer;
+  macKey: Buffer;
+  keyId: string;
+};
+
+/**
+ * Derives the encryption and authentication keys from the wallet seed,
+ * so the recovery phrase (and passphrase) is all that is needed to read a backup.
+ * @param {Buffer} seed
+ * @returns {TBackupKeys}
+ */
+const getBackupKeys = (seed: Buffer): TBackupKeys => {
+  const encryptionKey = createHmac('sha256', seed).update('etta-backup-encryption').digest();
+  const macKey = createHmac('sha256', seed).update('etta-backup-authentication').digest();
+  // identifies the wallet in file names without revealing anything about the keys
+  const keyId = createHmac('sha256', macKey).update('etta-backup-id').digest('hex').slice(0, 16);
+  return { encryptionKey, macKey, keyId };
+};
+
+const getMacPayload = ({
+  version,
+  network,
+  timestamp,
+  iv,
+  ciphertext,
+}: Omit<TEncryptedBackup, 'mac'>): string =>
+  `${version}:${network}:${timestamp}:${iv}:${ciphertext}`;
+
+// the crypto shim has no timingSafeEqual, so both macs are hashed again with a key an attacker
+// doesn't know, which makes the time taken by the comparison meaningless
+const isMacEqual = (macKey: Buffer, a: string, b: string): boolean =>
+  createHmac('sha256', macKey).update(a).digest('hex') ===
+  createHmac('sha256', macKey).update(b).digest('hex');
+
+/**
+ * Returns the destination picked in the backup settings.
+ * @param {string} [destinationId]
+ * @returns {Promise<Result<BackupDestination>>}
+ */
+export const getBackupDestination = async ({
+  destinationId,
+}: {
+  destinationId?: string;
+} = {}): Promise<Result<BackupDestination>> => {
+  if (!destinationId) {
+    destinationId = store.getState().backup.destinationId;
+  }
+  switch (destinationId) {
+    case 'local':
+      return ok(localFileDestination);
+    case 'webdav': {
+      const { url, username } = store.getState().backup.webdav;
+      if (!url) {
+        return err('No WebDAV server has been set up');
+      }
+      const password = await getKeychainValue({ key: WEBDAV_PASSWORD_KEY });
+      return ok(
+        createWebDavDestination({ url, username, password: password.error ? '' : password.data })
+      );
+    }
+    default:
+      return err('Automatic backups are turned off');
+  }
+};
+
+/**
+ * Checks the server is reachable with the given credentials before switching backups to it.
+ * @param {string} url
+ * @param {string} username
+ * @param {string} password
+ * @returns {Promise<Result<string[]>>} backups already stored on the server
+ */
+export const setupWebDavBackup = async ({
+  url,
+  username,
+  password,
+}: TWebDavConfig & { password: string }): Promise<Result<string[]>> => {
+  const listRes = await createWebDavDestination({ url, username, password }).list();
+  if (listRes.isErr()) {
+    return err(listRes.error.message);
+  }
+  const setRes = await setKeychainValue({ key: WEBDAV_PASSWORD_KEY, value: password });
+  if (setRes.error) {
+    return err('Unable to save the WebDAV password');
+  }
+  store.dispatch.backup.setWebDavConfig({ url, username });
+  store.dispatch.backup.setDestination('webdav');
+  return ok(listRes.value);
+};
+
+const isBackupEnabled = (category: EBackupCategory): boolean => {
+  const { destinationId, backupChannels, backupMetadata } = store.getState().backup;
+  if (destinationId === 'none') {
+    return false;
+  }
+  return category === EBackupCategory.channels ? backupChannels : backupMetadata;
+};
+
+/**
+ * Runs a backup task and records the outcome, retrying with a growing delay on failure.
+ * A new attempt for the same category cancels any pending retry.
+ * @param {EBackupCategory} category
+ * @param {() => Promise<Result<string>>} task
+ * @param {() => Promise<Result<string>>} [retryTask] defaults to task
+ * @returns {Promise<Result<string>>}
+ */
+const runBackup = async ({
+  category,
+  task,
+  retryTask = task,
+}: {
+  category: EBackupCategory;
+  task: () => Promise<Result<string>>;
+  retryTask?: () => Promise<Result<string>>;
+}): Promise<Result<string>> => {
+  clearTimeout(retryTimers[category]);
+  delete retryTimers[category];
+  if (!isBackupEnabled(category)) {
+    return ok('Backups are turned off');
+  }
+  const res = await task();
+  if (res.isOk()) {
+    store.dispatch.backup.setBackupSuccess(category);
+    return res;
+  }
+  Logger.error('@runBackup', `Unable to back up ${category}`, res.error);
+  store.dispatch.backup.setBackupFailure({ category, error: res.error.message });
+  const { failedAttempts } = store.getState().backup.status[category];
+  const delay = RETRY_DELAYS[Math.min(failedAttempts, RETRY_DELAYS.length) - 1];
+  retryTimers[category] = setTimeout(() => {
+    runBackup({ category, task: retryTask }).then();
+  }, delay);
+  return res;
+};
+
+/**
+ * Hands a file to the current destination, after any upload still in flight.
+ * @param {string} fileName
+ * @param {string} data
+ * @returns {Promise<Result<string>>}
+ */
+const upload = async ({
+  fileName,
+  data,
+}: {
+  fileName: string;
+  data: string;
+}): Promise<Result<string>> => {
+  const destination = await getBackupDestination();
+  if (destination.isErr()) {
+    return err(destination.error.message);
+  }
+  const uploadRes = uploadQueue.then(() => destination.value.upload({ fileName, data }));
+  uploadQueue = uploadRes.catch(() => null);
+  return await uploadRes;
+};
+
+/**
+ * Encrypts data into a versioned archive. The header is covered by the MAC as well,
+ * so an archive can't be replayed onto another network or version.
+ * @param {string} data
+ * @param {Buffer} seed
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {string}
+ */
+export const encryptBackup = ({
+  data,
+  seed,
+  selectedNetwork,
+}: {
+  data: string;
+  seed: Buffer;
+  selectedNetwork?: TAvailableNetworks;
+}): string => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const { encryptionKey, macKey } = getBackupKeys(seed);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv(BACKUP_CIPHER, encryptionKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+  const header = {
+    version: BACKUP_VERSION,
+    network: selectedNetwork,
+    timestamp: Date.now(),
+    iv: iv.toString('hex'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+  const mac = createHmac('sha256', macKey).update(getMacPayload(header)).digest('hex');
+  const archive: TEncryptedBackup = { ...header, mac };
+  return JSON.stringify(archive);
+};
+
+/**
+ * Authenticates and decrypts an archive created by encryptBackup.
+ * @param {string} archive
+ * @param {Buffer} seed
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<string>}
+ */
+export const decryptBackup = ({
+  archive,
+  seed,
+  selectedNetwork,
+}: {
+  archive: string;
+  seed: Buffer;
+  selectedNetwork?: TAvailableNetworks;
+}): Result<string> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    const backup: TEncryptedBackup = JSON.parse(archive);
+    if (!SUPPORTED_BACKUP_VERSIONS.includes(backup.version)) {
+      return err(`Unsupported backup version ${backup.version}. Please update the app.`);
+    }
+    if (backup.network !== selectedNetwork) {
+      return err(`This backup was made on ${backup.network}`);
+    }
+    const { encryptionKey, macKey } = getBackupKeys(seed);
+    const mac = createHmac('sha256', macKey).update(getMacPayload(backup)).digest('hex');
+    if (!isMacEqual(macKey, mac, backup.mac)) {
+      return err('Backup does not belong to this wallet or has been tampered with');
+    }
+    const decipher = createDecipheriv(BACKUP_CIPHER, encryptionKey, Buffer.from(backup.iv, 'hex'));
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(backup.ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+    return ok(data.toString('utf8'));
+  } catch (e) {
+    return err(e);
+  }
+};
+
+const getLdkBackupFileName = (keyId: string, selectedNetwork: TAvailableNetworks): string =>
+  `ldk-${selectedNetwork}-${keyId}.json`;
+
+/**
+ * Encrypts a LDK account backup and hands it to the current destination.
+ * @param {TAccountBackup} backup
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+const uploadLdkBackup = async ({
+  backup,
+  selectedNetwork,
+}: {
+  backup: TAccountBackup;
+  selectedNetwork: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  const seed = await getSeed();
+  if (seed.isErr()) {
+    return err(seed.error.message);
+  }
+  const { keyId } = getBackupKeys(seed.value);
+  const data = encryptBackup({
+    data: JSON.stringify(backup),
+    seed: seed.value,
+    selectedNetwork,
+  });
+  return await upload({ fileName: getLdkBackupFileName(keyId, selectedNetwork), data });
+};
+
+const snapshotLdk = async ({
+  account,
+  selectedNetwork,
+}: {
+  account: TAccount;
+  selectedNetwork: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  const backupRes = await lm.backupAccount({ account });
+  if (backupRes.isErr()) {
+    return err(backupRes.error.message);
+  }
+  return await uploadLdkBackup({ backup: backupRes.value, selectedNetwork });
+};
+
+/**
+ * Takes a full snapshot of the LDK account and uploads it.
+ * @param {TAccount} account
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const backupLdk = async ({
+  account,
+  selectedNetwork,
+}: {
+  account: TAccount;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const network = selectedNetwork;
+  return await runBackup({
+    category: EBackupCategory.channels,
+    task: () => snapshotLdk({ account, selectedNetwork: network }),
+  });
+};
+
+/**
+ * Uploads a new backup every time LDK persists the channel manager or a channel monitor.
+ * @param {TAccount} account
+ * @param {TAvailableNetworks} [selectedNetwork]
+ */
+export const subscribeToLdkBackups = ({
+  account,
+  selectedNetwork,
+}: {
+  account: TAccount;
+  selectedNetwork?: TAvailableNetworks;
+}): void => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (backupSubscriptionId) {
+    return;
+  }
+  const network = selectedNetwork;
+  backupSubscriptionId = lm.subscribeToBackups((backupRes) => {
+    if (backupRes.isErr()) {
+      Logger.error('@subscribeToLdkBackups', 'Unable to create backup', backupRes.error);
+      return;
+    }
+    runBackup({
+      category: EBackupCategory.channels,
+      task: () => uploadLdkBackup({ backup: backupRes.value, selectedNetwork: network }),
+      // by the time a retry runs this snapshot may be outdated, so take a fresh one
+      retryTask: () => snapshotLdk({ account, selectedNetwork: network }),
+    }).then();
+  });
+};
+
+export const unsubscribeFromLdkBackups = (): void => {
+  if (backupSubscriptionId) {
+    lm.unsubscribeFromBackups(backupSubscriptionId);
+    backupSubscriptionId = undefined;
+  }
+};
+
+/**
+ * Restores the latest channel state for the account from the current destination.
+ * Must run after the storage path is set and before the lightning manager starts.
+ * Succeeds without changes when no backup exists yet or automatic backups are turned off.
+ * @param {TAccount} account
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const restoreLdkBackup = async ({
+  account,
+  selectedNetwork,
+}: {
+  account: TAccount;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    const seed = await getSeed();
+    if (seed.isErr()) {
+      return err(seed.error.message);
+    }
+    if (store.getState().backup.destinationId === 'none') {
+      return ok('Automatic backups are turned off');
+    }
+    const destination = await getBackupDestination();
+    if (destination.isErr()) {
+      return err(destination.error.message);
+    }
+    const { keyId } = getBackupKeys(seed.value);
+    const downloadRes = await destination.value.download({
+      fileName: getLdkBackupFileName(keyId, selectedNetwork),
+    });
+    if (downloadRes.isErr()) {
+      return err(downloadRes.error.message);
+    }
+    if (!downloadRes.value) {
+      return ok('No channel backup found');
+    }
+    const decryptRes = decryptBackup({
+      archive: downloadRes.value,
+      seed: seed.value,
+      selectedNetwork,
+    });
+    if (decryptRes.isErr()) {
+      return err(decryptRes.error.message);
+    }
+    const backup: TAccountBackup = JSON.parse(decryptRes.value);
+    if (backup.account.seed !== account.seed) {
+      return err('Channel backup belongs to a different lightning account');
+    }
+    const importRes = await lm.importAccount({ backup, overwrite: true });
+    if (importRes.isErr()) {
+      return err(importRes.error.message);
+    }
+    return ok('Channel backup restored');
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Collects the contacts, payment notes and settings that aren't part of the channel state.
+ * @returns {TBackupMetadata}
+ */
+export const getBackupMetadata = (): TBackupMetadata => {
+  const { lightning, settings } = store.getState();
+  const notes: TBackupMetadata['notes'] = {};
+  Object.entries(lightning.payments).forEach(([paymentId, payment]) => {
+    if (payment.note) {
+      notes[paymentId] = payment.note;
+    }
+  });
+  return {
+    contacts: lightning.contacts,
+    notes,
+    settings: {
+      selectedLspProvider: settings.selectedLspProvider,
+      customElectrumPeers: settings.customElectrumPeers,
+    },
+  };
+};
+
+const getMetadataBackupFileName = (keyId: string, selectedNetwork: TAvailableNetworks): string =>
+  `metadata-${selectedNetwork}-${keyId}.json`;
+
+const uploadMetadataBackup = async (
+  selectedNetwork: TAvailableNetworks
+): Promise<Result<string>> => {
+  const seed = await getSeed();
+  if (seed.isErr()) {
+    return err(seed.error.message);
+  }
+  const { keyId } = getBackupKeys(seed.value);
+  const metadata = JSON.stringify(getBackupMetadata());
+  const data = store.getState().backup.encryptMetadata
+    ? encryptBackup({ data: metadata, seed: seed.value, selectedNetwork })
+    : metadata;
+  return await upload({ fileName: getMetadataBackupFileName(keyId, selectedNetwork), data });
+};
+
+/**
+ * Uploads the current contacts, notes and settings.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const backupMetadata = async ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const network = selectedNetwork;
+  return await runBackup({
+    category: EBackupCategory.metadata,
+    task: () => uploadMetadataBackup(network),
+  });
+};
+
+/**
+ * Backs up the metadata shortly after contacts, payment notes or settings change.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ */
+export const subscribeToMetadataBackups = ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): void => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (unsubscribeFromMetadata) {
+    return;
+  }
+  const network = selectedNetwork;
+  // the store is immutable, so comparing references is enough to spot changes
+  let previous: unknown[] = [];
+  unsubscribeFromMetadata = store.subscribe(() => {
+    const { lightning, settings } = store.getState();
+    const current = [lightning.contacts, lightning.payments, settings];
+    if (current.every((value, index) => value === previous[index])) {
+      return;
+    }
+    previous = current;
+    clearTimeout(metadataBackupTimer);
+    metadataBackupTimer = setTimeout(() => {
+      backupMetadata({ selectedNetwork: network }).then();
+    }, METADATA_BACKUP_DELAY);
+  });
+};
+
+/**
+ * Backs up channel state and metadata right away, e.g. after changing the destination.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const backupNow = async ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const account = await getLdkAccount({ selectedNetwork });
+  if (account.isErr()) {
+    return err(account.error.message);
+  }
+  const [channelsRes, metadataRes] = await Promise.all([
+    backupLdk({ account: account.value, selectedNetwork }),
+    backupMetadata({ selectedNetwork }),
+  ]);
+  if (channelsRes.isErr()) {
+    return err(channelsRes.error.message);
+  }
+  if (metadataRes.isErr()) {
+    return err(metadataRes.error.message);
+  }
+  return ok('Backup complete');
+};
@@ -0,0 +1,66 @@
+import RNFS from 'react-native-fs';
+import { err, ok } from '../result';
+import { BackupDestination } from '../types';
+
+const BACKUP_DIRECTORY = `${RNFS.DocumentDirectoryPath}/backups`;
+
+/**
+ * Keeps backups in the app's documents directory. This survives app restarts and
+ * is included in device backups, but not an uninstall, so it is only a first line of defense.
+ */
+export const localFileDestination: BackupDestination = {
+  id: 'local',
+  name: 'This device',
+  upload: async ({ fileName, data }) => {
+    try {
+      await RNFS.mkdir(BACKUP_DIRECTORY);
+      // write to a temporary file first so a crash never leaves a truncated backup behind
+      const path = `${BACKUP_DIRECTORY}/${fileName}`;
+      await RNFS.writeFile(`${path}.tmp`, data, 'utf8');
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+      await RNFS.moveFile(`${path}.tmp`, path);
+      return ok(path);
+    } catch (e) {
+      return err(e);
+    }
+  },
+  download: async ({ fileName }) => {
+    try {
+      const path = `${BACKUP_DIRECTORY}/${fileName}`;
+      if (!(await RNFS.exists(path))) {
+        return ok('');
+      }
+      return ok(await RNFS.readFile(path, 'utf8'));
+    } catch (e) {
+      return err(e);
+    }
+  },
+  list: async () => {
+    try {
+      if (!(await RNFS.exists(BACKUP_DIRECTORY))) {
+        return ok([]);
+      }
+      const files = await RNFS.readDir(BACKUP_DIRECTORY);
+      return ok(
+        files
+          .filter((file) => file.isFile() && !file.name.endsWith('.tmp'))
+          .map((file) => file.name)
+      );
+    } catch (e) {
+      return err(e);
+    }
+  },
+  delete: async ({ fileName }) => {
+    try {
+      const path = `${BACKUP_DIRECTORY}/${fileName}`;
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+      return ok(fileName);
+    } catch (e) {
+      return err(e);
+    }
+  },
+};
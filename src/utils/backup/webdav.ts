@@ -0,0 +1,102 @@
+import { err, ok } from '../result';
+import { BackupDestination, TWebDavConfig } from '../types';
+
+/**
+ * Backs up to any WebDAV collection, e.g. Nextcloud or a self-hosted Apache/nginx server.
+ * The collection is created on the first upload if it doesn't exist yet.
+ * @param {string} url address of the collection backups are stored in
+ * @param {string} username
+ * @param {string} password
+ * @returns {BackupDestination}
+ */
+export const createWebDavDestination = ({
+  url,
+  username,
+  password,
+}: TWebDavConfig & { password: string }): BackupDestination => {
+  const baseUrl = url.endsWith('/') ? url : `${url}/`;
+  const headers = {
+    Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`,
+  };
+  const getFileUrl = (fileName: string): string => `${baseUrl}${encodeURIComponent(fileName)}`;
+
+  return {
+    id: 'webdav',
+    name: 'WebDAV server',
+    upload: async ({ fileName, data }) => {
+      try {
+        let response = await fetch(getFileUrl(fileName), {
+          method: 'PUT',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: data,
+        });
+        if (response.status === 404 || response.status === 409) {
+          // missing collection, create it and try once more
+          await fetch(baseUrl, { method: 'MKCOL', headers });
+          response = await fetch(getFileUrl(fileName), {
+            method: 'PUT',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: data,
+          });
+        }
+        if (!response.ok) {
+          return err(`WebDAV upload failed: ${response.status} ${response.statusText}`);
+        }
+        return ok(fileName);
+      } catch (e) {
+        return err(e);
+      }
+    },
+    download: async ({ fileName }) => {
+      try {
+        const response = await fetch(getFileUrl(fileName), { headers });
+        if (response.status === 404) {
+          return ok('');
+        }
+        if (!response.ok) {
+          return err(`WebDAV download failed: ${response.status} ${response.statusText}`);
+        }
+        return ok(await response.text());
+      } catch (e) {
+        return err(e);
+      }
+    },
+    list: async () => {
+      try {
+        const response = await fetch(baseUrl, {
+          method: 'PROPFIND',
+          headers: { ...headers, Depth: '1' },
+        });
+        if (response.status === 404) {
+          return ok([]);
+        }
+        if (!response.ok) {
+          return err(`WebDAV listing failed: ${response.status} ${response.statusText}`);
+        }
+        const body = await response.text();
+        // the response includes the collection itself, which unlike files ends with a slash
+        const hrefs = [...body.matchAll(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/g)].map(
+          (match) => match[1]
+        );
+        return ok(
+          hrefs
+            .filter((href) => !href.endsWith('/'))
+            .map((href) => decodeURIComponent(href.substring(href.lastIndexOf('/') + 1)))
+        );
+      } catch (e) {
+        return err(e);
+      }
+    },
+    delete: async ({ fileName }) => {
+      try {
+        const response = await fetch(getFileUrl(fileName), { method: 'DELETE', headers });
+        if (!response.ok && response.status !== 404) {
+          return err(`WebDAV delete failed: ${response.status} ${response.statusText}`);
+        }
+        return ok(fileName);
+      } catch (e) {
+        return err(e);
+      }
+    },
+  };
+};
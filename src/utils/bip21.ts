@@ -0,0 +1,157 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { TAvailableNetworks, getBitcoinJSNetwork } from './networks';
+import { Result, err, ok } from './result';
+import { TBip21Data } from './types';
+import { getSelectedNetwork } from './wallet';
+
+const BIP21_SCHEME = 'bitcoin:';
+
+/**
+ * Converts a BIP21 decimal BTC amount into sats without floating point rounding errors.
+ * @param {string} amount
+ * @returns {number | undefined}
+ */
+const btcAmountToSats = (amount: string): number | undefined => {
+  if (!/^\d*\.?\d{0,8}$/.test(amount) || amount === '' || amount === '.') {
+    return undefined;
+  }
+  const [whole, fraction = ''] = amount.split('.');
+  return Number(whole || '0') * 100000000 + Number(fraction.padEnd(8, '0'));
+};
+
+/**
+ * Returns whether the provided string is a BIP21 uri.
+ * @param {string} data
+ * @returns {boolean}
+ */
+export const isBip21Uri = (data: string): boolean => {
+  return data.trim().toLowerCase().startsWith(BIP21_SCHEME);
+};
+
+/**
+ * Checks that a bitcoin address is valid for the provided network.
+ * @param {string} address
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {boolean}
+ */
+export const validateAddress = ({
+  address,
+  selectedNetwork,
+}: {
+  address: string;
+  selectedNetwork?: TAvailableNetworks;
+}): boolean => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  try {
+    bitcoin.address.toOutputScript(address, getBitcoinJSNetwork(selectedNetwork));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses a BIP21 uri. Ex: bitcoin:<address>?amount=&label=&message=&lightning=
+ * The address is optional when a lightning invoice is provided.
+ * @param {string} uri
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<TBip21Data>}
+ */
+export const parseBip21Uri = ({
+  uri,
+  selectedNetwork,
+}: {
+  uri: string;
+  selectedNetwork?: TAvailableNetworks;
+}): Result<TBip21Data> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (!isBip21Uri(uri)) {
+    return err('Not a bitcoin uri.');
+  }
+
+  const [path, query = ''] = uri.trim().slice(BIP21_SCHEME.length).split('?');
+  const address = path.replace(/^\/\//, '');
+  const data: TBip21Data = { address };
+
+  const params = query.split('&').filter((param) => param);
+  for (const param of params) {
+    const [rawKey, ...rest] = param.split('=');
+    const key = rawKey.toLowerCase();
+    const value = decodeURIComponent(rest.join('=').replace(/\+/g, ' '));
+    switch (key) {
+      case 'amount': {
+        const sats = btcAmountToSats(value);
+        if (sats === undefined) {
+          return err('Invalid amount in bitcoin uri.');
+        }
+        data.amount = sats;
+        break;
+      }
+      case 'label':
+        data.label = value;
+        break;
+      case 'message':
+        data.message = value;
+        break;
+      case 'lightning':
+        data.lightning = value;
+        break;
+      default:
+        // unknown required parameters must cause the uri to be rejected (BIP21)
+        if (key.startsWith('req-')) {
+          return err(`Unsupported required parameter: ${key}`);
+        }
+    }
+  }
+
+  if (!address && !data.lightning) {
+    return err('No address or invoice found in bitcoin uri.');
+  }
+  if (address && !validateAddress({ address, selectedNetwork })) {
+    return err(`This address is not valid for ${selectedNetwork}.`);
+  }
+
+  return ok(data);
+};
+
+/**
+ * Builds a BIP21 uri, optionally unified with a lightning invoice in the `lightning=` parameter.
+ * @param {string} address
+ * @param {number} [amountSats]
+ * @param {string} [label]
+ * @param {string} [message]
+ * @param {string} [lightning]
+ * @returns {string}
+ */
+export const createBip21Uri = ({
+  address,
+  amountSats,
+  label,
+  message,
+  lightning,
+}: {
+  address: string;
+  amountSats?: number;
+  label?: string;
+  message?: string;
+  lightning?: string;
+}): string => {
+  const params: string[] = [];
+  if (amountSats) {
+    params.push(`amount=${(amountSats / 100000000).toFixed(8).replace(/\.?0+$/, '')}`);
+  }
+  if (label) {
+    params.push(`label=${encodeURIComponent(label)}`);
+  }
+  if (message) {
+    params.push(`message=${encodeURIComponent(message)}`);
+  }
+  if (lightning) {
+    params.push(`lightning=${lightning.toUpperCase()}`);
+  }
+  return `${BIP21_SCHEME}${address}${params.length ? `?${params.join('&')}` : ''}`;
+};
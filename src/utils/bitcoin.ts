@@ -1,16 +1,37 @@
 import * as bitcoin from 'bitcoinjs-lib';
 import * as bip39 from 'bip39';
-import { BIP32Factory } from 'bip32';
+import { BIP32Factory, BIP32Interface } from 'bip32';
 import ecc from '@bitcoinerlab/secp256k1';
 import { TAvailableNetworks } from '@synonymdev/react-native-ldk';
-import { err } from './result';
+import { Result, err, ok } from './result';
 import { getBip39Passphrase, getSelectedNetwork } from './wallet';
-import { IGetAddress } from './types';
+import { EAddressType, IGetAddress } from './types';
 import { getMnemonicPhrase } from './lightning/helpers';
 import { getBitcoinJSNetwork } from './networks';
 
 // You must wrap a tiny-secp256k1 compatible implementation
 const BIP32 = BIP32Factory(ecc);
+// taproot payments, addresses and signing need the curve as well
+bitcoin.initEccLib(ecc);
+
+/**
+ * Returns the x-only public key BIP340 uses for taproot outputs.
+ * @param {Buffer} publicKey 33 byte compressed public key
+ * @returns {Buffer}
+ */
+export const toXOnly = (publicKey: Buffer): Buffer => {
+  return publicKey.length === 32 ? publicKey : publicKey.subarray(1, 33);
+};
+
+/**
+ * Returns the key pair that signs for a BIP86 key path spend, the internal key
+ * tweaked with the hash of itself as there is no script tree.
+ * @param {BIP32Interface} keyPair
+ * @returns {bitcoin.Signer}
+ */
+export const getTaprootSigner = (keyPair: BIP32Interface): bitcoin.Signer => {
+  return keyPair.tweak(bitcoin.crypto.taggedHash('TapTweak', toXOnly(keyPair.publicKey)));
+};
 
 const sha256 = (str) => {
   return bitcoin.crypto.sha256(str);
@@ -59,6 +80,140 @@ export const getPrivateKey = async ({
   }
 };
 
+/**
+ * Returns the BIP39 seed of the selected wallet, derived from its mnemonic and passphrase.
+ * @returns {Promise<Result<Buffer>>}
+ */
+export const getSeed = async (): Promise<Result<Buffer>> => {
+  try {
+    const mnemonicResponse = await getMnemonicPhrase();
+    if (mnemonicResponse.isErr()) {
+      return err(mnemonicResponse.error.message);
+    }
+    const bip39Passphrase = await getBip39Passphrase();
+    return ok(await bip39.mnemonicToSeed(mnemonicResponse.value, bip39Passphrase));
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the BIP32 root key of the selected wallet, used to sign on-chain transactions.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<BIP32Interface>>}
+ */
+export const getRootKey = async (
+  selectedNetwork?: TAvailableNetworks
+): Promise<Result<BIP32Interface>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    const seed = await getSeed();
+    if (seed.isErr()) {
+      return err(seed.error.message);
+    }
+    return ok(getRootKeyFromSeed(seed.value, selectedNetwork));
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the BIP32 root key for the provided seed.
+ * @param {Buffer} seed
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {BIP32Interface}
+ */
+export const getRootKeyFromSeed = (
+  seed: Buffer,
+  selectedNetwork?: TAvailableNetworks
+): BIP32Interface => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  return BIP32.fromSeed(seed, getBitcoinJSNetwork(selectedNetwork));
+};
+
+/**
+ * Returns the BIP32 master key fingerprint, the short id hardware wallets show for a
+ * recovery phrase and passphrase. A typo in the passphrase gives a different fingerprint.
+ * @param {string} mnemonic
+ * @param {string} [bip39Passphrase]
+ * @returns {Promise<Result<string>>}
+ */
+export const getMnemonicFingerprint = async ({
+  mnemonic,
+  bip39Passphrase = '',
+}: {
+  mnemonic: string;
+  bip39Passphrase?: string;
+}): Promise<Result<string>> => {
+  try {
+    const seed = await bip39.mnemonicToSeed(mnemonic, bip39Passphrase);
+    return ok(getRootKeyFromSeed(seed).fingerprint.toString('hex'));
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the BIP32 master key fingerprint of the selected wallet.
+ * @returns {Promise<Result<string>>}
+ */
+export const getWalletFingerprint = async (): Promise<Result<string>> => {
+  const rootKey = await getRootKey();
+  if (rootKey.isErr()) {
+    return err(rootKey.error.message);
+  }
+  return ok(rootKey.value.fingerprint.toString('hex'));
+};
+
+/**
+ * Returns the address of the given type for a derived key pair.
+ * @param {BIP32Interface} keyPair
+ * @param {EAddressType} type
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {string}
+ */
+export const getAddressFromKeyPair = ({
+  keyPair,
+  type,
+  selectedNetwork,
+}: {
+  keyPair: BIP32Interface;
+  type: EAddressType;
+  selectedNetwork?: TAvailableNetworks;
+}): string => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const network = getBitcoinJSNetwork(selectedNetwork);
+  switch (type) {
+    case EAddressType.p2wpkh:
+      //Get Native Bech32 (bc1) addresses
+      return bitcoin.payments.p2wpkh({ pubkey: keyPair.publicKey, network }).address!;
+    case EAddressType.p2sh:
+      //Get Segwit P2SH Address (3)
+      return bitcoin.payments.p2sh({
+        redeem: bitcoin.payments.p2wpkh({
+          pubkey: keyPair.publicKey,
+          network,
+        }),
+        network,
+      }).address!;
+    case EAddressType.p2pkh:
+      //Get Legacy Address (1)
+      return bitcoin.payments.p2pkh({ pubkey: keyPair.publicKey, network }).address!;
+    case EAddressType.p2tr:
+      //Get Taproot Address (bc1p), BIP86 key path only
+      return bitcoin.payments.p2tr({ internalPubkey: toXOnly(keyPair.publicKey), network })
+        .address!;
+    default:
+      return '';
+  }
+};
+
 export const getBitcoinAddress = async ({ path, selectedNetwork, type }: IGetAddress) => {
   try {
     if (!selectedNetwork) {
@@ -86,27 +241,7 @@ export const getBitcoinAddress = async ({ path, selectedNetwork, type }: IGetAdd
     const seed = await bip39.mnemonicToSeed(mnemonic, bip39Passphrase);
     const root = BIP32.fromSeed(seed, network);
     const keyPair = root.derivePath(path);
-    let address = '';
-    switch (type) {
-      case 'p2wpkh':
-        //Get Native Bech32 (bc1) addresses
-        address = bitcoin.payments.p2wpkh({ pubkey: keyPair.publicKey, network }).address!;
-        break;
-      case 'p2sh':
-        //Get Segwit P2SH Address (3)
-        address = bitcoin.payments.p2sh({
-          redeem: bitcoin.payments.p2wpkh({
-            pubkey: keyPair.publicKey,
-            network,
-          }),
-          network,
-        }).address!;
-        break;
-      case 'p2pkh':
-        //Get Legacy Address (1)
-        address = bitcoin.payments.p2pkh({ pubkey: keyPair.publicKey, network }).address!;
-        break;
-    }
+    const address = getAddressFromKeyPair({ keyPair, type, selectedNetwork });
     const value = {
       address,
       path,
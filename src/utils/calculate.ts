@@ -1,6 +1,6 @@
-import { VOLTAGE_LSP_FEE_ESTIMATE_API, VOLTAGE_LSP_PUBKEY } from '../../config';
 import { showWarningBanner } from './alerts';
 import { getLightningStore, hasEnoughRemoteBalance } from './lightning/helpers';
+import { getLspProvider } from './lsp';
 
 /**
  * Attempts to estimate fees payable if LSP involvement is deemed necessary
@@ -10,31 +10,20 @@ export const estimateInvoiceFees = async (amountSats: number): Promise<number> =
   let feeInSats: number = 0;
 
   if (!hasEnoughRemoteBalance({ amountSats })) {
-    try {
-      await fetch(VOLTAGE_LSP_FEE_ESTIMATE_API, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount_msat: amountSats * 1000, // get amount in msats
-          pubkey: VOLTAGE_LSP_PUBKEY,
-        }),
-      })
-        .then((fees) => fees.json())
-        .then((data) => {
-          feeInSats = data.fee_amount_msat / 1000; // get fee in sats from msats
-        })
-        .catch((error) => {
-          showWarningBanner({
-            message: error.message,
-          });
-        });
-    } catch (e) {
-      // console.error(e.message);
+    const lsp = getLspProvider({});
+    if (lsp.isErr()) {
       showWarningBanner({
-        message: e.message,
+        message: lsp.error.message,
       });
+      return feeInSats;
+    }
+    const feeQuote = await lsp.value.getFeeQuote(amountSats);
+    if (feeQuote.isErr()) {
+      showWarningBanner({
+        message: feeQuote.error.message,
+      });
+    } else {
+      feeInSats = feeQuote.value;
     }
   }
 
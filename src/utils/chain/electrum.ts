@@ -0,0 +1,123 @@
+import * as electrum from 'rn-electrum-client/helpers';
+import { DefaultTransactionDataShape, TTransactionData } from '@synonymdev/react-native-ldk';
+import { TAvailableNetworks } from '../networks';
+import {
+  broadcastTransaction,
+  connectToElectrum,
+  getAddressBalance,
+  getBlockHeader,
+  getBlockHex,
+  getScriptPubKeyHistory,
+  getTransactionHex,
+  getTransactionsConfirmations,
+  getUsedScriptHashes,
+  listUnspent,
+  subscribeToHeader,
+} from '../electrum';
+import { getTransactionMerkle, subscribeToAddresses } from '../electrum/helpers';
+import { startElectrumSupervisor, stopElectrumSupervisor } from '../electrum/supervisor';
+import { ChainSource, EChainSourceType } from '../types';
+import store from '../../state/store';
+
+/**
+ * Returns the transaction header, height and hex (transaction) for a given txid.
+ * @param {string} txId
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {Promise<TTransactionData>}
+ */
+const getTransactionData = async (
+  txId: string,
+  selectedNetwork: TAvailableNetworks
+): Promise<TTransactionData> => {
+  let transactionData = DefaultTransactionDataShape;
+  try {
+    const data = {
+      key: 'tx_hash',
+      data: [
+        {
+          tx_hash: txId,
+        },
+      ],
+    };
+
+    const response = await electrum.getTransactions({
+      txHashes: data,
+      network: selectedNetwork,
+    });
+
+    if (response.error || !response.data || response.data[0].error) {
+      console.log(
+        `@getTransactions: something ain't right: ${JSON.stringify(response.data[0].error.message)}`
+      );
+      return transactionData;
+    }
+
+    const { confirmations, hex: hex_encoded_tx, vout } = response.data[0].result;
+    const header = getBlockHeader();
+    const currentHeight = header.height;
+    let confirmedHeight = 0;
+    if (confirmations) {
+      confirmedHeight = currentHeight - confirmations + 1;
+    }
+    const hexEncodedHeader = await getBlockHex({
+      height: confirmedHeight,
+      selectedNetwork,
+    });
+    if (hexEncodedHeader.isErr()) {
+      return transactionData;
+    }
+    const voutData = vout.map(({ n, value, scriptPubKey: { hex } }) => {
+      return { n, hex, value };
+    });
+    return {
+      header: hexEncodedHeader.value,
+      height: confirmedHeight,
+      transaction: hex_encoded_tx,
+      vout: voutData,
+    };
+  } catch {
+    return transactionData;
+  }
+};
+
+/**
+ * Reads chain data from the Electrum servers in settings, keeping the connection
+ * alive with the supervisor.
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {ChainSource}
+ */
+export const createElectrumChainSource = (selectedNetwork: TAvailableNetworks): ChainSource => ({
+  type: EChainSourceType.electrum,
+  connect: async ({ onBlock }) => {
+    const connectResponse = await connectToElectrum({ selectedNetwork });
+    if (connectResponse.isOk()) {
+      // Ensure we are subscribed to and save new header information.
+      subscribeToHeader({ selectedNetwork, onReceive: onBlock }).then();
+    }
+    // reconnects whenever the connection drops, including when it couldn't be made above
+    startElectrumSupervisor({ selectedNetwork });
+    return connectResponse;
+  },
+  disconnect: async () => {
+    stopElectrumSupervisor();
+    await electrum.stop({ network: selectedNetwork });
+    store.dispatch.app.setIsConnectedToElectrum(false);
+  },
+  getBlockHex: ({ height }) => getBlockHex({ height, selectedNetwork }),
+  getTransactionData: (txid) => getTransactionData(txid, selectedNetwork),
+  getTransactionPosition: async ({ tx_hash, height }) => {
+    const response = await getTransactionMerkle({ tx_hash, height, selectedNetwork });
+    if (response.error || isNaN(response.data?.pos) || response.data?.pos < 0) {
+      return -1;
+    }
+    return response.data.pos;
+  },
+  getScriptPubKeyHistory: (scriptPubKey) => getScriptPubKeyHistory(scriptPubKey, selectedNetwork),
+  getUsedScriptHashes: (scriptHashes) => getUsedScriptHashes({ scriptHashes, selectedNetwork }),
+  getAddressBalance: (addresses) => getAddressBalance({ addresses, selectedNetwork }),
+  listUnspent: (addresses) => listUnspent({ addresses, selectedNetwork }),
+  getTransactionHex: (txid) => getTransactionHex({ txid, selectedNetwork }),
+  getTransactionsConfirmations: (txids) => getTransactionsConfirmations({ txids, selectedNetwork }),
+  broadcastTransaction: (rawTx) => broadcastTransaction({ rawTx, selectedNetwork }),
+  subscribeToAddresses: (scriptHashes) => subscribeToAddresses({ scriptHashes, selectedNetwork }),
+});
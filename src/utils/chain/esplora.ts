@@ -0,0 +1,311 @@
+import { DefaultTransactionDataShape, TTransactionData } from '@synonymdev/react-native-ldk';
+import * as bitcoin from 'bitcoinjs-lib';
+import { TAvailableNetworks } from '../networks';
+import { err, ok, Result } from '../result';
+import { getBlockHeader } from '../electrum';
+import { updateHeader } from '../electrum/helpers';
+import { ChainSource, EChainSourceType, IUtxo, TGetAddressHistory } from '../types';
+import store from '../../state/store';
+import Logger from '../logger';
+
+const TAG = 'Esplora';
+// esplora has no push notifications, so new blocks are found by polling the tip
+const POLL_INTERVAL = 30 * 1000;
+// confirmed transactions of a script hash are returned in pages of this size
+const CHAIN_TXS_PAGE_SIZE = 25;
+
+type TEsploraStatus = {
+  confirmed: boolean;
+  block_height?: number;
+};
+
+type TEsploraTx = {
+  txid: string;
+  status: TEsploraStatus;
+  vout: { scriptpubkey: string; value: number }[];
+};
+
+type TEsploraUtxo = {
+  txid: string;
+  vout: number;
+  value: number;
+  status: TEsploraStatus;
+};
+
+type TEsploraTxoStats = {
+  funded_txo_sum: number;
+  spent_txo_sum: number;
+};
+
+type TEsploraAddress = {
+  chain_stats: TEsploraTxoStats;
+  mempool_stats: TEsploraTxoStats;
+};
+
+type TEsploraMerkleProof = {
+  block_height: number;
+  merkle: string[];
+  pos: number;
+};
+
+type TEsploraBlock = {
+  id: string;
+  height: number;
+};
+
+/**
+ * Returns a chain source reading from an Esplora HTTP api, e.g. https://blockstream.info/api.
+ * @param {string} url
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {ChainSource}
+ */
+export const createEsploraChainSource = (
+  url: string,
+  selectedNetwork: TAvailableNetworks
+): ChainSource => {
+  const baseUrl = url.replace(/\/+$/, '');
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+  // plain text responses (hashes, hex) are requested with json set to false
+  const request = async <T>(
+    path: string,
+    { body, json = true }: { body?: string; json?: boolean } = {}
+  ): Promise<Result<T>> => {
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'text/plain',
+        },
+        body,
+      });
+      if (!response.ok) {
+        const message = await response.text();
+        return err(message || `Esplora responded with ${response.status}`);
+      }
+      return ok(json ? await response.json() : await response.text());
+    } catch (e) {
+      return err(e);
+    }
+  };
+
+  const getBlockHex = async ({ height }: { height: number }): Promise<Result<string>> => {
+    const hashRes = await request<string>(`/block-height/${height}`, { json: false });
+    if (hashRes.isErr()) {
+      return err(hashRes.error.message);
+    }
+    return await request<string>(`/block/${hashRes.value}/header`, { json: false });
+  };
+
+  const getScriptHashHistory = async (
+    scriptHash: string
+  ): Promise<Result<TGetAddressHistory[]>> => {
+    // the first page also holds the mempool transactions, older confirmed ones are
+    // requested after the last confirmed txid seen until a page comes back short
+    const txs: TEsploraTx[] = [];
+    let path = `/scripthash/${scriptHash}/txs`;
+    let hasMorePages = true;
+    while (hasMorePages) {
+      const res = await request<TEsploraTx[]>(path);
+      if (res.isErr()) {
+        return err(res.error.message);
+      }
+      txs.push(...res.value);
+      const confirmedTxs = res.value.filter(({ status }) => status.confirmed);
+      hasMorePages = confirmedTxs.length >= CHAIN_TXS_PAGE_SIZE;
+      if (hasMorePages) {
+        path = `/scripthash/${scriptHash}/txs/chain/${confirmedTxs[confirmedTxs.length - 1].txid}`;
+      }
+    }
+    return ok(
+      txs.map(({ txid, status }) => ({
+        txid,
+        height: status.block_height ?? 0,
+      }))
+    );
+  };
+
+  /**
+   * Saves the tip as the current header, returning true when it is a new block.
+   */
+  const updateTip = async (): Promise<Result<boolean>> => {
+    const hashRes = await request<string>('/blocks/tip/hash', { json: false });
+    if (hashRes.isErr()) {
+      return err(hashRes.error.message);
+    }
+    const hash = hashRes.value;
+    if (hash === getBlockHeader().hash) {
+      return ok(false);
+    }
+    const [blockRes, headerRes] = await Promise.all([
+      request<TEsploraBlock>(`/block/${hash}`),
+      request<string>(`/block/${hash}/header`, { json: false }),
+    ]);
+    if (blockRes.isErr()) {
+      return err(blockRes.error.message);
+    }
+    if (headerRes.isErr()) {
+      return err(headerRes.error.message);
+    }
+    updateHeader({
+      header: { height: blockRes.value.height, hash, hex: headerRes.value },
+      selectedNetwork,
+    });
+    return ok(true);
+  };
+
+  const stopPolling = (): void => {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  };
+
+  return {
+    type: EChainSourceType.esplora,
+    connect: async ({ onBlock }) => {
+      stopPolling();
+      const tipRes = await updateTip();
+      // the banner reads this flag for every chain source
+      store.dispatch.app.setIsConnectedToElectrum(tipRes.isOk());
+      pollTimer = setInterval(async () => {
+        const res = await updateTip();
+        store.dispatch.app.setIsConnectedToElectrum(res.isOk());
+        if (res.isErr()) {
+          Logger.error(TAG, 'Unable to fetch the chain tip', res.error);
+          return;
+        }
+        if (res.value) {
+          onBlock();
+        }
+      }, POLL_INTERVAL);
+      if (tipRes.isErr()) {
+        return err(tipRes.error.message);
+      }
+      return ok(`Connected to ${baseUrl}`);
+    },
+    disconnect: async () => {
+      stopPolling();
+      store.dispatch.app.setIsConnectedToElectrum(false);
+    },
+    getBlockHex,
+    getTransactionData: async (txid): Promise<TTransactionData> => {
+      const txRes = await request<TEsploraTx>(`/tx/${txid}`);
+      const hexRes = await request<string>(`/tx/${txid}/hex`, { json: false });
+      if (txRes.isErr() || hexRes.isErr()) {
+        return DefaultTransactionDataShape;
+      }
+      const { status, vout } = txRes.value;
+      const height = status.block_height ?? 0;
+      const headerRes = await getBlockHex({ height });
+      if (headerRes.isErr()) {
+        return DefaultTransactionDataShape;
+      }
+      return {
+        header: headerRes.value,
+        height,
+        transaction: hexRes.value,
+        // values in BTC, as returned by electrum
+        vout: vout.map(({ scriptpubkey, value }, n) => ({
+          n,
+          hex: scriptpubkey,
+          value: value / 100000000,
+        })),
+      };
+    },
+    getTransactionPosition: async ({ tx_hash }) => {
+      const res = await request<TEsploraMerkleProof>(`/tx/${tx_hash}/merkle-proof`);
+      if (res.isErr() || isNaN(res.value?.pos) || res.value.pos < 0) {
+        return -1;
+      }
+      return res.value.pos;
+    },
+    getScriptPubKeyHistory: async (scriptPubKey) => {
+      // esplora takes the electrum style script hash, so scripts without an address work too
+      const scriptHash = bitcoin.crypto
+        .sha256(Buffer.from(scriptPubKey, 'hex'))
+        .reverse()
+        .toString('hex');
+      const res = await getScriptHashHistory(scriptHash);
+      return res.isOk() ? res.value : [];
+    },
+    getUsedScriptHashes: async (scriptHashes) => {
+      const responses = await Promise.all(scriptHashes.map(getScriptHashHistory));
+      const failed = responses.find((res) => res.isErr());
+      if (failed?.isErr()) {
+        return err(failed.error.message);
+      }
+      return ok(
+        scriptHashes.filter((_scriptHash, i) => {
+          const res = responses[i];
+          return res.isOk() && res.value.length > 0;
+        })
+      );
+    },
+    getAddressBalance: async (addresses) => {
+      const balance = { confirmed: 0, unconfirmed: 0 };
+      for (const address of addresses) {
+        const res = await request<TEsploraAddress>(`/address/${address}`);
+        if (res.isErr()) {
+          return err(res.error.message);
+        }
+        const { chain_stats, mempool_stats } = res.value;
+        balance.confirmed += chain_stats.funded_txo_sum - chain_stats.spent_txo_sum;
+        balance.unconfirmed += mempool_stats.funded_txo_sum - mempool_stats.spent_txo_sum;
+      }
+      return ok(balance);
+    },
+    listUnspent: async (addresses) => {
+      const utxos: IUtxo[] = [];
+      for (const address of addresses) {
+        const res = await request<TEsploraUtxo[]>(`/scripthash/${address.scriptHash}/utxo`);
+        if (res.isErr()) {
+          return err(res.error.message);
+        }
+        res.value.forEach(({ txid, vout, value, status }) => {
+          utxos.push({
+            address: address.address,
+            index: address.index,
+            path: address.path,
+            scriptHash: address.scriptHash,
+            height: status.block_height ?? 0,
+            tx_hash: txid,
+            tx_pos: vout,
+            value,
+          });
+        });
+      }
+      return ok(utxos);
+    },
+    getTransactionHex: async (txid) => {
+      const res = await request<string>(`/tx/${txid}/hex`, { json: false });
+      if (res.isErr()) {
+        return err('Unable to fetch transaction.');
+      }
+      return ok(res.value);
+    },
+    getTransactionsConfirmations: async (txids) => {
+      const { height } = getBlockHeader();
+      const confirmations = {};
+      await Promise.all(
+        txids.map(async (txid) => {
+          const res = await request<TEsploraStatus>(`/tx/${txid}/status`);
+          if (res.isErr()) {
+            return;
+          }
+          const status = res.value;
+          confirmations[txid] =
+            status.confirmed && status.block_height ? height - status.block_height + 1 : 0;
+        })
+      );
+      return ok(confirmations);
+    },
+    broadcastTransaction: async (rawTx) => {
+      const res = await request<string>('/tx', { body: rawTx, json: false });
+      if (res.isErr()) {
+        return err(res.error.message);
+      }
+      return ok(res.value);
+    },
+    // the wallet is refreshed on every new block instead
+    subscribeToAddresses: async () => ok('Esplora has no address subscriptions.'),
+  };
+};
@@ -0,0 +1,87 @@
+import { genesisHashes, TAvailableNetworks } from '../networks';
+import { err, ok, Result } from '../result';
+import { getSelectedNetwork } from '../wallet';
+import { promiseTimeout } from '../helpers';
+import { getBlockHashFromHex } from '../electrum';
+import { ChainSource, EChainSourceType } from '../types';
+import { createElectrumChainSource } from './electrum';
+import { createEsploraChainSource } from './esplora';
+import store from '../../state/store';
+
+const TEST_TIMEOUT = 10 * 1000;
+
+// the source that is currently connected, disconnected before connecting another one
+let connectedChainSource: ChainSource | undefined;
+
+/**
+ * Returns the chain source selected in settings for the given network.
+ * Falls back to Electrum while no Esplora url is set.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {ChainSource}
+ */
+export const getChainSource = ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): ChainSource => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const { type, esploraUrl } = store.getState().settings.chainSource[selectedNetwork];
+  if (type === EChainSourceType.esplora && esploraUrl) {
+    return createEsploraChainSource(esploraUrl, selectedNetwork);
+  }
+  return createElectrumChainSource(selectedNetwork);
+};
+
+/**
+ * Connects to the chain source selected in settings, replacing any previous connection.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @param {() => void} onBlock called for every new block
+ * @returns {Promise<Result<string>>}
+ */
+export const connectToChainSource = async ({
+  selectedNetwork,
+  onBlock,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+  onBlock: () => void;
+}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  await connectedChainSource?.disconnect();
+  connectedChainSource = getChainSource({ selectedNetwork });
+  return await connectedChainSource.connect({ onBlock });
+};
+
+/**
+ * Checks an Esplora api is reachable and serves the given network.
+ * @param {string} url
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const testEsploraServer = async ({
+  url,
+  selectedNetwork,
+}: {
+  url: string;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const source = createEsploraChainSource(url.trim(), selectedNetwork);
+  const genesisRes = await promiseTimeout<Result<string>>(
+    TEST_TIMEOUT,
+    source.getBlockHex({ height: 0 })
+  );
+  if (genesisRes.isErr()) {
+    return err(genesisRes.error.message);
+  }
+  const genesisHash = getBlockHashFromHex({ blockHex: genesisRes.value, selectedNetwork });
+  if (genesisHash !== genesisHashes[selectedNetwork]) {
+    return err('This server is on a different network.');
+  }
+  return ok(`Serving ${selectedNetwork}`);
+};
@@ -1,6 +1,6 @@
 import * as electrum from 'rn-electrum-client/helpers';
-import { TAvailableNetworks, networks } from '../networks';
-import { Result, err } from '../result';
+import { TAvailableNetworks, genesisHashes, networks } from '../networks';
+import { Result, err, ok } from '../result';
 import {
   ICustomElectrumPeer,
   IElectrumPeerData,
@@ -9,15 +9,16 @@ import {
   ISubscribeToAddress,
   TWalletName,
 } from '../types';
-import { ok } from 'assert';
 import { getSelectedNetwork, getWalletStore, refreshWallet } from '../wallet';
 import store from '../../state/store';
 import * as bitcoin from 'bitcoinjs-lib';
 import { THeader } from '@synonymdev/react-native-ldk';
 import { header as defaultHeader } from '../types';
+import TcpSocket from 'react-native-tcp-socket';
 
 export const CHUNK_LIMIT = 15; // control # requests to electrum
 export const GAP_LIMIT = 20;
+const PEER_REQUEST_TIMEOUT = 10000;
 
 export const hardcodedPeers = {
   bitcoin: [
@@ -107,6 +108,11 @@ export const getPeers = async ({
   }
 };
 
+/**
+ * Returns the saved Electrum peers of the network, the preferred one first.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {ICustomElectrumPeer[]}
+ */
 export const getCustomElectrumPeers = ({
   selectedNetwork,
 }: {
@@ -115,8 +121,175 @@ export const getCustomElectrumPeers = ({
   if (!selectedNetwork) {
     selectedNetwork = getSelectedNetwork();
   }
+  const { customElectrumPeers, preferredElectrumPeer } = store.getState().settings;
+  const preferredHost = preferredElectrumPeer?.[selectedNetwork];
+  // networks without public servers hold a placeholder peer
+  const peers = customElectrumPeers[selectedNetwork].filter(({ host }) => !!host);
+  return [
+    ...peers.filter(({ host }) => host === preferredHost),
+    ...peers.filter(({ host }) => host !== preferredHost),
+  ];
+};
+
+/**
+ * Returns the peers to connect to in order. A preferred peer is used exclusively so a
+ * self-hosted server isn't swapped for a public one on a brief outage, unless fallbacks
+ * are requested after it kept failing. Otherwise the saved peers are followed by the
+ * hardcoded ones.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @param {boolean} [includeFallbacks] also return the other peers when a preferred peer is set
+ * @return {ICustomElectrumPeer[]}
+ */
+export const getElectrumPeers = ({
+  selectedNetwork,
+  includeFallbacks = false,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+  includeFallbacks?: boolean;
+} = {}): ICustomElectrumPeer[] => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const customPeers = getCustomElectrumPeers({ selectedNetwork });
+  const preferredHost = store.getState().settings.preferredElectrumPeer?.[selectedNetwork];
+  if (!includeFallbacks && preferredHost && customPeers[0]?.host === preferredHost) {
+    return [customPeers[0]];
+  }
+  const defaultPeers: ICustomElectrumPeer[] = hardcodedPeers[selectedNetwork]
+    .filter(({ host }) => !customPeers.some((peer) => peer.host === host))
+    .map((peer) => ({ ...peer, protocol: 'ssl' }));
+  return [...customPeers, ...defaultPeers];
+};
+
+/**
+ * Sends a single request to the peer over a separate connection, leaving the wallet's own
+ * Electrum connection untouched.
+ * @param {ICustomElectrumPeer} peer
+ * @param {string} method
+ * @param {any[]} [params]
+ * @return {Promise<Result<any>>} the result of the request
+ */
+export const requestElectrumPeer = ({
+  peer,
+  method,
+  params = [],
+}: {
+  peer: ICustomElectrumPeer;
+  method: string;
+  params?: any[];
+}): Promise<Result<any>> => {
+  return new Promise((resolve) => {
+    let response = '';
+    let settled = false;
+    const finish = (result: Result<any>): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      socket.destroy();
+      resolve(result);
+    };
+    const socket = TcpSocket.createConnection(
+      {
+        host: peer.host,
+        port: peer[peer.protocol],
+        tls: peer.protocol === 'ssl',
+        // like the wallet connection, self-signed certificates are common on personal servers
+        tlsCheckValidity: false,
+      },
+      () => {
+        socket.write(`${JSON.stringify({ id: 0, method, params })}\n`);
+      }
+    );
+    const timeout = setTimeout(() => {
+      finish(err('The server did not respond in time.'));
+    }, PEER_REQUEST_TIMEOUT);
+    socket.on('data', (data) => {
+      response += data.toString();
+      const end = response.indexOf('\n');
+      if (end === -1) {
+        return;
+      }
+      try {
+        const { result, error } = JSON.parse(response.substring(0, end));
+        if (error || result === undefined || result === null) {
+          finish(err(error?.message ?? 'The server returned an invalid response.'));
+        } else {
+          finish(ok(result));
+        }
+      } catch (e) {
+        finish(err(e));
+      }
+    });
+    socket.on('error', (e) => {
+      finish(err(e));
+    });
+  });
+};
+
+/**
+ * Opens a separate connection to the peer and checks it answers server.features for the
+ * selected network. The wallet's own Electrum connection is left untouched.
+ * @param {ICustomElectrumPeer} peer
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<string>>} the server software and version
+ */
+export const testElectrumPeer = async ({
+  peer,
+  selectedNetwork,
+}: {
+  peer: ICustomElectrumPeer;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const response = await requestElectrumPeer({ peer, method: 'server.features' });
+  if (response.isErr()) {
+    return err(response.error.message);
+  }
+  if (response.value.genesis_hash !== genesisHashes[selectedNetwork]) {
+    return err('This server is on a different network.');
+  }
+  return ok(response.value.server_version ?? 'Electrum server');
+};
 
-  return store.getState().settings.customElectrumPeers[selectedNetwork];
+/**
+ * Asks the connected Electrum peer for the fee rate needed to confirm within the given
+ * number of blocks, using blockchain.estimatefee over the wallet's own connection.
+ * @param {number} blocks
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<number>>} the fee rate in sats/vbyte
+ */
+export const estimateElectrumFee = async ({
+  blocks,
+  selectedNetwork,
+}: {
+  blocks: number;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<number>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const connectedPeer = await getConnectedElectrumPeer(selectedNetwork);
+  if (connectedPeer.isErr()) {
+    return err(connectedPeer.error.message);
+  }
+  // sent over the wallet's connection, checked above so this never connects elsewhere
+  const response = await electrum.getFeeEstimate({
+    blocksWillingToWait: blocks,
+    network: selectedNetwork,
+  });
+  if (response.error) {
+    return err(response.data);
+  }
+  // BTC/kvB, or -1 when the server's node doesn't have enough data yet
+  const btcPerKvB = Number(response.data);
+  if (!(btcPerKvB > 0)) {
+    return err(`No fee estimate available for ${blocks} blocks.`);
+  }
+  return ok((btcPerKvB * 100000000) / 1000);
 };
 
 /**
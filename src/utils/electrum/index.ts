@@ -3,27 +3,21 @@ import { err, ok, Result } from '../result';
 import { getAddressFromScriptPubKey, updateHeader } from './helpers';
 import { Block } from 'bitcoinjs-lib';
 import {
+  IAddress,
   ICustomElectrumPeer,
   IGetHeaderResponse,
   IHeader,
   ISubscribeToHeader,
-  IWalletItem,
+  IUtxo,
   TGetAddressHistory,
+  TOnchainBalance,
 } from '../types';
 import { TAvailableNetworks } from '../networks';
-import { getSelectedNetwork } from '../wallet';
-import { getCustomElectrumPeers, hardcodedPeers } from './helpers';
+import { getSelectedNetwork, refreshWallet } from '../wallet';
+import { getElectrumPeers } from './helpers';
 import store from '../../state/store';
 import { getBitcoinScriptHash } from '../bitcoin';
 
-type PartialBy<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
-type TCustomElectrumPeerOptionalProtocol = PartialBy<ICustomElectrumPeer, 'protocol'>;
-
-const tempElectrumServers: IWalletItem<TCustomElectrumPeerOptionalProtocol[]> = {
-  bitcoin: hardcodedPeers.bitcoin,
-  bitcoinTestnet: hardcodedPeers.bitcoinTestnet,
-  bitcoinRegtest: [],
-};
 /**
  * Returns the block hash given a block hex.
  * Leaving blockHex empty will return the last known block hash from storage.
@@ -104,9 +98,10 @@ export const getBlockHex = async ({
 };
 
 /**
- * Connects to the provided electrum peer. Otherwise, it will attempt to connect to a set of default peers.
+ * Connects to the first reachable of the provided electrum peers, by default the saved
+ * peers followed by a set of hardcoded ones, or only the preferred peer when one is set.
  * @param {TAvailableNetworks} [selectedNetwork]
- * @param {number} [retryAttempts]
+ * @param {number} [retryAttempts] per peer
  * @param {ICustomElectrumPeer[]} [customPeers]
  * @param {{ net: undefined, tls: undefined }} [options]
  * @return {Promise<Result<string>>}
@@ -119,7 +114,7 @@ export const connectToElectrum = async ({
 }: {
   selectedNetwork?: TAvailableNetworks;
   retryAttempts?: number;
-  customPeers?: TCustomElectrumPeerOptionalProtocol[];
+  customPeers?: ICustomElectrumPeer[];
   options?: { net?: any; tls?: any };
 } = {}): Promise<Result<string>> => {
   if (!selectedNetwork) {
@@ -132,47 +127,67 @@ export const connectToElectrum = async ({
   //Attempt to disconnect from any old/lingering connections
   await electrum.stop({ network: selectedNetwork });
 
-  // // Fetch any stored custom peers.
-  // if (!customPeers) {
-  //   customPeers = getCustomElectrumPeers({ selectedNetwork });
-  // }
-  // // if no custom peers, use default peers from state
-  // if (customPeers.length < 1) {
-  //   customPeers = tempElectrumServers[selectedNetwork];
-  // }
+  if (!customPeers) {
+    customPeers = getElectrumPeers({ selectedNetwork });
+  }
 
   let startResponse = { error: true, data: '' };
-  for (let i = 0; i < retryAttempts; i++) {
-    startResponse = await electrum.start({
-      network: selectedNetwork,
-      customPeers: tempElectrumServers[selectedNetwork],
-      net,
-      tls: _tls,
-    });
+  for (const peer of customPeers) {
+    for (let i = 0; i < retryAttempts && startResponse.error; i++) {
+      startResponse = await electrum.start({
+        network: selectedNetwork,
+        customPeers: [peer],
+        net,
+        tls: _tls,
+      });
+    }
     if (!startResponse.error) {
       break;
     }
   }
 
   if (startResponse.error) {
-    //Attempt one more time
-    const { error, data } = await electrum.start({
-      network: selectedNetwork,
-      customPeers,
-      net,
-      tls: _tls,
-    });
-    if (error) {
-      const msg = data || 'An unknown error occurred.';
-      return err(msg);
-    }
-    return ok(data);
+    const msg = startResponse.data || 'An unknown error occurred.';
+    return err(msg);
   }
   // update state
   store.dispatch.app.setIsConnectedToElectrum(true);
   return ok(startResponse.data);
 };
 
+/**
+ * Replaces the current Electrum connection, e.g. after the preferred server changed,
+ * and subscribes to headers and wallet addresses again.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @param {number} [retryAttempts] per peer
+ * @param {ICustomElectrumPeer[]} [customPeers]
+ * @return {Promise<Result<string>>}
+ */
+export const reconnectToElectrum = async ({
+  selectedNetwork,
+  retryAttempts,
+  customPeers,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+  retryAttempts?: number;
+  customPeers?: ICustomElectrumPeer[];
+} = {}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const connectResponse = await connectToElectrum({ selectedNetwork, retryAttempts, customPeers });
+  if (connectResponse.isErr()) {
+    store.dispatch.app.setIsConnectedToElectrum(false);
+    return err(connectResponse.error.message);
+  }
+  const onReceive = (): void => {
+    refreshWallet({ selectedNetwork }).then();
+  };
+  await subscribeToHeader({ selectedNetwork, onReceive });
+  await refreshWallet({ selectedNetwork });
+  return ok(connectResponse.value);
+};
+
 /**
  * Subscribes to the current networks headers.
  * @param {string} [selectedNetwork]
@@ -265,9 +280,43 @@ export const getScriptPubKeyHistory = async (
 };
 
 /**
- * Returns combined balance of provided addresses.
+ * Returns the script hashes that have any on-chain history.
+ * @param {string[]} scriptHashes
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string[]>>}
+ */
+export const getUsedScriptHashes = async ({
+  scriptHashes,
+  selectedNetwork,
+}: {
+  scriptHashes: string[];
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string[]>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (scriptHashes.length < 1) {
+    return ok([]);
+  }
+  const response = await electrum.getAddressScriptHashesHistory({
+    scriptHashes,
+    network: selectedNetwork,
+  });
+  if (response.error) {
+    return err('Unable to fetch address history.');
+  }
+  return ok(
+    response.data
+      .filter(({ result }) => Array.isArray(result) && result.length > 0)
+      .map(({ param }) => param)
+  );
+};
+
+/**
+ * Returns the combined confirmed and unconfirmed balance of provided addresses.
  * @param {string[]} addresses
  * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TOnchainBalance>>}
  */
 export const getAddressBalance = async ({
   addresses = [],
@@ -275,7 +324,7 @@ export const getAddressBalance = async ({
 }: {
   addresses: string[];
   selectedNetwork?: TAvailableNetworks;
-}): Promise<Result<number>> => {
+}): Promise<Result<TOnchainBalance>> => {
   try {
     if (!selectedNetwork) {
       selectedNetwork = getSelectedNetwork();
@@ -296,15 +345,132 @@ export const getAddressBalance = async ({
       return err(res.data);
     }
     return ok(
-      res.data.reduce((acc, cur) => {
-        return acc + Number(cur.result?.confirmed ?? 0) + Number(cur.result?.unconfirmed ?? 0);
-      }, 0) || 0
+      res.data.reduce(
+        (acc: TOnchainBalance, cur) => ({
+          confirmed: acc.confirmed + Number(cur.result?.confirmed ?? 0),
+          unconfirmed: acc.unconfirmed + Number(cur.result?.unconfirmed ?? 0),
+        }),
+        { confirmed: 0, unconfirmed: 0 }
+      )
     );
   } catch (e) {
     return err(e);
   }
 };
 
+/**
+ * Returns the unspent outputs of the provided addresses.
+ * @param {IAddress[]} addresses
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<IUtxo[]>>}
+ */
+export const listUnspent = async ({
+  addresses = [],
+  selectedNetwork,
+}: {
+  addresses: IAddress[];
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<IUtxo[]>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    if (addresses.length < 1) {
+      return ok([]);
+    }
+    const res = await electrum.listUnspentAddressScriptHashes({
+      scriptHashes: addresses.map(({ scriptHash }) => scriptHash),
+      network: selectedNetwork,
+    });
+    if (res.error) {
+      return err(res.data);
+    }
+    const utxos: IUtxo[] = [];
+    res.data.forEach(({ param, result }) => {
+      const address = addresses.find(({ scriptHash }) => scriptHash === param);
+      if (!address || !Array.isArray(result)) {
+        return;
+      }
+      result.forEach(({ tx_hash, tx_pos, height, value }) => {
+        utxos.push({
+          address: address.address,
+          index: address.index,
+          path: address.path,
+          scriptHash: address.scriptHash,
+          height,
+          tx_hash,
+          tx_pos,
+          value,
+        });
+      });
+    });
+    return ok(utxos);
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the raw hex of a transaction.
+ * @param {string} txid
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const getTransactionHex = async ({
+  txid,
+  selectedNetwork,
+}: {
+  txid: string;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const response = await electrum.getTransactions({
+    txHashes: { key: 'tx_hash', data: [{ tx_hash: txid }] },
+    network: selectedNetwork,
+  });
+  if (response.error || !response.data?.[0]?.result?.hex) {
+    return err('Unable to fetch transaction.');
+  }
+  return ok(response.data[0].result.hex);
+};
+
+/**
+ * Returns the number of confirmations of each provided transaction, 0 while in the mempool.
+ * @param {string[]} txids
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<{ [txid: string]: number }>>}
+ */
+export const getTransactionsConfirmations = async ({
+  txids,
+  selectedNetwork,
+}: {
+  txids: string[];
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<{ [txid: string]: number }>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (txids.length < 1) {
+    return ok({});
+  }
+  const response = await electrum.getTransactions({
+    txHashes: { key: 'tx_hash', data: txids.map((tx_hash) => ({ tx_hash })) },
+    network: selectedNetwork,
+  });
+  if (response.error) {
+    return err('Unable to fetch transactions.');
+  }
+  const confirmations = {};
+  response.data.forEach(({ param, result }) => {
+    if (result) {
+      confirmations[param] = result.confirmations ?? 0;
+    }
+  });
+  return ok(confirmations);
+};
+
 export const broadcastTransaction = async ({
   rawTx,
   selectedNetwork,
@@ -0,0 +1,242 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { TAvailableNetworks } from '../networks';
+import { Result, err, ok } from '../result';
+import { promiseTimeout } from '../helpers';
+import { getSelectedNetwork } from '../wallet';
+import { getBlockHeader, getBlockHex, reconnectToElectrum } from './index';
+import { getConnectedElectrumPeer, getElectrumPeers } from './helpers';
+import store from '../../state/store';
+import Logger from '../logger';
+
+const TAG = 'ElectrumSupervisor';
+const PING_INTERVAL = 30 * 1000;
+const PING_TIMEOUT = 10 * 1000;
+// blocks can be an hour apart, so only then check whether the header subscription missed one
+const HEADER_STALL_TIMEOUT = 20 * 60 * 1000;
+// a failed round through every peer is retried after these delays, repeating the last one
+const RECONNECT_DELAYS = [2 * 1000, 5 * 1000, 15 * 1000, 30 * 1000, 60 * 1000, 2 * 60 * 1000];
+// failed rounds on the preferred peer alone before the other peers are tried as well
+const PREFERRED_PEER_MAX_FAILED_ROUNDS = 3;
+
+let supervisedNetwork: TAvailableNetworks | undefined;
+let pingTimer: ReturnType<typeof setInterval> | undefined;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let appStateSubscription: NativeEventSubscription | undefined;
+let unsubscribeFromInternet: (() => void) | undefined;
+let isChecking = false;
+let isReconnecting = false;
+let failedRounds = 0;
+// host of the last peer we were connected to, the next round starts after it
+let lastPeerHost = '';
+let lastHeaderHeight = 0;
+let lastHeaderAt = 0;
+
+/**
+ * Resolves with ok when the server answers a block header request in time.
+ * Electrum has no dedicated ping in our client, a header of a known block is just as cheap.
+ * @param {number} height
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {Promise<Result<string>>}
+ */
+const requestHeader = async (
+  height: number,
+  selectedNetwork: TAvailableNetworks
+): Promise<Result<string>> => {
+  const response = await promiseTimeout<Result<string>>(
+    PING_TIMEOUT,
+    getBlockHex({ height, selectedNetwork })
+  );
+  if (response.isErr()) {
+    return err(response.error.message);
+  }
+  return ok(response.value);
+};
+
+/**
+ * Returns the peers to try next, starting after the peer that dropped so a broken
+ * server isn't retried first on every round. A preferred peer that keeps failing is
+ * joined by the other peers until a connection succeeds again.
+ * @param {TAvailableNetworks} selectedNetwork
+ */
+const getPeerRotation = (selectedNetwork: TAvailableNetworks) => {
+  const peers = getElectrumPeers({
+    selectedNetwork,
+    includeFallbacks: failedRounds >= PREFERRED_PEER_MAX_FAILED_ROUNDS,
+  });
+  const lastIndex = peers.findIndex(({ host }) => host === lastPeerHost);
+  if (lastIndex === -1) {
+    return peers;
+  }
+  return [...peers.slice(lastIndex + 1), ...peers.slice(0, lastIndex + 1)];
+};
+
+const scheduleReconnect = (): void => {
+  clearTimeout(reconnectTimer);
+  const delay = RECONNECT_DELAYS[Math.min(failedRounds, RECONNECT_DELAYS.length - 1)];
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = undefined;
+    reconnect().then();
+  }, delay);
+};
+
+/**
+ * Rotates through the configured and hardcoded peers until one connects, then subscribes
+ * to headers and wallet addresses again. Backs off between failed rounds.
+ */
+const reconnect = async (): Promise<void> => {
+  const selectedNetwork = supervisedNetwork;
+  if (!selectedNetwork || isReconnecting) {
+    return;
+  }
+  isReconnecting = true;
+  clearTimeout(reconnectTimer);
+  reconnectTimer = undefined;
+  store.dispatch.app.setIsConnectedToElectrum(false);
+  try {
+    if (!store.getState().internet.isConnected) {
+      // no point cycling through peers while offline, coming back online starts a new round
+      return;
+    }
+    const reconnectResponse = await reconnectToElectrum({
+      selectedNetwork,
+      retryAttempts: 1,
+      customPeers: getPeerRotation(selectedNetwork),
+    });
+    if (selectedNetwork !== supervisedNetwork) {
+      return;
+    }
+    if (reconnectResponse.isErr()) {
+      failedRounds++;
+      Logger.error(TAG, `Reconnect round ${failedRounds} failed`, reconnectResponse.error);
+      scheduleReconnect();
+      return;
+    }
+    failedRounds = 0;
+    lastHeaderHeight = getBlockHeader().height;
+    lastHeaderAt = Date.now();
+    const peer = await getConnectedElectrumPeer(selectedNetwork);
+    lastPeerHost = peer.isOk() ? peer.value.host : '';
+  } finally {
+    isReconnecting = false;
+  }
+};
+
+/**
+ * Pings the connected server and checks the header subscription still delivers new blocks,
+ * reconnecting when either fails.
+ */
+const checkConnection = async (): Promise<void> => {
+  const selectedNetwork = supervisedNetwork;
+  if (!selectedNetwork || isChecking || isReconnecting || reconnectTimer) {
+    return;
+  }
+  isChecking = true;
+  try {
+    if (!store.getState().app.isConnectedToElectrum) {
+      await reconnect();
+      return;
+    }
+    const { height } = getBlockHeader();
+    const pingResponse = await requestHeader(height, selectedNetwork);
+    if (selectedNetwork !== supervisedNetwork) {
+      return;
+    }
+    if (pingResponse.isErr()) {
+      Logger.error(TAG, 'Electrum server stopped responding', pingResponse.error);
+      const peer = await getConnectedElectrumPeer(selectedNetwork);
+      lastPeerHost = peer.isOk() ? peer.value.host : lastPeerHost;
+      await reconnect();
+      return;
+    }
+    if (height !== lastHeaderHeight) {
+      lastHeaderHeight = height;
+      lastHeaderAt = Date.now();
+      return;
+    }
+    if (Date.now() - lastHeaderAt < HEADER_STALL_TIMEOUT) {
+      return;
+    }
+    // the server knows a newer block we were never notified about
+    const nextHeader = await requestHeader(height + 1, selectedNetwork);
+    if (nextHeader.isOk() && nextHeader.value) {
+      Logger.error(TAG, `Header subscription stalled at ${height}`);
+      await reconnect();
+      return;
+    }
+    lastHeaderAt = Date.now();
+  } catch (e) {
+    Logger.error(TAG, 'Connection check failed', e);
+  } finally {
+    isChecking = false;
+  }
+};
+
+/**
+ * Skips the remaining backoff, e.g. when the app returns to the foreground or gets back online.
+ */
+const checkNow = (): void => {
+  if (reconnectTimer || !store.getState().app.isConnectedToElectrum) {
+    reconnect().then();
+  } else {
+    checkConnection().then();
+  }
+};
+
+const onAppStateChange = (state: AppStateStatus): void => {
+  // sockets are often dropped while the app is in the background
+  if (state === 'active') {
+    checkNow();
+  }
+};
+
+/**
+ * Keeps the Electrum connection of the selected network alive: pings the server,
+ * detects stalled header subscriptions and reconnects with backoff, keeping
+ * app.isConnectedToElectrum up to date for the disconnect banner.
+ * Starting it again replaces the previous supervisor, e.g. after switching wallets.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ */
+export const startElectrumSupervisor = ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): void => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  stopElectrumSupervisor();
+  supervisedNetwork = selectedNetwork;
+  lastHeaderHeight = getBlockHeader().height;
+  lastHeaderAt = Date.now();
+  pingTimer = setInterval(() => {
+    checkConnection().then();
+  }, PING_INTERVAL);
+  appStateSubscription = AppState.addEventListener('change', onAppStateChange);
+  let wasOnline = store.getState().internet.isConnected;
+  unsubscribeFromInternet = store.subscribe(() => {
+    const isOnline = store.getState().internet.isConnected;
+    if (isOnline && !wasOnline) {
+      checkNow();
+    }
+    wasOnline = isOnline;
+  });
+  if (!store.getState().app.isConnectedToElectrum) {
+    reconnect().then();
+  }
+};
+
+/**
+ * Stops supervising the Electrum connection, e.g. before the node is reset.
+ */
+export const stopElectrumSupervisor = (): void => {
+  supervisedNetwork = undefined;
+  clearInterval(pingTimer);
+  clearTimeout(reconnectTimer);
+  pingTimer = undefined;
+  reconnectTimer = undefined;
+  appStateSubscription?.remove();
+  appStateSubscription = undefined;
+  unsubscribeFromInternet?.();
+  unsubscribeFromInternet = undefined;
+  failedRounds = 0;
+};
@@ -0,0 +1,177 @@
+import { EAvailableNetworks, TAvailableNetworks } from './networks';
+import { err, ok, Result } from './result';
+import { promiseTimeout } from './helpers';
+import { ONE_HOUR_IN_MILLIS } from './time';
+import { estimateElectrumFee } from './electrum/helpers';
+import { getSelectedNetwork, getWalletStore } from './wallet';
+import { EFeeSource, IGetFeeEstimatesResponse, IOnchainFees, TFeeRates } from './types';
+import { walletModel } from '../state/models/wallet';
+import store from '../state/store';
+import Logger from './logger';
+
+const TAG = 'FeeEstimator';
+// rates outside this range come from a broken source rather than the fee market, in sats/vbyte
+export const MIN_FEE_RATE = 1;
+export const MAX_FEE_RATE = 1000;
+// older estimates are not used, a channel close paying last week's rate may never confirm
+export const FEE_CACHE_MAX_AGE = 2 * ONE_HOUR_IN_MILLIS;
+const FEE_SOURCE_TIMEOUT = 10 * 1000;
+// confirmation targets in blocks, roughly matching mempool.space's recommendations
+const ELECTRUM_FEE_TARGETS: TFeeRates = {
+  fast: 2,
+  normal: 3,
+  slow: 6,
+  minimum: 144,
+};
+
+export const feeSourceLabels: Record<EFeeSource, string> = {
+  [EFeeSource.mempool]: 'mempool.space',
+  [EFeeSource.electrum]: 'Electrum server',
+  [EFeeSource.cache]: 'last known estimate',
+  [EFeeSource.default]: 'default rates',
+};
+
+/**
+ * Rounds the rates up and keeps them within MIN_FEE_RATE and MAX_FEE_RATE,
+ * making sure a faster tier never pays less than a slower one.
+ * @param {IOnchainFees} fees
+ * @returns {IOnchainFees}
+ */
+export const clampFees = (fees: IOnchainFees): IOnchainFees => {
+  const clamp = (rate: number): number =>
+    Math.min(Math.max(Math.ceil(rate), MIN_FEE_RATE), MAX_FEE_RATE);
+  const minimum = clamp(fees.minimum);
+  const slow = Math.max(clamp(fees.slow), minimum);
+  const normal = Math.max(clamp(fees.normal), slow);
+  const fast = Math.max(clamp(fees.fast), normal);
+  return { ...fees, fast, normal, slow, minimum };
+};
+
+/**
+ * Returns the recommended fees of the mempool-compatible api set for the network.
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {Promise<Result<TFeeRates>>}
+ */
+const getMempoolFees = async (selectedNetwork: TAvailableNetworks): Promise<Result<TFeeRates>> => {
+  const url = store.getState().settings.mempoolApiUrl[selectedNetwork];
+  if (!url) {
+    return err('No mempool api set for this network.');
+  }
+  try {
+    const response = await fetch(`${url.replace(/\/+$/, '')}/v1/fees/recommended`);
+    if (!response.ok) {
+      return err(`The mempool api responded with ${response.status}`);
+    }
+    const res: IGetFeeEstimatesResponse = await response.json();
+    return ok({
+      fast: res.fastestFee,
+      normal: res.halfHourFee,
+      slow: res.hourFee,
+      minimum: res.minimumFee,
+    });
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the fees estimated by the connected Electrum server for each tier's target.
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {Promise<Result<TFeeRates>>}
+ */
+const getElectrumFees = async (selectedNetwork: TAvailableNetworks): Promise<Result<TFeeRates>> => {
+  const tiers = Object.keys(ELECTRUM_FEE_TARGETS) as (keyof TFeeRates)[];
+  const responses = await Promise.all(
+    tiers.map((tier) =>
+      estimateElectrumFee({ blocks: ELECTRUM_FEE_TARGETS[tier], selectedNetwork })
+    )
+  );
+  const rates = {} as TFeeRates;
+  for (let i = 0; i < tiers.length; i++) {
+    const response = responses[i];
+    if (response.isErr()) {
+      return err(response.error.message);
+    }
+    rates[tiers[i]] = response.value;
+  }
+  return ok(rates);
+};
+
+/**
+ * Returns the last saved estimate while it is younger than FEE_CACHE_MAX_AGE.
+ * It keeps its original timestamp, so it expires even if it keeps being reused.
+ * @returns {Result<IOnchainFees>}
+ */
+const getCachedFees = (): Result<IOnchainFees> => {
+  const fees = getWalletStore().fees;
+  if (fees.source === EFeeSource.default) {
+    return err('No fee estimate has been fetched yet.');
+  }
+  if (Date.now() - fees.timestamp > FEE_CACHE_MAX_AGE) {
+    return err('The last fee estimate is too old.');
+  }
+  return ok({ ...fees, source: EFeeSource.cache });
+};
+
+/**
+ * Returns the fees of a single source.
+ * @param {EFeeSource} source
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {Promise<Result<IOnchainFees>>}
+ */
+const getFeesFromSource = async (
+  source: EFeeSource,
+  selectedNetwork: TAvailableNetworks
+): Promise<Result<IOnchainFees>> => {
+  switch (source) {
+    case EFeeSource.mempool:
+    case EFeeSource.electrum: {
+      const response = await promiseTimeout<Result<TFeeRates>>(
+        FEE_SOURCE_TIMEOUT,
+        source === EFeeSource.mempool
+          ? getMempoolFees(selectedNetwork)
+          : getElectrumFees(selectedNetwork)
+      );
+      if (response.isErr()) {
+        return err(response.error.message);
+      }
+      const rates: TFeeRates = response.value;
+      const tiers: (keyof TFeeRates)[] = ['fast', 'normal', 'slow', 'minimum'];
+      if (!tiers.every((tier) => Number.isFinite(rates[tier]) && rates[tier] > 0)) {
+        return err('The source returned invalid fee rates.');
+      }
+      return ok({ ...rates, timestamp: Date.now(), source });
+    }
+    case EFeeSource.cache:
+      return getCachedFees();
+    default:
+      return err(`Unknown fee source: ${source}`);
+  }
+};
+
+/**
+ * Returns the fee estimates of the first source in settings.feeSources that answers,
+ * clamped to sane rates. Fails instead of guessing when none of them do.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<IOnchainFees>>}
+ */
+export const getFeeEstimates = async (
+  selectedNetwork?: TAvailableNetworks
+): Promise<Result<IOnchainFees>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+
+  if (__DEV__ && selectedNetwork === EAvailableNetworks.bitcoinRegtest) {
+    return ok(walletModel.fees);
+  }
+
+  for (const source of store.getState().settings.feeSources) {
+    const response = await getFeesFromSource(source, selectedNetwork);
+    if (response.isOk()) {
+      return ok(clampFees(response.value));
+    }
+    Logger.warn(TAG, `No fee estimate from ${source}`, response.error.message);
+  }
+  return err('Unable to get fee estimates from any source.');
+};
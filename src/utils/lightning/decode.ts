@@ -9,6 +9,14 @@ import { navigate } from '../../navigation/NavigationService';
 import { Screens } from '../../navigation/Screens';
 import { showErrorBanner, showSuccessBanner, showToast, showWarningBanner } from '../alerts';
 import { cueErrorHaptic, cueSuccessHaptic } from '../accessibility/haptics';
+import { isBip21Uri, parseBip21Uri, validateAddress } from '../bip21';
+import {
+  decodeLnurl,
+  getLightningAddressUrl,
+  getLnurlParams,
+  isLightningAddress,
+  isLnurl,
+} from './lnurl';
 
 export const validateInternetIdentifier = (internetIdentifier) => {
   var re = /\S+@\S+\.\S+/;
@@ -142,8 +150,71 @@ export const decodeQRData = async (
 
   let foundNetworksInQR: IDecodedData[] = [];
   let lightningInvoice = '';
+  let note: string | undefined;
+  let bip21Address: IDecodedData | undefined;
   let error = '';
 
+  // BIP21 uri, possibly unified with a lightning invoice
+  if (isBip21Uri(data)) {
+    const bip21Res = parseBip21Uri({ uri: data, selectedNetwork });
+    if (bip21Res.isErr()) {
+      return err(bip21Res.error.message);
+    }
+    const { address, amount, label, message, lightning } = bip21Res.value;
+    note = message || label;
+    if (address) {
+      bip21Address = {
+        dataType: ELightningDataType.bitcoinAddress,
+        address,
+        network: selectedNetwork,
+        sats: amount ?? 0,
+        note,
+      };
+    }
+    if (!lightning) {
+      if (!bip21Address) {
+        return err('The payment request has no address or invoice.');
+      }
+      foundNetworksInQR.push(bip21Address);
+      return ok(foundNetworksInQR);
+    }
+    // prefer paying over lightning when an invoice is available
+    data = lightning;
+  }
+
+  // LNURL (LUD-01/17) or Lightning Address (LUD-16)
+  const lnurlCandidate = data.replace(/^lightning:/i, '').trim();
+  if (isLnurl(lnurlCandidate) || isLightningAddress(lnurlCandidate)) {
+    const urlRes = isLightningAddress(lnurlCandidate)
+      ? getLightningAddressUrl(lnurlCandidate)
+      : decodeLnurl(lnurlCandidate);
+    const paramsRes = urlRes.isOk() ? await getLnurlParams(urlRes.value) : urlRes;
+    if (paramsRes.isErr()) {
+      if (bip21Address) {
+        // fall back to the on-chain address of a unified qr
+        foundNetworksInQR.push(bip21Address);
+        return ok(foundNetworksInQR);
+      }
+      return err(paramsRes.error.message);
+    }
+    if (paramsRes.value.tag === 'payRequest') {
+      foundNetworksInQR.push({
+        dataType: ELightningDataType.lnurlPay,
+        url: urlRes.value,
+        network: selectedNetwork,
+        lnurlParams: paramsRes.value,
+      });
+    } else if (paramsRes.value.tag === 'withdrawRequest') {
+      foundNetworksInQR.push({
+        dataType: ELightningDataType.lnurlWithdraw,
+        url: urlRes.value,
+        network: selectedNetwork,
+        lnurlParams: paramsRes.value,
+      });
+    }
+    return ok(foundNetworksInQR);
+  }
+
   //Lightning URI or plain lightning payment request
   if (
     data.toLowerCase().indexOf('lightning:') > -1 ||
@@ -170,16 +241,29 @@ export const decodeQRData = async (
     if (decodedInvoice.isOk()) {
       foundNetworksInQR.push({
         dataType: ELightningDataType.paymentRequest,
-        paymentRequest: data,
+        paymentRequest: lightningInvoice,
         network: selectedNetwork,
         sats: decodedInvoice.value?.amount_satoshis ?? 0,
         message: decodedInvoice.value?.description ?? '',
+        note,
       });
+    } else if (bip21Address) {
+      // fall back to the on-chain address of a unified qr
+      foundNetworksInQR.push(bip21Address);
     } else {
       error += `${decodedInvoice.error.message} `;
     }
   }
 
+  if (!foundNetworksInQR.length && validateAddress({ address: data, selectedNetwork })) {
+    foundNetworksInQR.push({
+      dataType: ELightningDataType.bitcoinAddress,
+      address: data,
+      network: selectedNetwork,
+      sats: 0,
+    });
+  }
+
   if (!foundNetworksInQR.length) {
     // Attempt to determine if it's a node id to connect with and add.
     const dataSplit = data.split(':');
@@ -224,6 +308,18 @@ export const processInputData = async ({
     const decodeRes = await decodeQRData(data, selectedNetwork);
     console.log('decodeRes: ', decodeRes);
     if (decodeRes.isErr()) {
+      const lnurlCandidate = data.replace(/^lightning:/i, '');
+      if (isLnurl(lnurlCandidate) || isLightningAddress(lnurlCandidate)) {
+        // the service's own reason says more than a generic decoding error
+        if (showErrors) {
+          showErrorBanner({
+            message: decodeRes.error.message,
+            title: 'LNURL request failed',
+            dismissAfter: 5000,
+          });
+        }
+        return err(decodeRes.error.message);
+      }
       const message = 'Etta could not decode that. Copy the invoice and try again';
       if (showErrors) {
         showWarningBanner({
@@ -338,19 +434,84 @@ export const handleProcessedData = async ({
         navigate(Screens.SendScreen, {
           amount: invoiceAmount,
           paymentRequest: invoiceString,
+          note: data.note,
         });
       } else {
+        // zero-amount invoice, let the user choose how much to send
+        cueSuccessHaptic();
+        navigate(Screens.EnterAmountScreen, {
+          paymentRequest: invoiceString,
+          note: data.note,
+        });
+      }
+
+      return ok({
+        type: ELightningDataType.paymentRequest,
+        amount: invoiceAmount,
+      });
+    }
+    case ELightningDataType.lnurlPay: {
+      const params = data.lnurlParams;
+      if (!params || params.tag !== 'payRequest') {
+        return err('Unable to interpret LNURL-pay information.');
+      }
+      const minSendable = Math.ceil(params.minSendable / 1000);
+      const { spendableBalance } = getTotalBalance({});
+      if (spendableBalance < minSendable) {
         cueErrorHaptic();
         showErrorBanner({
-          message: 'Specify an amount on this invoice and try again',
-          title: 'No amount specified',
+          message: `${params.domain} requires at least ${minSendable} sats. You have ${spendableBalance} sats available.`,
+          title: 'Unable to pay',
           dismissAfter: 5000,
         });
+        return err('Insufficient balance for LNURL-pay request.');
       }
 
+      cueSuccessHaptic();
+      navigate(Screens.LnurlPayScreen, { params });
       return ok({
-        type: ELightningDataType.paymentRequest,
-        amount: invoiceAmount,
+        type: ELightningDataType.lnurlPay,
+        value: data.url,
+      });
+    }
+    case ELightningDataType.lnurlWithdraw: {
+      const params = data.lnurlParams;
+      if (!params || params.tag !== 'withdrawRequest') {
+        return err('Unable to interpret LNURL-withdraw information.');
+      }
+      const minWithdrawable = Math.ceil(params.minWithdrawable / 1000);
+      const maxWithdrawable = Math.floor(params.maxWithdrawable / 1000);
+      if (maxWithdrawable < minWithdrawable) {
+        cueErrorHaptic();
+        showErrorBanner({
+          message: `${params.domain} has nothing to withdraw at this time.`,
+          title: 'Unable to withdraw',
+          dismissAfter: 5000,
+        });
+        return err('Invalid LNURL-withdraw amount range.');
+      }
+
+      cueSuccessHaptic();
+      navigate(Screens.LnurlWithdrawScreen, { params });
+      return ok({
+        type: ELightningDataType.lnurlWithdraw,
+        value: data.url,
+      });
+    }
+    case ELightningDataType.bitcoinAddress: {
+      const address = data?.address;
+      if (!address) {
+        return err('Unable to interpret bitcoin address.');
+      }
+      cueSuccessHaptic();
+      navigate(Screens.SendOnchainScreen, {
+        address,
+        amount: data?.sats || undefined,
+        note: data?.note,
+      });
+      return ok({
+        type: ELightningDataType.bitcoinAddress,
+        value: address,
       });
     }
     case ELightningDataType.nodeId: {
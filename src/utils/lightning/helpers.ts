@@ -7,6 +7,7 @@ import lm, {
   TInvoice,
 } from '@synonymdev/react-native-ldk';
 import {
+  EAccount,
   EPaymentType,
   IWalletItem,
   NodeState,
@@ -14,16 +15,25 @@ import {
   TCreateLightningInvoice,
   TLightningNodeVersion,
   TLightningPayment,
+  TUseChannelBalance,
   TWalletName,
 } from '../types';
 import Keychain from 'react-native-keychain';
 import { err, ok, Result } from '../result';
 import RNFS from 'react-native-fs';
 import mmkvStorage, { StorageItem } from '../../storage/disk';
-import { getNodeVersion, isLdkRunning, keepLdkSynced, refreshLdk, setupLdk } from '../../ldk';
+import {
+  _getTransactionData,
+  getNodeVersion,
+  isLdkRunning,
+  keepLdkSynced,
+  refreshLdk,
+  setupLdk,
+} from '../../ldk';
 import store from '../../state/store';
 import {
   createDefaultWallet,
+  discoverAddresses,
   getBip39Passphrase,
   getSelectedNetwork,
   getSelectedWallet,
@@ -32,20 +42,23 @@ import {
 } from '../wallet';
 import { getKeychainValue } from '../keychain';
 import { InteractionManager } from 'react-native';
-import { connectToElectrum, subscribeToHeader } from '../electrum';
+import { connectToChainSource } from '../chain';
 import ldk from '@synonymdev/react-native-ldk/dist/ldk';
 
 import * as bitcoin from 'bitcoinjs-lib';
+import * as bip39 from 'bip39';
 import { reduceValue } from '../helpers';
 import { timeDeltaInDays } from '../time';
 import { transactionFeedHeader } from '../time';
 import i18n from '../../i18n';
 import { decodeLightningInvoice } from './decode';
 import { showWarningBanner } from '../alerts';
-import { VOLTAGE_LSP_API_TESTNET } from '../../../config';
 import Logger from '../logger';
+import { subscribeToMetadataBackups } from '../backup';
 import { getMaxRemoteBalance } from '../calculate';
+import { getLspProvider, getLspProviders } from '../lsp';
 
+const TAG = 'Lightning';
 const LDK_ACCOUNT_SUFFIX = 'ldkaccount';
 
 export const DEFAULT_LIGHTNING_PEERS: IWalletItem<string[]> = {
@@ -65,8 +78,43 @@ export const getLightningStore = () => {
   return store.getState().lightning;
 };
 
-export const setLdkStoragePath = (): Promise<Result<string>> =>
-  lm.setBaseStoragePath(`${RNFS.DocumentDirectoryPath}/ldk/`);
+/**
+ * Points LDK at the storage directory of the given wallet.
+ * The first wallet keeps the original location so existing nodes find their channels.
+ * @param {TWalletName} [selectedWallet]
+ * @returns {Promise<Result<string>>}
+ */
+export const setLdkStoragePath = (selectedWallet?: TWalletName): Promise<Result<string>> => {
+  if (!selectedWallet) {
+    selectedWallet = getSelectedWallet();
+  }
+  const walletPath = selectedWallet === EAccount.name ? '' : `${selectedWallet}/`;
+  return lm.setBaseStoragePath(`${RNFS.DocumentDirectoryPath}/ldk/${walletPath}`);
+};
+
+/**
+ * Returns the keychain service and LDK account name for the wallet on the given network.
+ * The first wallet keeps the original name so existing nodes find their channels.
+ * @param {TWalletName} [selectedWallet]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {string}
+ */
+export const getLdkAccountName = ({
+  selectedWallet,
+  selectedNetwork,
+}: {
+  selectedWallet?: TWalletName;
+  selectedNetwork?: TAvailableNetworks;
+} = {}): string => {
+  if (!selectedWallet) {
+    selectedWallet = getSelectedWallet();
+  }
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const walletPrefix = selectedWallet === EAccount.name ? '' : selectedWallet;
+  return `${walletPrefix}${selectedNetwork}${LDK_ACCOUNT_SUFFIX}`;
+};
 
 /**
  * Get onchain mnemonic phrase for a given wallet from storage.
@@ -223,95 +271,14 @@ export const createLightningInvoice = async ({
   // add invoice to store
   store.dispatch.lightning.addInvoice(invoice.value);
 
-  if (!hasOpenLightningChannels()) {
-    // @todo: implement JIT at this point.
-    // get the generated invoice, send it to LSP
-    // calculate fees
-    // return wrapped invoice + fees
-    // dispath action to add invoice to state object
-    Logger.info('No open lightning channels found');
-    await fetch(VOLTAGE_LSP_API_TESTNET, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        bolt11: invoice.value.to_str,
-      }),
-    })
-      .then((response) => {
-        if (response.ok) {
-          return response.json();
-        } else {
-          // Handle error response
-          throw new Error('The LSP is unavailable to fulfill this order');
-        }
-      })
-      .then((data) => {
-        // update the invoice in state object's to_str value with data.jit_bolt11;
-        const payload = {
-          payment_hash: invoice.value.payment_hash,
-          modified_request: data.jit_bolt11,
-        };
-        console.log('payload: ', payload);
-        try {
-          store.dispatch.lightning.updateInvoice(payload);
-        } catch (e) {
-          showWarningBanner({
-            message: e.message,
-          });
-        }
-      })
-      .catch((error) => {
-        showWarningBanner({
-          title: "There's a problem!",
-          message: error.message,
-        });
-      });
-  } else if (hasOpenLightningChannels() && !hasEnoughRemoteBalance({ amountSats })) {
-    Logger.info('Found open lightning channels but remote balance too low to receive');
-    // also has open channels, check if remoteBalance can handle amount requested,
-    // if yes, generate normal invoice and return
-    // if no, generate normal invoice, send to LSP, calculate fees and return wrapped invoice + fees
-    // dispath action to add invoice to state object
-    await fetch(VOLTAGE_LSP_API_TESTNET, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        bolt11: invoice.value.to_str,
-      }),
-    })
-      .then((response) => {
-        if (response.ok) {
-          return response.json();
-        } else {
-          // Handle error response
-          throw new Error('The LSP is unavailable to fulfill this order');
-        }
-      })
-      .then((data) => {
-        // update the invoice in state object's to_str value with data.jit_bolt11;
-        const payload = {
-          payment_hash: invoice.value.payment_hash,
-          modified_request: data.jit_bolt11,
-        };
-        console.log('payload: ', payload);
-        try {
-          store.dispatch.lightning.updateInvoice(payload);
-        } catch (e) {
-          showWarningBanner({
-            message: e.message,
-          });
-        }
-      })
-      .catch((error) => {
-        showWarningBanner({
-          title: "There's a problem!",
-          message: error.message,
-        });
-      });
+  if (!hasOpenLightningChannels() || !hasEnoughRemoteBalance({ amountSats })) {
+    Logger.info(
+      hasOpenLightningChannels()
+        ? 'Found open lightning channels but remote balance too low to receive'
+        : 'No open lightning channels found'
+    );
+    // send the generated invoice to the LSP and keep its wrapped version in the store
+    await wrapInvoiceWithLsp({ invoice: invoice.value, selectedNetwork });
   } else {
     Logger.info('Got open channels and enough inbound liquidity to receive this amount');
   }
@@ -319,13 +286,58 @@ export const createLightningInvoice = async ({
   return ok(invoice.value);
 };
 
+/**
+ * Wraps an invoice with the selected LSP so that paying it opens a JIT channel.
+ * The stored invoice is updated with the wrapped payment request.
+ * @param {TInvoice} invoice
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<string>>}
+ */
+export const wrapInvoiceWithLsp = async ({
+  invoice,
+  selectedNetwork,
+}: {
+  invoice: TInvoice;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  const lsp = getLspProvider({ selectedNetwork });
+  if (lsp.isErr()) {
+    showWarningBanner({
+      title: "There's a problem!",
+      message: lsp.error.message,
+    });
+    return err(lsp.error.message);
+  }
+
+  const wrappedInvoice = await lsp.value.wrapInvoice(invoice.to_str);
+  if (wrappedInvoice.isErr()) {
+    showWarningBanner({
+      title: "There's a problem!",
+      message: wrappedInvoice.error.message,
+    });
+    return err(wrappedInvoice.error.message);
+  }
+
+  // update the invoice in state object's to_str value with the wrapped invoice
+  store.dispatch.lightning.updateInvoice({
+    payment_hash: invoice.payment_hash,
+    modified_request: wrappedInvoice.value,
+  });
+
+  return ok(wrappedInvoice.value);
+};
+
 /**
  * Attempts to pay a bolt11 invoice.
  * @param {string} paymentRequest
+ * @param {number} [amountSats] required when paying a zero-amount invoice
+ * @param {string} [note] saved alongside the payment
  * @returns {Promise<Result<string>>}
  */
 export const payInvoice = async (
-  paymentRequest: string
+  paymentRequest: string,
+  amountSats?: number,
+  note?: string
 ): Promise<Result<TChannelManagerPaymentSent>> => {
   try {
     const addPeersResponse = await addPeers();
@@ -339,8 +351,15 @@ export const payInvoice = async (
       return err(decodedInvoice.error.message);
     }
 
+    // amountless invoices are paid with the amount chosen by the user
+    const isZeroAmountInvoice = !decodedInvoice.value.amount_satoshis;
+    if (isZeroAmountInvoice && !amountSats) {
+      return err('invoice_payment_fail_must_specify_amount');
+    }
+
     const payResponse = await lm.payWithTimeout({
       paymentRequest: paymentRequest,
+      amountSats: isZeroAmountInvoice ? amountSats : undefined,
       timeout: 60000,
     });
     if (payResponse.isErr()) {
@@ -348,7 +367,10 @@ export const payInvoice = async (
     }
     // Log payment in state once successful
     const addLightningPaymentResponse = addPayment({
-      invoice: decodedInvoice.value,
+      invoice: isZeroAmountInvoice
+        ? { ...decodedInvoice.value, amount_satoshis: amountSats }
+        : decodedInvoice.value,
+      note,
     });
     if (addLightningPaymentResponse.isErr()) {
       return err(addLightningPaymentResponse.error.message);
@@ -526,7 +548,6 @@ export const removeExpiredInvoices = async (): Promise<Result<string>> => {
   return ok('');
 };
 export const startLightning = async ({
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   restore = false,
   selectedNetwork,
 }: {
@@ -540,24 +561,22 @@ export const startLightning = async ({
     if (!selectedNetwork) {
       selectedNetwork = getSelectedNetwork();
     }
-    let isConnectedToElectrum = false;
+    let isConnectedToChainSource = false;
 
     store.dispatch.lightning.setLdkState(NodeState.START);
 
-    // connect to electrum
-    const electrumResponse = await connectToElectrum({
+    // connect to the chain source selected in settings
+    const chainSourceResponse = await connectToChainSource({
       selectedNetwork,
-    });
-    if (electrumResponse.isOk()) {
-      isConnectedToElectrum = true;
       // Ensure the on-chain wallet & LDK syncs when a new block is detected.
-      const onReceive = (): void => {
+      onBlock: (): void => {
         refreshWallet({
           selectedNetwork,
         });
-      };
-      // Ensure we are subscribed to and save new header information.
-      subscribeToHeader({ selectedNetwork, onReceive }).then();
+      },
+    });
+    if (chainSourceResponse.isOk()) {
+      isConnectedToChainSource = true;
     }
 
     const mnemonicResponse = await getMnemonicPhrase();
@@ -577,21 +596,48 @@ export const startLightning = async ({
     }
 
     store.dispatch.lightning.setLdkState(NodeState.START);
+    subscribeToMetadataBackups({ selectedNetwork });
+
+    if (restore) {
+      // derive the LDK account from the restored mnemonic, replacing any left by a previous install
+      const name = getLdkAccountName({ selectedNetwork });
+      const bip39Passphrase = await getBip39Passphrase();
+      await setLdkAccount(_getDefaultAccount(name, mnemonic, bip39Passphrase));
+    }
 
     // Setup LDK
-    if (isConnectedToElectrum) {
+    if (isConnectedToChainSource) {
       const setupResponse = await setupLdk({
         selectedNetwork,
         shouldRefreshLdk: false,
+        restore,
       });
       if (setupResponse.isOk()) {
         keepLdkSynced({ selectedNetwork }).then();
+      } else if (restore) {
+        // retrying without the restored channel state would replace the backup with an empty one
+        store.dispatch.lightning.setLdkState(NodeState.ERROR);
+        return err(setupResponse.error.message);
+      }
+    }
+
+    // if we restore wallet, we need to find the used addresses of all types
+    if (restore) {
+      // without them the restored balance would look empty, so let the restore screen retry
+      if (!isConnectedToChainSource) {
+        store.dispatch.lightning.setLdkState(NodeState.ERROR);
+        return err('Unable to connect to the chain source to find your addresses.');
+      }
+      const discoverResponse = await discoverAddresses({ selectedNetwork });
+      if (discoverResponse.isErr()) {
+        Logger.error(TAG, 'Unable to discover addresses', discoverResponse.error);
+        store.dispatch.lightning.setLdkState(NodeState.ERROR);
+        return err(discoverResponse.error.message);
       }
     }
 
     await Promise.all([
       updateFeeEstimates({ selectedNetwork, forceUpdate: true }),
-      // if we restore wallet, we need to generate addresses for all types
       refreshWallet(),
 
       // update channels
@@ -627,8 +673,7 @@ export const startLightning = async ({
 export const setLdkAccount = async ({ name, seed }: TAccount): Promise<boolean> => {
   try {
     if (!name) {
-      name = getSelectedNetwork();
-      name = `${name}${LDK_ACCOUNT_SUFFIX}`;
+      name = getLdkAccountName();
     }
     const account: TAccount = {
       name,
@@ -662,14 +707,15 @@ export const getLdkAccount = async ({
   if (mnemonicPhrase.isErr()) {
     return err(mnemonicPhrase.error.message);
   }
-  const name = `${selectedNetwork}${LDK_ACCOUNT_SUFFIX}`;
+  const name = getLdkAccountName({ selectedNetwork });
+  const bip39Passphrase = await getBip39Passphrase();
   try {
     const result = await Keychain.getGenericPassword({ service: name });
     if (!!result && result?.password) {
       // Return existing account.
       return ok(JSON.parse(result?.password));
     } else {
-      const defaultAccount = _getDefaultAccount(name, mnemonicPhrase.value);
+      const defaultAccount = _getDefaultAccount(name, mnemonicPhrase.value, bip39Passphrase);
       // Setup default account.
       const setAccountResponse = await setLdkAccount(defaultAccount);
       if (setAccountResponse) {
@@ -680,13 +726,17 @@ export const getLdkAccount = async ({
     }
   } catch (e) {
     console.log(e);
-    const defaultAccount = _getDefaultAccount(name, mnemonicPhrase.value);
+    const defaultAccount = _getDefaultAccount(name, mnemonicPhrase.value, bip39Passphrase);
     return ok(defaultAccount);
   }
 };
-const _getDefaultAccount = (name: string, mnemonic: string): TAccount => {
+const _getDefaultAccount = (name: string, mnemonic: string, bip39Passphrase = ''): TAccount => {
+  // wallets without a passphrase keep the seed their node was first created with
+  const ldkSeedSource = bip39Passphrase
+    ? bip39.mnemonicToSeedSync(mnemonic, bip39Passphrase)
+    : mnemonic;
   // @ts-ignore
-  const ldkSeed = bitcoin.crypto.sha256(mnemonic).toString('hex');
+  const ldkSeed = bitcoin.crypto.sha256(ldkSeedSource).toString('hex');
   return {
     name,
     seed: ldkSeed,
@@ -727,11 +777,117 @@ export const updateLightningChannels = async (): Promise<Result<TChannel[]>> =>
     openChannelIds,
   };
 
+  // channels LDK no longer knows about have been closed since the last update
+  const closedChannelIds = getLightningStore().openChannelIds.filter(
+    (channelId) => !channels[channelId]
+  );
+  if (closedChannelIds.length) {
+    store.dispatch.lightning.closeChannels({ channelIds: closedChannelIds });
+  }
+
   // update channels and openChannelIDs object in lightning store
   store.dispatch.lightning.updateChannels(payload);
   return ok(lightningChannels.value);
 };
 
+/**
+ * Maps a channel onto the balances the user cares about.
+ * @param {TChannel} channel
+ * @returns {TUseChannelBalance}
+ */
+export const getChannelBalance = (channel: TChannel): TUseChannelBalance => {
+  return {
+    spendingTotal: channel.balance_sat,
+    spendingAvailable: channel.outbound_capacity_sat,
+    receivingTotal: channel.channel_value_satoshis - channel.balance_sat,
+    receivingAvailable: channel.inbound_capacity_sat,
+    capacity: channel.channel_value_satoshis,
+  };
+};
+
+/**
+ * Returns a human readable name for a channel counterparty.
+ * Known liquidity providers and contacts are named, otherwise the node id is shortened.
+ * @param {string} nodeId
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {string}
+ */
+export const getChannelAlias = ({
+  nodeId,
+  selectedNetwork,
+}: {
+  nodeId: string;
+  selectedNetwork?: TAvailableNetworks;
+}): string => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const lsp = getLspProviders(selectedNetwork).find((provider) => provider.pubkey === nodeId);
+  if (lsp) {
+    return lsp.name;
+  }
+  const contact = getLightningStore().contacts.find((c) =>
+    c.identifiers?.some((identifier) => identifier.address.includes(nodeId))
+  );
+  if (contact?.alias) {
+    return contact.alias;
+  }
+  return `${nodeId.slice(0, 8)}...${nodeId.slice(-8)}`;
+};
+
+/**
+ * Returns the number of confirmations of a channel's funding transaction.
+ * @param {TChannel} channel
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<number>>}
+ */
+export const getChannelConfirmations = async ({
+  channel,
+  selectedNetwork,
+}: {
+  channel: TChannel;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<number>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (!channel.funding_txid) {
+    return err('This channel has no funding transaction yet.');
+  }
+  const transactionData = await _getTransactionData(channel.funding_txid, selectedNetwork);
+  if (!transactionData.height) {
+    return ok(0);
+  }
+  const currentHeight = store.getState().wallet.header.height;
+  return ok(Math.max(currentHeight - transactionData.height + 1, 0));
+};
+
+/**
+ * Closes a channel. Cooperative closes need the counterparty online, force closes
+ * broadcast our latest commitment and lock our funds until the spend delay passes.
+ * @param {TChannel} channel
+ * @param {boolean} [force]
+ * @returns {Promise<Result<string>>}
+ */
+export const closeLightningChannel = async ({
+  channel,
+  force = false,
+}: {
+  channel: TChannel;
+  force?: boolean;
+}): Promise<Result<string>> => {
+  const closeRes = await ldk.closeChannel({
+    channelId: channel.channel_id,
+    counterPartyNodeId: channel.counterparty_node_id,
+    force,
+  });
+  if (closeRes.isErr()) {
+    return err(closeRes.error.message);
+  }
+  await Promise.all([updateLightningChannels(), updateClaimableBalance({})]);
+  return ok(closeRes.value);
+};
+
 /**
  * Retrieves the total wallet display values for the currently selected network.
  * @param {boolean} [subtractReserveBalance]
@@ -872,17 +1028,39 @@ export const removeInvoice = async ({
   return ok('Successfully removed lightning invoice.');
 };
 
+/**
+ * Stops tracking an LNURL-withdraw once its invoice has been claimed.
+ * @param {string} paymentHash
+ * @returns {Result<string>}
+ */
+export const removePendingWithdrawal = ({
+  paymentHash,
+}: {
+  paymentHash: string;
+}): Result<string> => {
+  if (!paymentHash) {
+    return err('No payment hash provided.');
+  }
+
+  store.dispatch.lightning.removePendingWithdrawal(paymentHash);
+
+  return ok('Successfully removed pending withdrawal.');
+};
+
 /**
  * Adds a paid lightning invoice to the payments object for future reference.
  * @param {TInvoice} invoice
+ * @param {string} [note]
  * @param {TAvailableNetworks} [selectedNetwork]
  * @returns {Result<string>}
  */
 export const addPayment = ({
   invoice,
+  note,
   selectedNetwork,
 }: {
   invoice: TInvoice;
+  note?: string;
   selectedNetwork?: TAvailableNetworks;
 }): Result<string> => {
   if (!invoice) {
@@ -904,6 +1082,7 @@ export const addPayment = ({
   const payload = {
     invoice: invoice,
     type: invoice.payee_pub_key === nodeId ? EPaymentType.sent : EPaymentType.received,
+    note,
   };
   // add payment to store once confirmed
   store.dispatch.lightning.addPayment(payload);
@@ -0,0 +1,358 @@
+import { bech32 } from 'bech32';
+import * as bitcoin from 'bitcoinjs-lib';
+import { TInvoice } from '@synonymdev/react-native-ldk';
+import ldk from '@synonymdev/react-native-ldk/dist/ldk';
+import { Result, err, ok } from '../result';
+import { TLnurlParams, TLnurlPayMetadata, TLnurlPayParams, TLnurlWithdrawParams } from '../types';
+import store from '../../state/store';
+import { TAvailableNetworks } from '../networks';
+import { getSelectedNetwork } from '../wallet';
+import { createLightningInvoice, getLightningStore } from './helpers';
+
+const LNURL_BECH32_PREFIX = 'lnurl';
+// bech32 encoded LNURLs regularly exceed the default 90 character limit
+const LNURL_MAX_LENGTH = 2000;
+// bolt11 signatures occupy the last 104 five-bit words of the data part
+const BOLT11_SIGNATURE_WORDS = 104;
+// bolt11 timestamps occupy the first 7 five-bit words of the data part
+const BOLT11_TIMESTAMP_WORDS = 7;
+// tagged field type for the sha256 description hash (`h`)
+const BOLT11_DESCRIPTION_HASH_TAG = 23;
+
+const LIGHTNING_ADDRESS_REGEX = /^[a-z0-9-_.+]+@[a-z0-9-.]+\.[a-z]{2,}$/i;
+
+// LUD-17 schemes that map directly onto a url
+const LUD17_SCHEMES = ['lnurlp://', 'lnurlw://', 'lnurlc://', 'keyauth://'];
+
+/**
+ * Returns whether the provided string is a Lightning Address (LUD-16). Ex: satoshi@ettawallet.app
+ * @param {string} address
+ * @returns {boolean}
+ */
+export const isLightningAddress = (address: string): boolean => {
+  return LIGHTNING_ADDRESS_REGEX.test(address.trim());
+};
+
+/**
+ * Returns whether the provided string is a bech32 encoded LNURL or a LUD-17 url.
+ * @param {string} data
+ * @returns {boolean}
+ */
+export const isLnurl = (data: string): boolean => {
+  const lowerCaseData = data.trim().toLowerCase();
+  return (
+    lowerCaseData.startsWith(LNURL_BECH32_PREFIX) ||
+    LUD17_SCHEMES.some((scheme) => lowerCaseData.startsWith(scheme))
+  );
+};
+
+/**
+ * Decodes a bech32 encoded LNURL (LUD-01) or a LUD-17 url into a plain url.
+ * @param {string} lnurl
+ * @returns {Result<string>}
+ */
+export const decodeLnurl = (lnurl: string): Result<string> => {
+  try {
+    const lowerCaseLnurl = lnurl
+      .replace(/^lightning:/i, '')
+      .trim()
+      .toLowerCase();
+
+    const lud17Scheme = LUD17_SCHEMES.find((scheme) => lowerCaseLnurl.startsWith(scheme));
+    if (lud17Scheme) {
+      const protocol = lowerCaseLnurl.includes('.onion') ? 'http://' : 'https://';
+      return ok(lnurl.trim().replace(new RegExp(`^${lud17Scheme}`, 'i'), protocol));
+    }
+
+    const { prefix, words } = bech32.decode(lowerCaseLnurl, LNURL_MAX_LENGTH);
+    if (prefix !== LNURL_BECH32_PREFIX) {
+      return err('Invalid LNURL prefix.');
+    }
+    const url = Buffer.from(bech32.fromWords(words)).toString('utf8');
+    return ok(url);
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the well-known LNURL-pay url for a given Lightning Address (LUD-16).
+ * @param {string} address
+ * @returns {Result<string>}
+ */
+export const getLightningAddressUrl = (address: string): Result<string> => {
+  if (!isLightningAddress(address)) {
+    return err('Invalid lightning address.');
+  }
+  const [username, domain] = address.trim().toLowerCase().split('@');
+  const protocol = domain.endsWith('.onion') ? 'http' : 'https';
+  return ok(`${protocol}://${domain}/.well-known/lnurlp/${username}`);
+};
+
+/**
+ * Fetches and validates the parameters served by an LNURL service.
+ * @param {string} url
+ * @returns {Promise<Result<TLnurlParams>>}
+ */
+export const getLnurlParams = async (url: string): Promise<Result<TLnurlParams>> => {
+  try {
+    const domain = url.replace(/^https?:\/\//, '').split(/[/?#]/)[0];
+    const response = await fetch(url);
+    if (!response.ok) {
+      return err(`The LNURL service at ${domain} is unavailable.`);
+    }
+    const data = await response.json();
+    if (data?.status === 'ERROR') {
+      return err(data.reason ?? `The LNURL service at ${domain} returned an error.`);
+    }
+
+    switch (data?.tag) {
+      case 'payRequest': {
+        if (!data.callback || !data.metadata) {
+          return err('Invalid LNURL-pay response.');
+        }
+        const minSendable = Number(data.minSendable);
+        const maxSendable = Number(data.maxSendable);
+        if (!(minSendable > 0) || !(maxSendable >= minSendable)) {
+          return err('Invalid LNURL-pay sendable range.');
+        }
+        return ok({
+          tag: 'payRequest',
+          callback: data.callback,
+          minSendable,
+          maxSendable,
+          metadata: data.metadata,
+          commentAllowed: Number(data.commentAllowed ?? 0),
+          domain,
+        });
+      }
+      case 'withdrawRequest': {
+        if (!data.callback || !data.k1) {
+          return err('Invalid LNURL-withdraw response.');
+        }
+        const minWithdrawable = Number(data.minWithdrawable ?? 0);
+        const maxWithdrawable = Number(data.maxWithdrawable);
+        if (!(maxWithdrawable > 0) || maxWithdrawable < minWithdrawable) {
+          return err('Invalid LNURL-withdraw range.');
+        }
+        return ok({
+          tag: 'withdrawRequest',
+          callback: data.callback,
+          k1: data.k1,
+          minWithdrawable,
+          maxWithdrawable,
+          defaultDescription: data.defaultDescription ?? '',
+          domain,
+        });
+      }
+      default:
+        return err(`Unsupported LNURL type: ${data?.tag}`);
+    }
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Parses the stringified metadata array of an LNURL-pay request (LUD-06).
+ * @param {string} metadata
+ * @returns {TLnurlPayMetadata}
+ */
+export const parseLnurlPayMetadata = (metadata: string): TLnurlPayMetadata => {
+  const parsed: TLnurlPayMetadata = { description: '' };
+  try {
+    const entries: [string, string][] = JSON.parse(metadata);
+    entries.forEach(([mimeType, value]) => {
+      switch (mimeType) {
+        case 'text/plain':
+          parsed.description = value;
+          break;
+        case 'text/long-desc':
+          parsed.longDescription = value;
+          break;
+        case 'text/identifier':
+        case 'text/email':
+          parsed.identifier = value;
+          break;
+        case 'image/png;base64':
+        case 'image/jpeg;base64':
+          parsed.image = `data:${mimeType},${value}`;
+          break;
+      }
+    });
+  } catch {
+    // malformed metadata only leaves the description empty
+  }
+  return parsed;
+};
+
+/**
+ * Extracts the description hash (`h` tagged field) from a bolt11 payment request.
+ * LDK's decoder does not expose it, so the tagged fields are walked manually.
+ * @param {string} paymentRequest
+ * @returns {string | undefined}
+ */
+export const getInvoiceDescriptionHash = (paymentRequest: string): string | undefined => {
+  try {
+    const { words } = bech32.decode(
+      paymentRequest.replace(/^lightning:/i, '').toLowerCase(),
+      Number.MAX_SAFE_INTEGER
+    );
+    const fields = words.slice(BOLT11_TIMESTAMP_WORDS, words.length - BOLT11_SIGNATURE_WORDS);
+    let position = 0;
+    while (position + 3 <= fields.length) {
+      const tag = fields[position];
+      const length = fields[position + 1] * 32 + fields[position + 2];
+      const data = fields.slice(position + 3, position + 3 + length);
+      if (tag === BOLT11_DESCRIPTION_HASH_TAG) {
+        return Buffer.from(bech32.fromWordsUnsafe(data) ?? []).toString('hex');
+      }
+      position += 3 + length;
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Requests a bolt11 invoice from an LNURL-pay callback and verifies it against
+ * the amount requested and the metadata the user was shown (LUD-06).
+ * @param {TLnurlPayParams} params
+ * @param {number} amountSats
+ * @param {string} [comment]
+ * @returns {Promise<Result<TInvoice>>}
+ */
+export const fetchLnurlPayInvoice = async ({
+  params,
+  amountSats,
+  comment,
+}: {
+  params: TLnurlPayParams;
+  amountSats: number;
+  comment?: string;
+}): Promise<Result<TInvoice>> => {
+  try {
+    const amountMsats = amountSats * 1000;
+    if (amountMsats < params.minSendable || amountMsats > params.maxSendable) {
+      return err(
+        `Amount must be between ${Math.ceil(params.minSendable / 1000)} and ${Math.floor(
+          params.maxSendable / 1000
+        )} sats.`
+      );
+    }
+
+    const separator = params.callback.includes('?') ? '&' : '?';
+    let callbackUrl = `${params.callback}${separator}amount=${amountMsats}`;
+    if (comment && params.commentAllowed) {
+      const trimmedComment = comment.slice(0, params.commentAllowed);
+      callbackUrl += `&comment=${encodeURIComponent(trimmedComment)}`;
+    }
+
+    const response = await fetch(callbackUrl);
+    if (!response.ok) {
+      return err(`${params.domain} could not create an invoice at this time.`);
+    }
+    const data = await response.json();
+    if (data?.status === 'ERROR') {
+      return err(data.reason ?? `${params.domain} could not create an invoice.`);
+    }
+    if (!data?.pr) {
+      return err(`${params.domain} did not return an invoice.`);
+    }
+
+    const decodedInvoice = await ldk.decode({ paymentRequest: data.pr });
+    if (decodedInvoice.isErr()) {
+      return err(decodedInvoice.error.message);
+    }
+
+    if (decodedInvoice.value.amount_satoshis !== amountSats) {
+      return err('The invoice amount does not match the amount requested.');
+    }
+
+    const expectedHash = bitcoin.crypto
+      .sha256(Buffer.from(params.metadata, 'utf8'))
+      .toString('hex');
+    const descriptionHash = getInvoiceDescriptionHash(data.pr);
+    if (descriptionHash !== expectedHash) {
+      return err('The invoice description hash does not match the payment metadata.');
+    }
+
+    return ok(decodedInvoice.value);
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Creates an invoice within the bounds of an LNURL-withdraw request (LUD-03), submits it
+ * to the service's callback and tracks it as a pending withdrawal until the claim arrives.
+ * @param {TLnurlWithdrawParams} params
+ * @param {number} [amountSats] defaults to the maximum withdrawable amount
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TInvoice>>}
+ */
+export const withdrawFromLnurl = async ({
+  params,
+  amountSats,
+  selectedNetwork,
+}: {
+  params: TLnurlWithdrawParams;
+  amountSats?: number;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TInvoice>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    const minWithdrawable = Math.ceil(params.minWithdrawable / 1000);
+    const maxWithdrawable = Math.floor(params.maxWithdrawable / 1000);
+    if (amountSats === undefined) {
+      amountSats = maxWithdrawable;
+    }
+    if (amountSats < minWithdrawable || amountSats > maxWithdrawable) {
+      return err(`Amount must be between ${minWithdrawable} and ${maxWithdrawable} sats.`);
+    }
+
+    const invoiceRes = await createLightningInvoice({
+      amountSats,
+      description: params.defaultDescription,
+      expiryDeltaSeconds: 3600,
+      selectedNetwork,
+    });
+    if (invoiceRes.isErr()) {
+      return err(invoiceRes.error.message);
+    }
+    const invoice = invoiceRes.value;
+
+    // the LSP may have wrapped the invoice, in which case the stored copy carries the new request
+    const storedInvoice = getLightningStore().invoices.find(
+      (inv) => inv.payment_hash === invoice.payment_hash
+    );
+    const paymentRequest = storedInvoice?.to_str ?? invoice.to_str;
+
+    const separator = params.callback.includes('?') ? '&' : '?';
+    const callbackUrl = `${params.callback}${separator}k1=${encodeURIComponent(
+      params.k1
+    )}&pr=${paymentRequest}`;
+    const response = await fetch(callbackUrl);
+    if (!response.ok) {
+      return err(`${params.domain} is unable to process this withdrawal at this time.`);
+    }
+    const data = await response.json();
+    if (data?.status === 'ERROR') {
+      return err(data.reason ?? `${params.domain} rejected the withdrawal.`);
+    }
+
+    store.dispatch.lightning.addPendingWithdrawal({
+      paymentHash: invoice.payment_hash,
+      domain: params.domain,
+      amountSats,
+      timestamp: Date.now(),
+    });
+
+    return ok(invoice);
+  } catch (e) {
+    return err(e);
+  }
+};
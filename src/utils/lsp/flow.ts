@@ -0,0 +1,79 @@
+import { err, ok } from '../result';
+import { LspProvider } from '../types';
+
+/**
+ * Returns the JIT channel methods of an LSP running the Flow api, as Voltage and Olympus do.
+ * @param {string} proposalUrl
+ * @param {string} feeUrl
+ * @param {string} infoUrl
+ * @param {string} pubkey
+ * @returns {Pick<LspProvider, 'getFeeQuote' | 'wrapInvoice' | 'getStatus'>}
+ */
+export const createFlowLsp = ({
+  proposalUrl,
+  feeUrl,
+  infoUrl,
+  pubkey,
+}: {
+  proposalUrl: string;
+  feeUrl: string;
+  infoUrl: string;
+  pubkey: string;
+}): Pick<LspProvider, 'getFeeQuote' | 'wrapInvoice' | 'getStatus'> => ({
+  getFeeQuote: async (amountSats) => {
+    try {
+      const response = await fetch(feeUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount_msat: amountSats * 1000, // get amount in msats
+          pubkey,
+        }),
+      });
+      if (!response.ok) {
+        return err('The LSP is unable to estimate fees at this time');
+      }
+      const data: { fee_amount_msat: number } = await response.json();
+      return ok(data.fee_amount_msat / 1000); // get fee in sats from msats
+    } catch (e) {
+      return err(e);
+    }
+  },
+  wrapInvoice: async (bolt11) => {
+    try {
+      const response = await fetch(proposalUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          bolt11,
+        }),
+      });
+      if (!response.ok) {
+        return err('The LSP is unavailable to fulfill this order');
+      }
+      const data: { jit_bolt11?: string } = await response.json();
+      if (!data?.jit_bolt11) {
+        return err('The LSP did not return a wrapped invoice');
+      }
+      return ok(data.jit_bolt11);
+    } catch (e) {
+      return err(e);
+    }
+  },
+  getStatus: async () => {
+    try {
+      const response = await fetch(infoUrl);
+      if (!response.ok) {
+        return ok({ online: false, pubkey, message: response.statusText });
+      }
+      const data: { pubkey?: string } = await response.json();
+      return ok({ online: true, pubkey: data?.pubkey ?? pubkey });
+    } catch (e) {
+      return err(e);
+    }
+  },
+});
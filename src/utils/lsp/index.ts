@@ -0,0 +1,76 @@
+import { TAvailableNetworks } from '../networks';
+import { Result, err, ok } from '../result';
+import { IWalletItem, LspProvider } from '../types';
+import { getSelectedNetwork } from '../wallet';
+import store from '../../state/store';
+import { mockLsp } from './mock';
+import { olympusLsp, olympusTestnetLsp } from './olympus';
+import { voltageLsp } from './voltage';
+
+/**
+ * Providers available on each network, the first one being the default.
+ */
+export const lspProviders: IWalletItem<LspProvider[]> = {
+  bitcoin: [olympusLsp],
+  bitcoinTestnet: [voltageLsp, olympusTestnetLsp, mockLsp],
+  bitcoinRegtest: [mockLsp],
+};
+
+/**
+ * Returns the providers registered for the selected network.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {LspProvider[]}
+ */
+export const getLspProviders = (selectedNetwork?: TAvailableNetworks): LspProvider[] => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  return lspProviders[selectedNetwork];
+};
+
+/**
+ * Returns the provider chosen in settings, falling back to the network default.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<LspProvider>}
+ */
+export const getLspProvider = ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+}): Result<LspProvider> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const providers = getLspProviders(selectedNetwork);
+  if (!providers.length) {
+    return err(`No LSP available on ${selectedNetwork}.`);
+  }
+  const selectedId = store.getState().settings.selectedLspProvider[selectedNetwork];
+  const provider = providers.find((p) => p.id === selectedId) ?? providers[0];
+  return ok(provider);
+};
+
+/**
+ * Returns the provider to buy channels up front from: the one chosen in settings
+ * when it sells them, otherwise the first provider on the network that does.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<LspProvider>}
+ */
+export const getLsps1Provider = ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+}): Result<LspProvider> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const selected = getLspProvider({ selectedNetwork });
+  if (selected.isOk() && selected.value.lsps1) {
+    return ok(selected.value);
+  }
+  const provider = getLspProviders(selectedNetwork).find((p) => p.lsps1);
+  if (!provider) {
+    return err(`No provider sells channels up front on ${selectedNetwork}.`);
+  }
+  return ok(provider);
+};
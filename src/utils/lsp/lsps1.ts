@@ -0,0 +1,138 @@
+import { Result, err, ok } from '../result';
+import { ELsps1OrderState, ELsps1PaymentState, ILsps1Client, TLsps1Order } from '../types';
+
+// channel lifetimes are expressed in blocks, roughly 144 a day
+export const BLOCKS_PER_MONTH = 4320;
+
+// LSPS1 amounts are sat strings, as json numbers can't hold them safely
+type TLsps1InfoOptions = {
+  min_initial_lsp_balance_sat?: string;
+  max_initial_lsp_balance_sat?: string;
+  min_channel_expiry_blocks?: number;
+  max_channel_expiry_blocks?: number;
+};
+
+// older revisions of the spec nest the limits under options
+type TLsps1InfoResponse = TLsps1InfoOptions & {
+  uris?: string[];
+  options?: TLsps1InfoOptions;
+};
+
+type TLsps1OrderResponse = {
+  order_id: string;
+  lsp_balance_sat: string;
+  channel_expiry_blocks: number;
+  order_state: ELsps1OrderState;
+  created_at: string;
+  payment?: {
+    bolt11?: {
+      state: ELsps1PaymentState;
+      invoice: string;
+      fee_total_sat: string;
+      order_total_sat: string;
+      expires_at: string;
+    };
+  };
+};
+
+/**
+ * Maps an LSPS1 order response onto the order shape we persist.
+ * @param {TLsps1OrderResponse} data
+ * @param {string} providerId
+ * @param {string} lspPubkey
+ * @returns {TLsps1Order}
+ */
+const formatOrder = (
+  data: TLsps1OrderResponse,
+  providerId: string,
+  lspPubkey: string
+): TLsps1Order => {
+  const bolt11 = data.payment?.bolt11;
+  return {
+    orderId: data.order_id,
+    providerId,
+    lspPubkey,
+    inboundSats: Number(data.lsp_balance_sat),
+    channelExpiryBlocks: Number(data.channel_expiry_blocks),
+    state: data.order_state,
+    paymentState: bolt11?.state ?? ELsps1PaymentState.expectPayment,
+    invoice: bolt11?.invoice ?? '',
+    feeSats: Number(bolt11?.fee_total_sat ?? 0),
+    totalSats: Number(bolt11?.order_total_sat ?? 0),
+    expiresAt: bolt11?.expires_at ?? '',
+    createdAt: Date.parse(data.created_at) || Date.now(),
+  };
+};
+
+/**
+ * Returns a client for an LSPS1 (bLIP-51) channel request api.
+ * @param {string} baseUrl
+ * @param {string} providerId
+ * @param {string} lspPubkey
+ * @returns {ILsps1Client}
+ */
+export const createLsps1Client = (
+  baseUrl: string,
+  providerId: string,
+  lspPubkey: string
+): ILsps1Client => {
+  const request = async <T>(path: string, body?: object): Promise<Result<T>> => {
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        return err(data?.message ?? 'The LSP is unable to process this order');
+      }
+      return ok(data);
+    } catch (e) {
+      return err(e);
+    }
+  };
+
+  return {
+    getInfo: async () => {
+      const res = await request<TLsps1InfoResponse>('/get_info');
+      if (res.isErr()) {
+        return err(res.error.message);
+      }
+      const options = res.value.options ?? res.value;
+      return ok({
+        minInboundSats: Number(options.min_initial_lsp_balance_sat ?? 0),
+        maxInboundSats: Number(options.max_initial_lsp_balance_sat ?? 0),
+        minChannelExpiryBlocks: Number(options.min_channel_expiry_blocks ?? 0),
+        maxChannelExpiryBlocks: Number(options.max_channel_expiry_blocks ?? 0),
+        uris: res.value.uris ?? [],
+      });
+    },
+    createOrder: async ({ inboundSats, channelExpiryBlocks, nodeId }) => {
+      const res = await request<TLsps1OrderResponse>('/create_order', {
+        public_key: nodeId,
+        lsp_balance_sat: `${inboundSats}`,
+        client_balance_sat: '0',
+        required_channel_confirmations: 0,
+        funding_confirms_within_blocks: 6,
+        channel_expiry_blocks: channelExpiryBlocks,
+        announce_channel: false,
+      });
+      if (res.isErr()) {
+        return err(res.error.message);
+      }
+      return ok(formatOrder(res.value, providerId, lspPubkey));
+    },
+    getOrder: async (orderId) => {
+      const res = await request<TLsps1OrderResponse>(
+        `/get_order?order_id=${encodeURIComponent(orderId)}`
+      );
+      if (res.isErr()) {
+        return err(res.error.message);
+      }
+      return ok(formatOrder(res.value, providerId, lspPubkey));
+    },
+  };
+};
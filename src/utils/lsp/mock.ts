@@ -0,0 +1,75 @@
+import { ok, err } from '../result';
+import { ELsps1OrderState, ELsps1PaymentState, LspProvider, TLsps1Order } from '../types';
+
+// flat 1% fee with a 1000 sats minimum, similar to most JIT providers
+const MOCK_FEE_RATE = 0.01;
+const MOCK_MIN_FEE = 1000;
+
+const getMockFee = (amountSats: number): number =>
+  Math.max(Math.ceil(amountSats * MOCK_FEE_RATE), MOCK_MIN_FEE);
+
+// orders only live for as long as the app is running
+const mockOrders: { [orderId: string]: TLsps1Order } = {};
+
+/**
+ * Local provider that never touches the network. Invoices are returned unwrapped
+ * and channel orders are settled on the next status check, which keeps regtest
+ * setups and tests deterministic.
+ */
+export const mockLsp: LspProvider = {
+  id: 'mock',
+  name: 'Local mock',
+  description: 'Returns invoices as is with a fixed fee quote. For testing only',
+  pubkey: '',
+  getFeeQuote: async (amountSats) => {
+    return ok(getMockFee(amountSats));
+  },
+  wrapInvoice: async (bolt11) => {
+    return ok(bolt11);
+  },
+  getStatus: async () => {
+    return ok({ online: true, pubkey: '', message: 'Mock provider' });
+  },
+  lsps1: {
+    getInfo: async () => {
+      return ok({
+        minInboundSats: 20000,
+        maxInboundSats: 10000000,
+        minChannelExpiryBlocks: 4320,
+        maxChannelExpiryBlocks: 51840,
+        uris: [],
+      });
+    },
+    createOrder: async ({ inboundSats, channelExpiryBlocks }) => {
+      const orderId = `mock-${Date.now()}`;
+      const feeSats = getMockFee(inboundSats);
+      mockOrders[orderId] = {
+        orderId,
+        providerId: 'mock',
+        lspPubkey: '',
+        inboundSats,
+        channelExpiryBlocks,
+        state: ELsps1OrderState.created,
+        paymentState: ELsps1PaymentState.expectPayment,
+        invoice: '',
+        feeSats,
+        totalSats: feeSats,
+        expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+        createdAt: Date.now(),
+      };
+      return ok(mockOrders[orderId]);
+    },
+    getOrder: async (orderId) => {
+      const order = mockOrders[orderId];
+      if (!order) {
+        return err('Unknown order.');
+      }
+      mockOrders[orderId] = {
+        ...order,
+        state: ELsps1OrderState.completed,
+        paymentState: ELsps1PaymentState.paid,
+      };
+      return ok(mockOrders[orderId]);
+    },
+  },
+};
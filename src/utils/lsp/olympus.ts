@@ -0,0 +1,43 @@
+import {
+  OLYMPUS_LSP_API,
+  OLYMPUS_LSP_API_TESTNET,
+  OLYMPUS_LSP_PUBKEY,
+  OLYMPUS_LSP_PUBKEY_TESTNET,
+  OLYMPUS_LSPS1_API,
+  OLYMPUS_LSPS1_API_TESTNET,
+} from '../../../config';
+import { LspProvider } from '../types';
+import { createFlowLsp } from './flow';
+import { createLsps1Client } from './lsps1';
+
+const OLYMPUS_LSP_ID = 'olympus';
+
+/**
+ * Returns the Olympus LSP by ZEUS for the given endpoints. It opens JIT channels
+ * over the Flow api and sells channels up front over LSPS1.
+ * @param {string} apiUrl
+ * @param {string} lsps1Url
+ * @param {string} pubkey
+ * @returns {LspProvider}
+ */
+const createOlympusLsp = (apiUrl: string, lsps1Url: string, pubkey: string): LspProvider => ({
+  id: OLYMPUS_LSP_ID,
+  name: 'Olympus',
+  description: 'Zero-conf channels opened just in time or bought up front from Olympus by ZEUS',
+  pubkey,
+  ...createFlowLsp({
+    proposalUrl: `${apiUrl}/proposal`,
+    feeUrl: `${apiUrl}/fee`,
+    infoUrl: `${apiUrl}/info`,
+    pubkey,
+  }),
+  lsps1: createLsps1Client(lsps1Url, OLYMPUS_LSP_ID, pubkey),
+});
+
+export const olympusLsp = createOlympusLsp(OLYMPUS_LSP_API, OLYMPUS_LSPS1_API, OLYMPUS_LSP_PUBKEY);
+
+export const olympusTestnetLsp = createOlympusLsp(
+  OLYMPUS_LSP_API_TESTNET,
+  OLYMPUS_LSPS1_API_TESTNET,
+  OLYMPUS_LSP_PUBKEY_TESTNET
+);
@@ -0,0 +1,130 @@
+import { TAvailableNetworks } from '../networks';
+import { Result, err, ok } from '../result';
+import { ELsps1OrderState, ELsps1PaymentState, TLsps1Order } from '../types';
+import { getSelectedNetwork } from '../wallet';
+import store from '../../state/store';
+import { addPeer, getLightningStore, savePeer } from '../lightning/helpers';
+import { getLspProviders, getLsps1Provider } from './index';
+
+/**
+ * Requests a quote for an inbound channel from the provider selling channels and tracks the order.
+ * Connects to the provider first, it can only open the channel to a connected peer.
+ * @param {number} inboundSats
+ * @param {number} channelExpiryBlocks
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TLsps1Order>>}
+ */
+export const createChannelOrder = async ({
+  inboundSats,
+  channelExpiryBlocks,
+  selectedNetwork,
+}: {
+  inboundSats: number;
+  channelExpiryBlocks: number;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TLsps1Order>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const lsp = getLsps1Provider({ selectedNetwork });
+  if (lsp.isErr()) {
+    return err(lsp.error.message);
+  }
+  const { lsps1 } = lsp.value;
+  if (!lsps1) {
+    return err(`${lsp.value.name} does not sell channels up front.`);
+  }
+  const nodeId = getLightningStore().nodeId;
+  if (!nodeId) {
+    return err('Unable to get node id.');
+  }
+
+  const info = await lsps1.getInfo();
+  if (info.isErr()) {
+    return err(info.error.message);
+  }
+  const peer = info.value.uris.find((uri) => !uri.includes('onion'));
+  if (peer) {
+    const addPeerRes = await addPeer({ peer, timeout: 5000 });
+    if (addPeerRes.isErr()) {
+      return err(`Unable to connect to ${lsp.value.name}.`);
+    }
+    savePeer({ selectedNetwork, peer });
+  }
+
+  const order = await lsps1.createOrder({ inboundSats, channelExpiryBlocks, nodeId });
+  if (order.isErr()) {
+    return err(order.error.message);
+  }
+  store.dispatch.lightning.addChannelOrder(order.value);
+  return ok(order.value);
+};
+
+/**
+ * Fetches the latest state of a tracked channel order from the provider it was placed with.
+ * @param {string} orderId
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TLsps1Order>>}
+ */
+export const refreshChannelOrder = async ({
+  orderId,
+  selectedNetwork,
+}: {
+  orderId: string;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TLsps1Order>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const trackedOrder = getLightningStore().channelOrders[orderId];
+  if (!trackedOrder) {
+    return err('Unable to find this channel order.');
+  }
+  const lsp = getLspProviders(selectedNetwork).find(
+    (provider) => provider.id === trackedOrder.providerId
+  );
+  if (!lsp?.lsps1) {
+    return err('The provider of this order is no longer available.');
+  }
+  const order = await lsp.lsps1.getOrder(orderId);
+  if (order.isErr()) {
+    return err(order.error.message);
+  }
+  // the channel id is only known locally once the channel is announced to us
+  const updatedOrder = {
+    ...order.value,
+    channelId: trackedOrder.channelId,
+    state: trackedOrder.channelId ? ELsps1OrderState.completed : order.value.state,
+  };
+  store.dispatch.lightning.updateChannelOrder(updatedOrder);
+  return ok(updatedOrder);
+};
+
+/**
+ * Marks paid orders from the channel's counterparty as completed once LDK reports the channel.
+ * @param {string} channelId
+ * @param {string} counterpartyNodeId
+ * @returns {TLsps1Order[]} the orders fulfilled by this channel
+ */
+export const completeChannelOrders = ({
+  channelId,
+  counterpartyNodeId,
+}: {
+  channelId: string;
+  counterpartyNodeId: string;
+}): TLsps1Order[] => {
+  const orders = Object.values(getLightningStore().channelOrders).filter(
+    (order) =>
+      order.state === ELsps1OrderState.created &&
+      order.paymentState !== ELsps1PaymentState.expectPayment &&
+      order.lspPubkey === counterpartyNodeId
+  );
+  orders.forEach((order) => {
+    store.dispatch.lightning.updateChannelOrder({
+      ...order,
+      channelId,
+      state: ELsps1OrderState.completed,
+    });
+  });
+  return orders;
+};
@@ -0,0 +1,24 @@
+import {
+  VOLTAGE_LSP_API_TESTNET,
+  VOLTAGE_LSP_FEE_ESTIMATE_API,
+  VOLTAGE_LSP_INFO_API,
+  VOLTAGE_LSP_PUBKEY,
+} from '../../../config';
+import { LspProvider } from '../types';
+import { createFlowLsp } from './flow';
+
+/**
+ * Voltage Flow LSP, currently only available on testnet.
+ */
+export const voltageLsp: LspProvider = {
+  id: 'voltage',
+  name: 'Voltage',
+  description: 'Zero-conf channels opened just in time by Voltage Flow',
+  pubkey: VOLTAGE_LSP_PUBKEY,
+  ...createFlowLsp({
+    proposalUrl: VOLTAGE_LSP_API_TESTNET,
+    feeUrl: VOLTAGE_LSP_FEE_ESTIMATE_API,
+    infoUrl: VOLTAGE_LSP_INFO_API,
+    pubkey: VOLTAGE_LSP_PUBKEY,
+  }),
+};
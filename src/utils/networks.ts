@@ -65,6 +65,13 @@ export const networks: INetworks = {
   },
 };
 
+// hash of block 0, used to check a server is on the expected network
+export const genesisHashes: Record<TAvailableNetworks, string> = {
+  bitcoin: '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f',
+  bitcoinTestnet: '000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943',
+  bitcoinRegtest: '0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206',
+};
+
 //Returns an array of all available networks from the networks object.
 export const availableNetworks = (): EAvailableNetworks[] => Object.values(EAvailableNetworks);
 
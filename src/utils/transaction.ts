@@ -0,0 +1,693 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { TAvailableNetworks, getBitcoinJSNetwork } from './networks';
+import { Result, err, ok } from './result';
+import {
+  EAddressType,
+  EBoostType,
+  EFeeId,
+  IAddressTypeContent,
+  IOutput,
+  IUtxo,
+  TBoostTransaction,
+  TBoostableTransaction,
+  TCoinSelection,
+  TOnchainTransaction,
+} from './types';
+import { validateAddress } from './bip21';
+import { getRootKey, getTaprootSigner, toXOnly } from './bitcoin';
+import { getChainSource } from './chain';
+import {
+  getChangeAddress,
+  getSelectedAddressType,
+  getSelectedNetwork,
+  getWalletStore,
+} from './wallet';
+import store from '../state/store';
+
+export const DUST_LIMIT = 546;
+// version, locktime, input/output counts and the segwit marker
+const TX_OVERHEAD_VBYTES = 11;
+// signals opt-in replace-by-fee (BIP125) so the transaction can be bumped later
+const RBF_SEQUENCE = 0xfffffffd;
+
+const INPUT_VBYTES: IAddressTypeContent<number> = {
+  [EAddressType.p2pkh]: 148,
+  [EAddressType.p2sh]: 91,
+  [EAddressType.p2wpkh]: 68,
+  // a single 64 byte schnorr signature in the witness
+  [EAddressType.p2tr]: 58,
+};
+
+const OUTPUT_VBYTES: IAddressTypeContent<number> = {
+  [EAddressType.p2pkh]: 34,
+  [EAddressType.p2sh]: 32,
+  [EAddressType.p2wpkh]: 31,
+  [EAddressType.p2tr]: 43,
+};
+
+/**
+ * Returns the address type a utxo was derived for from its BIP44/49/84/86 path.
+ * @param {string} path
+ * @returns {Result<EAddressType>}
+ */
+export const getAddressTypeFromPath = (path: string): Result<EAddressType> => {
+  const purpose = path.split('/')[1]?.replace("'", '');
+  switch (purpose) {
+    case '44':
+      return ok(EAddressType.p2pkh);
+    case '49':
+      return ok(EAddressType.p2sh);
+    case '84':
+      return ok(EAddressType.p2wpkh);
+    case '86':
+      return ok(EAddressType.p2tr);
+    default:
+      return err(`Unsupported derivation path: ${path}`);
+  }
+};
+
+/**
+ * Returns the virtual size of an output paying to the provided address.
+ * @param {string} address
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {number}
+ */
+const getOutputVbytes = (address: string, selectedNetwork: TAvailableNetworks): number => {
+  const script = bitcoin.address.toOutputScript(address, getBitcoinJSNetwork(selectedNetwork));
+  // 8 byte value, 1 byte script length and the script itself
+  return 9 + script.length;
+};
+
+/**
+ * Returns the sats/vbyte fee rate for the selected fee tier.
+ * @param {EFeeId} feeId
+ * @param {number} [satsPerVbyte] required for custom fees
+ * @returns {Result<number>}
+ */
+export const getFeeRate = ({
+  feeId,
+  satsPerVbyte,
+}: {
+  feeId: EFeeId;
+  satsPerVbyte?: number;
+}): Result<number> => {
+  const fees = getWalletStore().fees;
+  switch (feeId) {
+    case EFeeId.instant:
+    case EFeeId.fast:
+      return ok(fees.fast);
+    case EFeeId.normal:
+      return ok(fees.normal);
+    case EFeeId.slow:
+      return ok(fees.slow);
+    case EFeeId.minimum:
+      return ok(fees.minimum);
+    case EFeeId.custom:
+      if (!satsPerVbyte || satsPerVbyte < 1) {
+        return err('Please enter a fee rate of at least 1 sat/vB.');
+      }
+      return ok(satsPerVbyte);
+    default:
+      return err('No fee selected.');
+  }
+};
+
+/**
+ * Selects utxos to fund the outputs at the given fee rate, spending confirmed and larger
+ * coins first. With sendMax every utxo is swept into the single output.
+ * @param {IUtxo[]} utxos
+ * @param {IUtxo[]} [requiredInputs] always spent, e.g. the inputs of a transaction being replaced
+ * @param {IOutput[]} outputs
+ * @param {number} satsPerVbyte
+ * @param {boolean} [sendMax]
+ * @param {EAddressType} [changeAddressType]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<TCoinSelection>}
+ */
+export const selectCoins = ({
+  utxos,
+  requiredInputs = [],
+  outputs,
+  satsPerVbyte,
+  sendMax = false,
+  changeAddressType,
+  selectedNetwork,
+}: {
+  utxos: IUtxo[];
+  requiredInputs?: IUtxo[];
+  outputs: IOutput[];
+  satsPerVbyte: number;
+  sendMax?: boolean;
+  changeAddressType?: EAddressType;
+  selectedNetwork?: TAvailableNetworks;
+}): Result<TCoinSelection> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (!changeAddressType) {
+    changeAddressType = getSelectedAddressType();
+  }
+  if (!outputs.length) {
+    return err('No recipient provided.');
+  }
+  if (sendMax && outputs.length !== 1) {
+    return err('Sending the full balance requires a single recipient.');
+  }
+  for (const output of outputs) {
+    if (!output.address || !validateAddress({ address: output.address, selectedNetwork })) {
+      return err('Invalid bitcoin address.');
+    }
+    if (!sendMax && (!output.value || output.value < DUST_LIMIT)) {
+      return err(`The amount must be at least ${DUST_LIMIT} sats.`);
+    }
+  }
+
+  const inputVbytes = (utxo: IUtxo): number => {
+    const addressType = getAddressTypeFromPath(utxo.path);
+    return INPUT_VBYTES[addressType.isOk() ? addressType.value : EAddressType.p2pkh];
+  };
+  const outputsVbytes = outputs.reduce(
+    (acc, output) => acc + getOutputVbytes(output.address!, selectedNetwork!),
+    TX_OVERHEAD_VBYTES
+  );
+
+  const isRequired = (utxo: IUtxo): boolean =>
+    requiredInputs.some((input) => input.tx_hash === utxo.tx_hash && input.tx_pos === utxo.tx_pos);
+  const optionalUtxos = utxos.filter((utxo) => !isRequired(utxo));
+
+  if (sendMax) {
+    utxos = [...requiredInputs, ...optionalUtxos];
+    const total = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+    const vbytes = utxos.reduce((acc, utxo) => acc + inputVbytes(utxo), outputsVbytes);
+    const fee = Math.ceil(vbytes * satsPerVbyte);
+    const value = total - fee;
+    if (value < DUST_LIMIT) {
+      return err('Not enough on-chain funds to cover the network fee.');
+    }
+    return ok({
+      inputs: utxos,
+      outputs: [{ ...outputs[0], value }],
+      fee,
+      vbytes,
+      change: 0,
+    });
+  }
+
+  const target = outputs.reduce((acc, output) => acc + output.value!, 0);
+  const sortedUtxos = [
+    ...requiredInputs,
+    ...optionalUtxos.sort((a, b) => {
+      if (!!a.height !== !!b.height) {
+        return a.height ? -1 : 1;
+      }
+      return b.value - a.value;
+    }),
+  ];
+
+  const inputs: IUtxo[] = [];
+  let total = 0;
+  let vbytes = outputsVbytes;
+  for (const utxo of sortedUtxos) {
+    inputs.push(utxo);
+    total += utxo.value;
+    vbytes += inputVbytes(utxo);
+
+    const feeWithoutChange = Math.ceil(vbytes * satsPerVbyte);
+    if (inputs.length < requiredInputs.length || total < target + feeWithoutChange) {
+      continue;
+    }
+    const vbytesWithChange = vbytes + OUTPUT_VBYTES[changeAddressType];
+    const feeWithChange = Math.ceil(vbytesWithChange * satsPerVbyte);
+    const change = total - target - feeWithChange;
+    if (change >= DUST_LIMIT) {
+      return ok({ inputs, outputs, fee: feeWithChange, vbytes: vbytesWithChange, change });
+    }
+    // change too small to be worth an output, leave it to the miners
+    return ok({ inputs, outputs, fee: total - target, vbytes, change: 0 });
+  }
+  return err('Not enough on-chain funds to cover the amount and network fee.');
+};
+
+/**
+ * Selects coins from the tracked utxos for a payment to a single address.
+ * @param {string} address
+ * @param {number} amountSats ignored when sending the full balance
+ * @param {number} satsPerVbyte
+ * @param {boolean} [sendMax]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<TCoinSelection>}
+ */
+export const getCoinSelection = ({
+  address,
+  amountSats,
+  satsPerVbyte,
+  sendMax = false,
+  selectedNetwork,
+}: {
+  address: string;
+  amountSats: number;
+  satsPerVbyte: number;
+  sendMax?: boolean;
+  selectedNetwork?: TAvailableNetworks;
+}): Result<TCoinSelection> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const utxos = getWalletStore().utxos[selectedNetwork];
+  if (!utxos.length) {
+    return err('There are no on-chain funds to spend.');
+  }
+  return selectCoins({
+    utxos,
+    outputs: [{ address, value: amountSats, index: 0 }],
+    satsPerVbyte,
+    sendMax,
+    selectedNetwork,
+  });
+};
+
+/**
+ * Builds and signs a PSBT spending the selected coins, adding a change output when needed.
+ * @param {TCoinSelection} selection
+ * @param {number} satsPerVbyte
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TOnchainTransaction>>}
+ */
+export const createTransaction = async ({
+  selection,
+  satsPerVbyte,
+  selectedNetwork,
+}: {
+  selection: TCoinSelection;
+  satsPerVbyte: number;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TOnchainTransaction>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  try {
+    const network = getBitcoinJSNetwork(selectedNetwork);
+    const root = await getRootKey(selectedNetwork);
+    if (root.isErr()) {
+      return err(root.error.message);
+    }
+
+    const outputs = [...selection.outputs];
+    if (selection.change) {
+      const changeAddress = await getChangeAddress({ selectedNetwork });
+      if (changeAddress.isErr()) {
+        return err(changeAddress.error.message);
+      }
+      outputs.push({
+        address: changeAddress.value.address,
+        value: selection.change,
+        index: outputs.length,
+      });
+    }
+
+    const psbt = new bitcoin.Psbt({ network });
+    const keyPairs = selection.inputs.map((utxo) => root.value.derivePath(utxo.path));
+    // taproot inputs are signed with the tweaked key instead
+    const signers: bitcoin.Signer[] = [...keyPairs];
+    for (let i = 0; i < selection.inputs.length; i++) {
+      const utxo = selection.inputs[i];
+      const pubkey = keyPairs[i].publicKey;
+      const addressType = getAddressTypeFromPath(utxo.path);
+      if (addressType.isErr()) {
+        return err(addressType.error.message);
+      }
+      const input = { hash: utxo.tx_hash, index: utxo.tx_pos, sequence: RBF_SEQUENCE };
+      switch (addressType.value) {
+        case EAddressType.p2wpkh: {
+          const payment = bitcoin.payments.p2wpkh({ pubkey, network });
+          psbt.addInput({ ...input, witnessUtxo: { script: payment.output!, value: utxo.value } });
+          break;
+        }
+        case EAddressType.p2sh: {
+          const redeem = bitcoin.payments.p2wpkh({ pubkey, network });
+          const payment = bitcoin.payments.p2sh({ redeem, network });
+          psbt.addInput({
+            ...input,
+            witnessUtxo: { script: payment.output!, value: utxo.value },
+            redeemScript: redeem.output!,
+          });
+          break;
+        }
+        case EAddressType.p2pkh: {
+          // legacy inputs commit to the whole previous transaction
+          const previousTx = await getChainSource({ selectedNetwork }).getTransactionHex(
+            utxo.tx_hash
+          );
+          if (previousTx.isErr()) {
+            return err(previousTx.error.message);
+          }
+          psbt.addInput({ ...input, nonWitnessUtxo: Buffer.from(previousTx.value, 'hex') });
+          break;
+        }
+        case EAddressType.p2tr: {
+          const internalPubkey = toXOnly(pubkey);
+          const payment = bitcoin.payments.p2tr({ internalPubkey, network });
+          psbt.addInput({
+            ...input,
+            witnessUtxo: { script: payment.output!, value: utxo.value },
+            tapInternalKey: internalPubkey,
+          });
+          signers[i] = getTaprootSigner(keyPairs[i]);
+          break;
+        }
+      }
+    }
+    outputs.forEach((output) => {
+      psbt.addOutput({ address: output.address!, value: output.value! });
+    });
+
+    signers.forEach((signer, i) => psbt.signInput(i, signer));
+    // taproot inputs carry x-only keys and schnorr signatures
+    const signaturesAreValid = psbt.validateSignaturesOfAllInputs((pubkey, msghash, signature) =>
+      pubkey.length === 32
+        ? ecc.verifySchnorr(msghash, pubkey, signature)
+        : ecc.verify(msghash, pubkey, signature)
+    );
+    if (!signaturesAreValid) {
+      return err('Unable to sign the transaction.');
+    }
+    psbt.finalizeAllInputs();
+    const transaction = psbt.extractTransaction();
+
+    return ok({
+      txid: transaction.getId(),
+      hex: transaction.toHex(),
+      fee: selection.fee,
+      vbytes: selection.vbytes,
+      satsPerVbyte,
+      inputs: selection.inputs,
+      outputs,
+      change: selection.change,
+      timestamp: Date.now(),
+    });
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Broadcasts a signed transaction and keeps a record of it so it can be boosted later.
+ * @param {TOnchainTransaction} transaction
+ * @param {TAvailableNetworks} selectedNetwork
+ * @returns {Promise<Result<TOnchainTransaction>>}
+ */
+const broadcastOnchainTransaction = async ({
+  transaction,
+  selectedNetwork,
+}: {
+  transaction: TOnchainTransaction;
+  selectedNetwork: TAvailableNetworks;
+}): Promise<Result<TOnchainTransaction>> => {
+  const broadcastRes = await getChainSource({ selectedNetwork }).broadcastTransaction(
+    transaction.hex
+  );
+  if (broadcastRes.isErr()) {
+    return err(broadcastRes.error.message);
+  }
+  store.dispatch.wallet.removeUtxos({
+    selectedNetwork,
+    outpoints: transaction.inputs,
+  });
+  store.dispatch.wallet.addTransaction({ selectedNetwork, transaction });
+  return ok(transaction);
+};
+
+/**
+ * Selects coins, signs and broadcasts a payment to a single address.
+ * @param {string} address
+ * @param {number} amountSats ignored when sending the full balance
+ * @param {number} satsPerVbyte
+ * @param {boolean} [sendMax]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TOnchainTransaction>>}
+ */
+export const sendOnchainTransaction = async ({
+  address,
+  amountSats,
+  satsPerVbyte,
+  sendMax = false,
+  selectedNetwork,
+}: {
+  address: string;
+  amountSats: number;
+  satsPerVbyte: number;
+  sendMax?: boolean;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TOnchainTransaction>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const selection = getCoinSelection({
+    address,
+    amountSats,
+    satsPerVbyte,
+    sendMax,
+    selectedNetwork,
+  });
+  if (selection.isErr()) {
+    return err(selection.error.message);
+  }
+  const transaction = await createTransaction({
+    selection: selection.value,
+    satsPerVbyte,
+    selectedNetwork,
+  });
+  if (transaction.isErr()) {
+    return err(transaction.error.message);
+  }
+  return await broadcastOnchainTransaction({ transaction: transaction.value, selectedNetwork });
+};
+
+/**
+ * Returns the fee and virtual size of a transaction, looking up its inputs when it was not sent
+ * from this wallet (e.g. sweeps broadcast by LDK).
+ * @param {string} txid
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<{ fee: number; vbytes: number }>>}
+ */
+export const getTransactionFeeInfo = async ({
+  txid,
+  selectedNetwork,
+}: {
+  txid: string;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<{ fee: number; vbytes: number }>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  try {
+    const sentTransaction = getWalletStore().transactions[selectedNetwork][txid];
+    if (sentTransaction) {
+      return ok({ fee: sentTransaction.fee, vbytes: sentTransaction.vbytes });
+    }
+    const chainSource = getChainSource({ selectedNetwork });
+    const transactionHex = await chainSource.getTransactionHex(txid);
+    if (transactionHex.isErr()) {
+      return err(transactionHex.error.message);
+    }
+    const transaction = bitcoin.Transaction.fromHex(transactionHex.value);
+    let inputsValue = 0;
+    for (const input of transaction.ins) {
+      const previousTxid = Buffer.from(input.hash).reverse().toString('hex');
+      const previousTx = await chainSource.getTransactionHex(previousTxid);
+      if (previousTx.isErr()) {
+        return err(previousTx.error.message);
+      }
+      inputsValue += bitcoin.Transaction.fromHex(previousTx.value).outs[input.index].value;
+    }
+    const outputsValue = transaction.outs.reduce((acc, output) => acc + output.value, 0);
+    return ok({ fee: inputsValue - outputsValue, vbytes: transaction.virtualSize() });
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the unconfirmed transactions that can be boosted. Transactions sent from this wallet
+ * are replaced (RBF), anything else paying to the wallet, such as channel close sweeps,
+ * is pushed through by spending its output (CPFP).
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TBoostableTransaction[]>>}
+ */
+export const getBoostableTransactions = async ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): Promise<Result<TBoostableTransaction[]>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const { transactions, utxos } = getWalletStore();
+  const sentTxids = Object.keys(transactions[selectedNetwork]);
+  const confirmations = await getChainSource({ selectedNetwork }).getTransactionsConfirmations(
+    sentTxids
+  );
+  if (confirmations.isErr()) {
+    return err(confirmations.error.message);
+  }
+  // replaced transactions are no longer known to the server and are left out
+  const unconfirmedSentTxids = sentTxids.filter((txid) => confirmations.value[txid] === 0);
+
+  const boostable: TBoostableTransaction[] = unconfirmedSentTxids.map((txid) => ({
+    txid,
+    type: EBoostType.rbf,
+  }));
+  utxos[selectedNetwork]
+    .filter((utxo) => utxo.height <= 0 && !sentTxids.includes(utxo.tx_hash))
+    .forEach((utxo) => {
+      if (!boostable.some(({ txid }) => txid === utxo.tx_hash)) {
+        boostable.push({ txid: utxo.tx_hash, type: EBoostType.cpfp, utxo });
+      }
+    });
+  return ok(boostable);
+};
+
+/**
+ * Prepares a replacement for an unconfirmed transaction sent from this wallet. The replacement
+ * pays the same recipients, takes the extra fee from the change and adds confirmed coins if needed.
+ * @param {string} txid
+ * @param {number} satsPerVbyte
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<TBoostTransaction>}
+ */
+export const getRbfBoost = ({
+  txid,
+  satsPerVbyte,
+  selectedNetwork,
+}: {
+  txid: string;
+  satsPerVbyte: number;
+  selectedNetwork?: TAvailableNetworks;
+}): Result<TBoostTransaction> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const { transactions, utxos } = getWalletStore();
+  const original = transactions[selectedNetwork][txid];
+  if (!original) {
+    return err('Only transactions sent from this wallet can be replaced.');
+  }
+  const recipients = original.change ? original.outputs.slice(0, -1) : original.outputs;
+  if (!recipients.length) {
+    return err('This fee bump pays only to this wallet, please wait for it to confirm.');
+  }
+  // BIP125: the replacement must pay a higher fee rate and its own relay fee on top of the old fee
+  const rate = Math.max(satsPerVbyte, Math.ceil(original.fee / original.vbytes) + 1);
+  const selection = selectCoins({
+    // replacements may not spend new unconfirmed outputs
+    utxos: utxos[selectedNetwork].filter((utxo) => utxo.height > 0),
+    requiredInputs: original.inputs,
+    outputs: recipients,
+    satsPerVbyte: rate,
+    selectedNetwork,
+  });
+  if (selection.isErr()) {
+    return err(selection.error.message);
+  }
+  if (selection.value.fee < original.fee + selection.value.vbytes) {
+    return err('The replacement fee is too low, please pick a higher fee rate.');
+  }
+  return ok({
+    type: EBoostType.rbf,
+    txid,
+    satsPerVbyte: rate,
+    fee: selection.value.fee,
+    extraFee: selection.value.fee - original.fee,
+    selection: selection.value,
+  });
+};
+
+/**
+ * Prepares a child transaction spending an unconfirmed output back to the wallet, paying
+ * enough fee for the parent and child together to reach the given fee rate.
+ * @param {IUtxo} utxo
+ * @param {number} satsPerVbyte
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TBoostTransaction>>}
+ */
+export const getCpfpBoost = async ({
+  utxo,
+  satsPerVbyte,
+  selectedNetwork,
+}: {
+  utxo: IUtxo;
+  satsPerVbyte: number;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TBoostTransaction>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const parent = await getTransactionFeeInfo({ txid: utxo.tx_hash, selectedNetwork });
+  if (parent.isErr()) {
+    return err(parent.error.message);
+  }
+  if (parent.value.fee / parent.value.vbytes >= satsPerVbyte) {
+    return err('This transaction already pays the selected fee rate.');
+  }
+  const inputType = getAddressTypeFromPath(utxo.path);
+  if (inputType.isErr()) {
+    return err(inputType.error.message);
+  }
+  const vbytes =
+    TX_OVERHEAD_VBYTES + INPUT_VBYTES[inputType.value] + OUTPUT_VBYTES[getSelectedAddressType()];
+  const fee = Math.max(
+    Math.ceil(satsPerVbyte * (parent.value.vbytes + vbytes)) - parent.value.fee,
+    vbytes
+  );
+  const change = utxo.value - fee;
+  if (change < DUST_LIMIT) {
+    return err('This output is too small to pay for a fee bump.');
+  }
+  return ok({
+    type: EBoostType.cpfp,
+    txid: utxo.tx_hash,
+    satsPerVbyte,
+    fee,
+    extraFee: fee,
+    // the whole output goes back to a change address, minus the fee
+    selection: { inputs: [utxo], outputs: [], fee, vbytes, change },
+  });
+};
+
+/**
+ * Signs and broadcasts a prepared boost. A replaced transaction is dropped from the records.
+ * @param {TBoostTransaction} boost
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Promise<Result<TOnchainTransaction>>}
+ */
+export const boostTransaction = async ({
+  boost,
+  selectedNetwork,
+}: {
+  boost: TBoostTransaction;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<TOnchainTransaction>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const transaction = await createTransaction({
+    selection: boost.selection,
+    satsPerVbyte: boost.satsPerVbyte,
+    selectedNetwork,
+  });
+  if (transaction.isErr()) {
+    return err(transaction.error.message);
+  }
+  const broadcastRes = await broadcastOnchainTransaction({
+    transaction: { ...transaction.value, boostType: boost.type, boostedTxid: boost.txid },
+    selectedNetwork,
+  });
+  if (broadcastRes.isErr()) {
+    return err(broadcastRes.error.message);
+  }
+  if (boost.type === EBoostType.rbf) {
+    store.dispatch.wallet.removeTransaction({ selectedNetwork, txid: boost.txid });
+  }
+  return ok(broadcastRes.value);
+};
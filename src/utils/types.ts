@@ -1,5 +1,12 @@
-import { TCreatePaymentReq, TInvoice } from '@synonymdev/react-native-ldk';
+import {
+  TChannel,
+  TCreatePaymentReq,
+  TInvoice,
+  TTransactionData,
+  TTransactionPosition,
+} from '@synonymdev/react-native-ldk';
 import { TAvailableNetworks } from './networks';
+import { Result } from './result';
 
 export enum AppState {
   Background = 'Background',
@@ -97,12 +104,18 @@ export enum EAccount {
 
 export type TWalletName = `wallet${number}`;
 
+export type TWalletMeta = {
+  id: TWalletName;
+  name: string;
+  createdAt: number;
+};
+
 export enum EAddressType {
   p2wpkh = 'p2wpkh',
   p2sh = 'p2sh',
   p2pkh = 'p2pkh',
   // p2wsh = 'p2wsh',
-  // p2tr = 'p2tr',
+  p2tr = 'p2tr',
 }
 
 export interface IAddressTypeData {
@@ -119,6 +132,11 @@ export type IAddressTypeContent<T> = {
   [key in EAddressType]: T;
 };
 
+export type TAddressIndexes = {
+  addressIndex: number; // next unused receive address
+  changeAddressIndex: number; // next unused change address
+};
+
 export interface IAddress {
   index: number;
   path: string;
@@ -161,6 +179,43 @@ export interface IOutput {
   index: number; //Used to specify which output to update or edit when using updateBitcoinTransaction.
 }
 
+export type TCoinSelection = {
+  inputs: IUtxo[];
+  outputs: IOutput[]; // recipients only, change is added when signing
+  fee: number;
+  vbytes: number;
+  change: number;
+};
+
+export type TOnchainTransaction = {
+  txid: string;
+  hex: string;
+  fee: number;
+  vbytes: number;
+  satsPerVbyte: number;
+  inputs: IUtxo[];
+  outputs: IOutput[]; // the change output, if any, comes last
+  change: number;
+  timestamp: number;
+  boostType?: EBoostType; // set when this transaction bumped the fee of another one
+  boostedTxid?: string;
+};
+
+export type TBoostTransaction = {
+  type: EBoostType;
+  txid: string; // transaction being boosted
+  satsPerVbyte: number; // effective fee rate once the boost confirms
+  fee: number; // fee paid by the replacement or child transaction
+  extraFee: number; // cost on top of what the stuck transaction already pays
+  selection: TCoinSelection;
+};
+
+export type TBoostableTransaction = {
+  txid: string;
+  type: EBoostType;
+  utxo?: IUtxo; // unconfirmed output spent by a cpfp child
+};
+
 export enum EFeeId {
   instant = 'instant',
   fast = 'fast',
@@ -177,14 +232,25 @@ export enum EBoostType {
 }
 
 //On-chain fee estimates in sats/vbyte
+export enum EFeeSource {
+  mempool = 'mempool',
+  electrum = 'electrum',
+  cache = 'cache',
+  default = 'default', // hardcoded rates, no estimate has been fetched yet
+}
+
 export interface IOnchainFees {
   fast: number; // 10-20 mins
   normal: number; // 20-60 mins
   slow: number; // 1-2 hrs
   minimum: number;
   timestamp: number;
+  source: EFeeSource; // where the rates above came from
 }
 
+// the fee tiers alone, in sats/vbyte
+export type TFeeRates = Pick<IOnchainFees, 'fast' | 'normal' | 'slow' | 'minimum'>;
+
 export interface IFees {
   onchain: IOnchainFees;
 }
@@ -235,8 +301,13 @@ export interface IUtxo {
   value: number;
 }
 
+export type TOnchainBalance = {
+  confirmed: number;
+  unconfirmed: number; // may be negative while a spend is in the mempool
+};
+
 export type TKeyDerivationAccountType = 'onchain';
-export type TKeyDerivationPurpose = '84' | '49' | '44'; //"p2wpkh" | "p2sh" | "p2pkh";
+export type TKeyDerivationPurpose = '86' | '84' | '49' | '44'; //"p2tr" | "p2wpkh" | "p2sh" | "p2pkh";
 export type TKeyDerivationCoinType = '0' | '1'; //"mainnet" | "testnet";
 export type TKeyDerivationAccount = '0'; //"On-Chain Wallet";
 export type TKeyDerivationChange = '0' | '1'; //"Receiving Address" | "Change Address";
@@ -306,6 +377,11 @@ export type TUseChannelBalance = {
   capacity: number; // Total capacity of the channel. (spendingTotal + receivingTotal)
 };
 
+export type TClosedChannel = TChannel & {
+  closedAt: number;
+  closeReason?: string;
+};
+
 export type TLightningActivityItem = {
   id: string;
   txType: EPaymentType;
@@ -319,6 +395,9 @@ export type TLightningActivityItem = {
 export enum ELightningDataType {
   paymentRequest = 'paymentRequest',
   nodeId = 'nodeId',
+  lnurlPay = 'lnurlPay',
+  lnurlWithdraw = 'lnurlWithdraw',
+  bitcoinAddress = 'bitcoinAddress',
 }
 
 export type TDecodedInput = {
@@ -334,8 +413,61 @@ export interface IDecodedData {
   paymentRequest?: string;
   message?: string;
   url?: string; // possibly node URI
+  lnurlParams?: TLnurlParams;
+  address?: string; // on-chain address
+  note?: string; // label or message from a bitcoin uri
 }
 
+export enum EReceiveMode {
+  unified = 'unified',
+  lightning = 'lightning',
+  onchain = 'onchain',
+}
+
+export type TBip21Data = {
+  address: string;
+  amount?: number; // sats
+  label?: string;
+  message?: string;
+  lightning?: string;
+};
+
+export type TLnurlPayParams = {
+  tag: 'payRequest';
+  callback: string;
+  minSendable: number; // msats
+  maxSendable: number; // msats
+  metadata: string; // stringified json array, hashed into the invoice
+  commentAllowed: number;
+  domain: string;
+};
+
+export type TLnurlWithdrawParams = {
+  tag: 'withdrawRequest';
+  callback: string;
+  k1: string;
+  minWithdrawable: number; // msats
+  maxWithdrawable: number; // msats
+  defaultDescription: string;
+  domain: string;
+};
+
+export type TLnurlParams = TLnurlPayParams | TLnurlWithdrawParams;
+
+export type TPendingLnurlWithdrawal = {
+  paymentHash: string;
+  domain: string;
+  amountSats: number;
+  timestamp: number;
+};
+
+export type TLnurlPayMetadata = {
+  description: string;
+  longDescription?: string;
+  identifier?: string;
+  image?: string;
+};
+
 // Wallets
 export interface IGetAddress {
   path: string;
@@ -391,6 +523,11 @@ export const addressTypes: Readonly<IAddressTypes> = {
     type: EAddressType.p2wpkh,
     label: 'bech32',
   },
+  [EAddressType.p2tr]: {
+    path: "m/86'/0'/0'/0/0",
+    type: EAddressType.p2tr,
+    label: 'taproot',
+  },
 };
 
 export interface IElectrumPeerData {
@@ -453,3 +590,156 @@ export interface IContactSection {
   key: string;
   data: TContact[];
 }
+
+// Liquidity service providers
+export type TLspStatus = {
+  online: boolean;
+  pubkey: string;
+  message?: string;
+};
+
+export interface LspProvider {
+  id: string;
+  name: string;
+  description: string;
+  pubkey: string;
+  // returns the fee in sats charged to wrap an invoice of the given amount
+  getFeeQuote: (amountSats: number) => Promise<Result<number>>;
+  // returns a JIT channel invoice that pays through to the provided invoice
+  wrapInvoice: (bolt11: string) => Promise<Result<string>>;
+  getStatus: () => Promise<Result<TLspStatus>>;
+  // only set for providers that sell channels up front (LSPS1)
+  lsps1?: ILsps1Client;
+}
+
+export enum ELsps1OrderState {
+  created = 'CREATED',
+  completed = 'COMPLETED',
+  failed = 'FAILED',
+}
+
+export enum ELsps1PaymentState {
+  expectPayment = 'EXPECT_PAYMENT',
+  hold = 'HOLD',
+  paid = 'PAID',
+  refunded = 'REFUNDED',
+}
+
+export type TLsps1Options = {
+  minInboundSats: number;
+  maxInboundSats: number;
+  minChannelExpiryBlocks: number;
+  maxChannelExpiryBlocks: number;
+  // node uris to connect to, the channel can only be opened to a connected peer
+  uris: string[];
+};
+
+export type TLsps1Order = {
+  orderId: string;
+  providerId: string;
+  lspPubkey: string;
+  inboundSats: number;
+  channelExpiryBlocks: number;
+  state: ELsps1OrderState;
+  paymentState: ELsps1PaymentState;
+  invoice: string;
+  feeSats: number;
+  totalSats: number;
+  expiresAt: string;
+  createdAt: number;
+  channelId?: string;
+};
+
+export interface ILsps1Client {
+  getInfo: () => Promise<Result<TLsps1Options>>;
+  createOrder: (req: {
+    inboundSats: number;
+    channelExpiryBlocks: number;
+    nodeId: string;
+  }) => Promise<Result<TLsps1Order>>;
+  getOrder: (orderId: string) => Promise<Result<TLsps1Order>>;
+}
+
+// encrypted archive written by the backup subsystem, safe to hand to any destination
+export type TEncryptedBackup = {
+  version: number;
+  network: TAvailableNetworks;
+  timestamp: number;
+  iv: string;
+  ciphertext: string;
+  mac: string;
+};
+
+export interface BackupDestination {
+  id: string;
+  name: string;
+  upload: (req: { fileName: string; data: string }) => Promise<Result<string>>;
+  // resolves with an empty string when nothing was uploaded under fileName
+  download: (req: { fileName: string }) => Promise<Result<string>>;
+  list: () => Promise<Result<string[]>>;
+  delete: (req: { fileName: string }) => Promise<Result<string>>;
+}
+
+export enum EBackupCategory {
+  channels = 'channels',
+  metadata = 'metadata',
+}
+
+export type TBackupStatus = {
+  lastSuccess: number;
+  lastFailure: number;
+  failedAttempts: number;
+  error: string;
+};
+
+// everything besides channel state and the seed that a fresh install can't recover
+export type TBackupMetadata = {
+  contacts: TContact[];
+  notes: { [paymentId: string]: string };
+  settings: {
+    selectedLspProvider: IWalletItem<string>;
+    customElectrumPeers: IWalletItem<ICustomElectrumPeer[]>;
+  };
+};
+
+export type TWebDavConfig = {
+  url: string;
+  username: string;
+};
+
+export enum EChainSourceType {
+  electrum = 'electrum',
+  esplora = 'esplora',
+}
+
+export type TChainSourceSettings = {
+  type: EChainSourceType;
+  esploraUrl: string;
+};
+
+/**
+ * Where LDK and the on-chain wallet read chain data from and broadcast transactions to,
+ * bound to a single network.
+ */
+export interface ChainSource {
+  type: EChainSourceType;
+  // keeps the stored header at the tip, calling onBlock for every new block
+  connect: (req: { onBlock: () => void }) => Promise<Result<string>>;
+  disconnect: () => Promise<void>;
+  getBlockHex: (req: { height: number }) => Promise<Result<string>>;
+  getTransactionData: (txid: string) => Promise<TTransactionData>;
+  getTransactionPosition: (req: {
+    tx_hash: string;
+    height: number;
+  }) => Promise<TTransactionPosition>;
+  getScriptPubKeyHistory: (scriptPubKey: string) => Promise<TGetAddressHistory[]>;
+  getUsedScriptHashes: (scriptHashes: string[]) => Promise<Result<string[]>>;
+  getAddressBalance: (addresses: string[]) => Promise<Result<TOnchainBalance>>;
+  listUnspent: (addresses: IAddress[]) => Promise<Result<IUtxo[]>>;
+  getTransactionHex: (txid: string) => Promise<Result<string>>;
+  // 0 while in the mempool, missing when unknown to the source
+  getTransactionsConfirmations: (txids: string[]) => Promise<Result<{ [txid: string]: number }>>;
+  broadcastTransaction: (rawTx: string) => Promise<Result<string>>;
+  // refreshes the wallet on activity, sources without push notifications do so on every block
+  subscribeToAddresses: (scriptHashes: string[]) => Promise<Result<string>>;
+}
@@ -1,30 +1,50 @@
-import { EAvailableNetworks, TAvailableNetworks } from '../utils/networks';
+import { TAvailableNetworks, getBitcoinJSNetwork } from '../utils/networks';
 import {
   EAddressType,
   ICreateWallet,
-  IGetFeeEstimatesResponse,
+  IAddress,
+  IAddressTypeContent,
+  IAddresses,
+  IGenerateAddresses,
+  IGenerateAddressesResponse,
   IKeyDerivationPath,
   IKeyDerivationPathData,
-  IOnchainFees,
   TKeyDerivationAccount,
   TKeyDerivationAccountType,
   TKeyDerivationChange,
   TKeyDerivationCoinType,
   TKeyDerivationPurpose,
+  TAddressIndexes,
+  TOnchainBalance,
   TWalletName,
 } from './types';
 import store from '../state/store';
 import { getKeychainValue, setKeychainValue } from './keychain';
 import { Result, err, ok } from './result';
 import * as bip39 from 'bip39';
-import { getDefaultWalletShape, walletModel } from '../state/models/wallet';
-import { subscribeToAddresses } from './electrum/helpers';
+import { getDefaultWalletShape } from '../state/models/wallet';
+import { CHUNK_LIMIT, GAP_LIMIT } from './electrum/helpers';
 import * as bitcoin from 'bitcoinjs-lib';
 import { InteractionManager } from 'react-native';
-import { refreshLdk } from '../ldk';
-import { generateMnemonic, getBitcoinAddress } from './bitcoin';
+import { refreshLdk, resetLdk, unsubscribeFromLDKSubscriptions } from '../ldk';
+import { startLightning } from './lightning/helpers';
+import { BIP32Interface } from 'bip32';
+import {
+  generateMnemonic,
+  getAddressFromKeyPair,
+  getBitcoinAddress,
+  getBitcoinScriptHash,
+  getRootKey,
+  getRootKeyFromSeed,
+  getSeed,
+} from './bitcoin';
+import Logger from './logger';
+import { getChainSource } from './chain';
+import { getFeeEstimates } from './fees';
 import { IWallet } from './types';
 
+const TAG = 'Wallet';
+
 export const WALLET_SEED_HASH_PREFIX = Buffer.from('@ettaln/wallet-uuid');
 
 export const REFRESH_INTERVAL = 60 * 30; // in seconds, 30 minutes
@@ -112,28 +132,29 @@ export const keyDerivationAccountTypes: {
 };
 
 /**
- * Returns the next available receive address for the given network and wallet.
+ * Derives the address of the given type at the provided index of the receive or change chain.
+ * @param {EAddressType} addressType
+ * @param {number} index
+ * @param {boolean} [changeAddress]
  * @param {TAvailableNetworks} [selectedNetwork]
- * @return {Result<string>}
+ * @return {Promise<Result<{ address: string; path: string }>>}
  */
-export const getReceiveAddress = async ({
+export const getAddressAtIndex = async ({
   addressType,
+  index,
+  changeAddress = false,
   selectedNetwork,
 }: {
-  addressType?: EAddressType;
+  addressType: EAddressType;
+  index: number;
+  changeAddress?: boolean;
   selectedNetwork?: TAvailableNetworks;
-}): Promise<Result<string>> => {
+}): Promise<Result<{ address: string; path: string }>> => {
   try {
     if (!selectedNetwork) {
       selectedNetwork = getSelectedNetwork();
     }
 
-    if (!addressType) {
-      addressType = getSelectedAddressType({ selectedNetwork });
-    }
-
-    let keyDerivationPath;
-
     // Set derivation path accordingly based on address type.
     const keyDerivationPathResponse = getKeyDerivationPath({
       selectedNetwork,
@@ -141,19 +162,15 @@ export const getReceiveAddress = async ({
     });
     if (keyDerivationPathResponse.isErr()) {
       return err(keyDerivationPathResponse.error.message);
-    } else {
-      keyDerivationPath = keyDerivationPathResponse.value;
     }
 
-    // get address index from wallet store
-    const index = getWalletStore().walletinfo.addressIndex;
-    const path = { ...keyDerivationPath! };
+    const path = { ...keyDerivationPathResponse.value };
     path.addressIndex = `${index}`;
     const addressPath = formatKeyDerivationPath({
       path,
       selectedNetwork,
       accountType: 'onchain',
-      changeAddress: false,
+      changeAddress,
       addressIndex: `${index}`,
     });
     if (addressPath.isErr()) {
@@ -165,15 +182,427 @@ export const getReceiveAddress = async ({
       type: addressType,
       path: addressPath.value.pathString,
     });
+    if (typeof addressResponse !== 'string') {
+      return err(addressResponse.error.message);
+    }
+    if (!addressResponse) {
+      return err('Unable to derive address.');
+    }
+    return ok({ address: addressResponse, path: addressPath.value.pathString });
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns the next unused receive address for the given network and wallet.
+ * The same address is returned until it receives funds, refreshUtxos then moves past it.
+ * @param {EAddressType} [addressType]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<string>>}
+ */
+export const getReceiveAddress = async ({
+  addressType,
+  selectedNetwork,
+}: {
+  addressType?: EAddressType;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (!addressType) {
+    addressType = getSelectedAddressType({ selectedNetwork });
+  }
+
+  // get address index from wallet store
+  const index = getWalletStore().walletinfo.addressIndex;
+  const addressResponse = await getAddressAtIndex({ addressType, index, selectedNetwork });
+  if (addressResponse.isErr()) {
+    return err(addressResponse.error.message);
+  }
+  return ok(addressResponse.value.address);
+};
+
+/**
+ * Returns the next unused receive address and reserves it, so the next call gets a new one.
+ * Used where each request needs its own address, e.g. LDK's channel close outputs.
+ * @param {EAddressType} [addressType]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<string>>}
+ */
+export const getNewReceiveAddress = async ({
+  addressType,
+  selectedNetwork,
+}: {
+  addressType?: EAddressType;
+  selectedNetwork?: TAvailableNetworks;
+}): Promise<Result<string>> => {
+  const addressResponse = await getReceiveAddress({ addressType, selectedNetwork });
+  if (addressResponse.isErr()) {
+    return err(addressResponse.error.message);
+  }
+  // after address is generated, increment address index in wallet store:
+  store.dispatch.wallet.setAddressIndex(getWalletStore().walletinfo.addressIndex + 1);
+  return ok(addressResponse.value);
+};
 
-    if (addressResponse) {
-      // after address is generated, increment address index in wallet store:
-      const newAddressIndex = index + 1;
-      store.dispatch.wallet.setAddressIndex(newAddressIndex);
-      return addressResponse;
+/**
+ * Returns the next unused change address for the given network and wallet.
+ * @param {EAddressType} [addressType]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<{ address: string; path: string }>>}
+ */
+export const getChangeAddress = async ({
+  addressType,
+  selectedNetwork,
+}: {
+  addressType?: EAddressType;
+  selectedNetwork?: TAvailableNetworks;
+} = {}): Promise<Result<{ address: string; path: string }>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  if (!addressType) {
+    addressType = getSelectedAddressType({ selectedNetwork });
+  }
+  const index = getWalletStore().walletinfo.changeAddressIndex ?? 0;
+  const addressResponse = await getAddressAtIndex({
+    addressType,
+    index,
+    changeAddress: true,
+    selectedNetwork,
+  });
+  if (addressResponse.isErr()) {
+    return err(addressResponse.error.message);
+  }
+  store.dispatch.wallet.setChangeAddressIndex(index + 1);
+  return ok(addressResponse.value);
+};
+
+/**
+ * Derives a range of receive and change addresses from a single root key.
+ * @param {number} [addressCount]
+ * @param {number} [changeAddressCount]
+ * @param {number} [addressIndex]
+ * @param {number} [changeAddressIndex]
+ * @param {EAddressType} [addressType]
+ * @param {Buffer} [seed]
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<IGenerateAddressesResponse>>}
+ */
+export const generateAddresses = async ({
+  addressCount = 10,
+  changeAddressCount = 10,
+  addressIndex = 0,
+  changeAddressIndex = 0,
+  addressType,
+  seed,
+  selectedNetwork,
+}: IGenerateAddresses): Promise<Result<IGenerateAddressesResponse>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    if (!addressType) {
+      addressType = getSelectedAddressType({ selectedNetwork });
+    }
+
+    // derive the root key once, deriving it per address is too slow on device
+    let root: BIP32Interface;
+    if (seed) {
+      root = getRootKeyFromSeed(seed, selectedNetwork);
     } else {
-      return err('No receive address available.');
+      const rootResponse = await getRootKey(selectedNetwork);
+      if (rootResponse.isErr()) {
+        return err(rootResponse.error.message);
+      }
+      root = rootResponse.value;
+    }
+
+    const keyDerivationPathResponse = getKeyDerivationPath({ selectedNetwork, addressType });
+    if (keyDerivationPathResponse.isErr()) {
+      return err(keyDerivationPathResponse.error.message);
+    }
+
+    const deriveAddresses = async (
+      startIndex: number,
+      count: number,
+      changeAddress: boolean
+    ): Promise<Result<IAddresses>> => {
+      const addresses: IAddresses = {};
+      for (let index = startIndex; index < startIndex + count; index++) {
+        const addressPath = formatKeyDerivationPath({
+          path: { ...keyDerivationPathResponse.value },
+          selectedNetwork,
+          accountType: 'onchain',
+          changeAddress,
+          addressIndex: `${index}`,
+        });
+        if (addressPath.isErr()) {
+          return err(addressPath.error.message);
+        }
+        const keyPair = root.derivePath(addressPath.value.pathString);
+        const address = getAddressFromKeyPair({ keyPair, type: addressType!, selectedNetwork });
+        const scriptHash = await getBitcoinScriptHash(address, selectedNetwork);
+        addresses[scriptHash] = {
+          index,
+          path: addressPath.value.pathString,
+          address,
+          scriptHash,
+          publicKey: keyPair.publicKey.toString('hex'),
+        };
+      }
+      return ok(addresses);
+    };
+
+    const addresses = await deriveAddresses(addressIndex, addressCount, false);
+    if (addresses.isErr()) {
+      return err(addresses.error.message);
+    }
+    const changeAddresses = await deriveAddresses(changeAddressIndex, changeAddressCount, true);
+    if (changeAddresses.isErr()) {
+      return err(changeAddresses.error.message);
+    }
+    return ok({ addresses: addresses.value, changeAddresses: changeAddresses.value });
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Returns true if the provided address has any on-chain history.
+ * @param {string} address
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<boolean>}
+ */
+const addressHasHistory = async (
+  address: string,
+  selectedNetwork?: TAvailableNetworks
+): Promise<boolean> => {
+  const network = getBitcoinJSNetwork(selectedNetwork ?? getSelectedNetwork());
+  const scriptPubKey = bitcoin.address.toOutputScript(address, network).toString('hex');
+  const history = await getChainSource({ selectedNetwork }).getScriptPubKeyHistory(scriptPubKey);
+  return history.length > 0;
+};
+
+/**
+ * Scans one chain of an address type in chunks until GAP_LIMIT consecutive addresses
+ * without history are found.
+ * @param {Buffer} seed
+ * @param {EAddressType} addressType
+ * @param {boolean} changeAddress
+ * @param {TAvailableNetworks} selectedNetwork
+ * @return {Promise<Result<number>>} the index of the first unused address after the last used one
+ */
+const discoverChain = async ({
+  seed,
+  addressType,
+  changeAddress,
+  selectedNetwork,
+}: {
+  seed: Buffer;
+  addressType: EAddressType;
+  changeAddress: boolean;
+  selectedNetwork: TAvailableNetworks;
+}): Promise<Result<number>> => {
+  let lastUsedIndex = -1;
+  let startIndex = 0;
+  while (startIndex < lastUsedIndex + 1 + GAP_LIMIT) {
+    const addressesResponse = await generateAddresses({
+      addressCount: changeAddress ? 0 : CHUNK_LIMIT,
+      changeAddressCount: changeAddress ? CHUNK_LIMIT : 0,
+      addressIndex: startIndex,
+      changeAddressIndex: startIndex,
+      addressType,
+      seed,
+      selectedNetwork,
+    });
+    if (addressesResponse.isErr()) {
+      return err(addressesResponse.error.message);
+    }
+    const addresses = changeAddress
+      ? addressesResponse.value.changeAddresses
+      : addressesResponse.value.addresses;
+    const usedScriptHashes = await getChainSource({ selectedNetwork }).getUsedScriptHashes(
+      Object.keys(addresses)
+    );
+    if (usedScriptHashes.isErr()) {
+      return err(usedScriptHashes.error.message);
+    }
+    usedScriptHashes.value.forEach((scriptHash) => {
+      lastUsedIndex = Math.max(lastUsedIndex, addresses[scriptHash].index);
+    });
+    startIndex += CHUNK_LIMIT;
+  }
+  return ok(lastUsedIndex + 1);
+};
+
+/**
+ * Finds the used receive and change addresses of every address type by scanning Electrum
+ * history up to the gap limit, then moves the address indexes past them.
+ * Used when restoring a wallet, otherwise previously used addresses would be ignored.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<Partial<IAddressTypeContent<TAddressIndexes>>>>}
+ */
+export const discoverAddresses = async ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): Promise<Result<Partial<IAddressTypeContent<TAddressIndexes>>>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    const seed = await getSeed();
+    if (seed.isErr()) {
+      return err(seed.error.message);
+    }
+
+    const addressIndexes: Partial<IAddressTypeContent<TAddressIndexes>> = {};
+    for (const addressType of Object.keys(getWalletStore().addressTypes) as EAddressType[]) {
+      const addressIndex = await discoverChain({
+        seed: seed.value,
+        addressType,
+        changeAddress: false,
+        selectedNetwork,
+      });
+      if (addressIndex.isErr()) {
+        return err(addressIndex.error.message);
+      }
+      const changeAddressIndex = await discoverChain({
+        seed: seed.value,
+        addressType,
+        changeAddress: true,
+        selectedNetwork,
+      });
+      if (changeAddressIndex.isErr()) {
+        return err(changeAddressIndex.error.message);
+      }
+      addressIndexes[addressType] = {
+        addressIndex: addressIndex.value,
+        changeAddressIndex: changeAddressIndex.value,
+      };
+    }
+
+    // never move the indexes of the selected address type backwards
+    const walletinfo = getWalletStore().walletinfo;
+    const selected = addressIndexes[getSelectedAddressType()];
+    if (selected) {
+      store.dispatch.wallet.setAddressIndex(
+        Math.max(walletinfo.addressIndex, selected.addressIndex)
+      );
+      store.dispatch.wallet.setChangeAddressIndex(
+        Math.max(walletinfo.changeAddressIndex ?? 0, selected.changeAddressIndex)
+      );
+    }
+    store.dispatch.wallet.updateWalletInfo({ addressIndexes });
+    return ok(addressIndexes);
+  } catch (e) {
+    return err(e);
+  }
+};
+
+/**
+ * Fetches the unspent outputs and balance of every address handed out so far,
+ * subscribes to them for updates and saves the result to the wallet store.
+ * The next unused receive and change addresses are checked too so funds sent
+ * to them (e.g. channel close sweeps) are picked up right away.
+ * Used addresses of other address types found by discovery are tracked as well.
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @return {Promise<Result<TOnchainBalance>>}
+ */
+export const refreshUtxos = async ({
+  selectedNetwork,
+}: {
+  selectedNetwork?: TAvailableNetworks;
+} = {}): Promise<Result<TOnchainBalance>> => {
+  try {
+    if (!selectedNetwork) {
+      selectedNetwork = getSelectedNetwork();
+    }
+    const {
+      addressIndex,
+      changeAddressIndex = 0,
+      addressIndexes = {},
+    } = getWalletStore().walletinfo;
+    const selectedAddressType = getSelectedAddressType();
+    const seed = await getSeed();
+    if (seed.isErr()) {
+      return err(seed.error.message);
+    }
+
+    const addressesResponse = await generateAddresses({
+      addressCount: addressIndex + 1,
+      changeAddressCount: changeAddressIndex + 1,
+      addressType: selectedAddressType,
+      seed: seed.value,
+      selectedNetwork,
+    });
+    if (addressesResponse.isErr()) {
+      return err(addressesResponse.error.message);
+    }
+    const receiveAddresses = Object.values<IAddress>(addressesResponse.value.addresses);
+    const changeAddresses = Object.values<IAddress>(addressesResponse.value.changeAddresses);
+    const addresses = [...receiveAddresses, ...changeAddresses];
+
+    // move past the next unused addresses if they have been used in the meantime
+    const nextAddress = receiveAddresses.find(({ index }) => index === addressIndex);
+    if (nextAddress && (await addressHasHistory(nextAddress.address, selectedNetwork))) {
+      store.dispatch.wallet.setAddressIndex(addressIndex + 1);
+    }
+    const nextChangeAddress = changeAddresses.find(({ index }) => index === changeAddressIndex);
+    if (
+      nextChangeAddress &&
+      (await addressHasHistory(nextChangeAddress.address, selectedNetwork))
+    ) {
+      store.dispatch.wallet.setChangeAddressIndex(changeAddressIndex + 1);
+    }
+
+    for (const [addressType, indexes] of Object.entries(addressIndexes)) {
+      if (addressType === selectedAddressType || !indexes) {
+        continue;
+      }
+      if (!indexes.addressIndex && !indexes.changeAddressIndex) {
+        continue;
+      }
+      const otherAddresses = await generateAddresses({
+        addressCount: indexes.addressIndex,
+        changeAddressCount: indexes.changeAddressIndex,
+        addressType: addressType as EAddressType,
+        seed: seed.value,
+        selectedNetwork,
+      });
+      if (otherAddresses.isErr()) {
+        return err(otherAddresses.error.message);
+      }
+      addresses.push(
+        ...Object.values<IAddress>(otherAddresses.value.addresses),
+        ...Object.values<IAddress>(otherAddresses.value.changeAddresses)
+      );
     }
+
+    const chainSource = getChainSource({ selectedNetwork });
+    const utxosResponse = await chainSource.listUnspent(addresses);
+    if (utxosResponse.isErr()) {
+      return err(utxosResponse.error.message);
+    }
+    const balanceResponse = await chainSource.getAddressBalance(
+      addresses.map(({ address }) => address)
+    );
+    if (balanceResponse.isErr()) {
+      return err(balanceResponse.error.message);
+    }
+
+    store.dispatch.wallet.updateUtxos({ selectedNetwork, utxos: utxosResponse.value });
+    store.dispatch.wallet.updateOnchainBalance({
+      selectedNetwork,
+      balance: balanceResponse.value,
+    });
+
+    await chainSource.subscribeToAddresses(addresses.map(({ scriptHash }) => scriptHash));
+
+    return ok(balanceResponse.value);
   } catch (e) {
     return err(e);
   }
@@ -401,7 +830,48 @@ export const getKeyDerivationPath = ({
 };
 
 /**
- * Generates a newly specified wallet.
+ * Sets the address type new receive and change addresses are derived for.
+ * The indexes of the previous type are kept in addressIndexes so its used addresses
+ * are still tracked, and picking it again continues where it left off.
+ * @param {EAddressType} addressType
+ * @param {TAvailableNetworks} [selectedNetwork]
+ * @returns {Result<EAddressType>}
+ */
+export const updateAddressType = ({
+  addressType,
+  selectedNetwork,
+}: {
+  addressType: EAddressType;
+  selectedNetwork?: TAvailableNetworks;
+}): Result<EAddressType> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
+  const currentAddressType = getSelectedAddressType();
+  if (addressType === currentAddressType) {
+    return ok(addressType);
+  }
+  const keyDerivationPath = getKeyDerivationPath({ addressType, selectedNetwork });
+  if (keyDerivationPath.isErr()) {
+    return err(keyDerivationPath.error.message);
+  }
+  const { addressIndex, changeAddressIndex = 0, addressIndexes = {} } = getWalletStore().walletinfo;
+  const next = addressIndexes[addressType];
+  store.dispatch.wallet.updateWalletInfo({
+    addressType,
+    keyDerivationPath: keyDerivationPath.value,
+    addressIndex: next?.addressIndex ?? 0,
+    changeAddressIndex: next?.changeAddressIndex ?? 0,
+    addressIndexes: {
+      ...addressIndexes,
+      [currentAddressType]: { addressIndex, changeAddressIndex },
+    },
+  });
+  return ok(addressType);
+};
+
+/**
+ * Generates a newly specified wallet, or sets it up from the provided mnemonic.
  * @param {string} [wallet]
  * @param {string} [mnemonic]
  * @param {string} [bip39Passphrase]
@@ -409,7 +879,8 @@ export const getKeyDerivationPath = ({
  */
 export const createDefaultWallet = async ({
   walletName = getDefaultWalletShape().id,
-  bip39Passphrase = '',
+  mnemonic,
+  bip39Passphrase,
   addressTypes,
   selectedNetwork,
 }: ICreateWallet): Promise<Result<IWallet>> => {
@@ -425,13 +896,15 @@ export const createDefaultWallet = async ({
 
     const selectedAddressType = getSelectedAddressType();
 
-    // check if request came with bip39 passphrase
-    if (!bip39Passphrase) {
+    // an empty passphrase is a choice, only fall back to the keychain when none was given
+    if (bip39Passphrase === undefined) {
       bip39Passphrase = await getBip39Passphrase(walletName);
     }
 
-    // generate new mnemonic
-    const mnemonic = await generateMnemonic({});
+    // generate new mnemonic unless one is being restored
+    if (!mnemonic) {
+      mnemonic = await generateMnemonic({});
+    }
     if (!mnemonic) {
       return err('Unable to generate mnemonic.');
     }
@@ -476,6 +949,135 @@ export const createDefaultWallet = async ({
   }
 };
 
+/**
+ * Sets up the wallet from an existing mnemonic and optional bip39 passphrase.
+ * Address discovery and LDK recovery happen once lightning is started with the restore flag.
+ * @param {string} mnemonic
+ * @param {string} [bip39Passphrase]
+ * @param {TWalletName} [walletName]
+ * @return {Promise<Result<IWallet>>}
+ */
+export const restoreWallet = async ({
+  mnemonic,
+  bip39Passphrase = '',
+  walletName = getDefaultWalletShape().id,
+}: {
+  mnemonic: string;
+  bip39Passphrase?: string;
+  walletName?: TWalletName;
+}): Promise<Result<IWallet>> => {
+  const normalizedMnemonic = mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+  if (!validateMnemonic(normalizedMnemonic)) {
+    return err('Invalid recovery phrase.');
+  }
+  // overwrite any passphrase left in the keychain by a previous install
+  await setKeychainValue({ key: `${walletName}passphrase`, value: bip39Passphrase });
+  return await createDefaultWallet({
+    walletName,
+    mnemonic: normalizedMnemonic,
+    bip39Passphrase,
+  });
+};
+
+/**
+ * Returns the name for the next wallet to be created (Ex: 'wallet1').
+ * @return {TWalletName}
+ */
+const getNextWalletName = (): TWalletName => {
+  const indexes = Object.keys(getWalletStore().wallets).map((id) =>
+    Number(id.replace('wallet', ''))
+  );
+  return `wallet${Math.max(-1, ...indexes) + 1}`;
+};
+
+/**
+ * Stops the running node and swaps the selected wallet's state for that of another wallet.
+ * @param {TWalletName} walletName
+ */
+const selectWallet = async (walletName: TWalletName): Promise<void> => {
+  const from = getSelectedWallet();
+  // stop first so events from the old node can't land in the new wallet's state
+  unsubscribeFromLDKSubscriptions();
+  await resetLdk();
+  store.dispatch.wallet.switchWallet({ from, to: walletName });
+  store.dispatch.lightning.switchWallet({ from, to: walletName });
+  store.dispatch.nuxt.setBackupCompleted(getWalletStore().walletinfo.hasBackedUpWallet);
+};
+
+/**
+ * Switches to another wallet on this device and starts its lightning node.
+ * @param {TWalletName} walletName
+ * @return {Promise<Result<string>>}
+ */
+export const switchWallet = async ({
+  walletName,
+}: {
+  walletName: TWalletName;
+}): Promise<Result<string>> => {
+  if (walletName === getSelectedWallet()) {
+    return ok('Wallet already selected');
+  }
+  if (!getWalletStore().wallets[walletName]) {
+    return err('Unknown wallet.');
+  }
+  await selectWallet(walletName);
+  return await startLightning({});
+};
+
+/**
+ * Adds a wallet next to the existing ones and switches to it. A recovery phrase
+ * imports an existing wallet, leaving it out generates a new one.
+ * @param {string} name shown in the wallet switcher
+ * @param {string} [mnemonic]
+ * @param {string} [bip39Passphrase]
+ * @return {Promise<Result<string>>}
+ */
+export const createWallet = async ({
+  name,
+  mnemonic,
+  bip39Passphrase = '',
+}: {
+  name: string;
+  mnemonic?: string;
+  bip39Passphrase?: string;
+}): Promise<Result<string>> => {
+  try {
+    const isImport = !!mnemonic;
+    if (!mnemonic) {
+      mnemonic = await generateMnemonic({});
+    }
+    if (!mnemonic) {
+      return err('Unable to generate mnemonic.');
+    }
+    const normalizedMnemonic = mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+    if (!validateMnemonic(normalizedMnemonic)) {
+      return err('Invalid recovery phrase.');
+    }
+    const from = getSelectedWallet();
+    const walletName = getNextWalletName();
+    store.dispatch.wallet.addWallet({ id: walletName, name, createdAt: Date.now() });
+    // the restore writes to the selected wallet, so it can only run once switched
+    await selectWallet(walletName);
+    const restoreRes = await restoreWallet({
+      mnemonic: normalizedMnemonic,
+      bip39Passphrase,
+      walletName,
+    });
+    if (restoreRes.isErr()) {
+      // go back to the previous wallet and forget the one that failed to restore
+      await selectWallet(from);
+      store.dispatch.wallet.removeWallet(walletName);
+      store.dispatch.lightning.removeWallet(walletName);
+      await startLightning({});
+      return err(restoreRes.error.message);
+    }
+    // an imported wallet may have funds and channels to recover
+    return await startLightning({ restore: isImport });
+  } catch (e) {
+    return err(e);
+  }
+};
+
 export const refreshWallet = async ({
   selectedNetwork,
 }: {
@@ -491,16 +1093,23 @@ export const refreshWallet = async ({
 
     const isConnectedToElectrum = store.getState().app.isConnectedToElectrum;
 
+    let utxosError: string | undefined;
     if (isConnectedToElectrum) {
-      await subscribeToAddresses({
-        selectedNetwork,
-      });
+      const utxosResponse = await refreshUtxos({ selectedNetwork });
+      if (utxosResponse.isErr()) {
+        Logger.error(TAG, 'Unable to refresh utxos', utxosResponse.error);
+        utxosError = utxosResponse.error.message;
+      }
     }
 
+    // lightning still syncs when the on-chain refresh failed
     await refreshLdk({ selectedNetwork });
 
     // reorg transactions, run tests etc
 
+    if (utxosError) {
+      return err(utxosError);
+    }
     return ok('');
   } catch (e) {
     return err(e);
@@ -508,52 +1117,33 @@ export const refreshWallet = async ({
 };
 
 /**
- * Returns the current fee estimates for the provided network.
+ * Refreshes the fee estimates in state once they are older than REFRESH_INTERVAL.
+ * The previous estimates are kept when no source answers.
  * @param {TAvailableNetworks} [selectedNetwork]
- * @returns {Promise<IOnchainFees>}
+ * @param {boolean} [forceUpdate]
+ * @returns {Promise<Result<string>>}
  */
-export const getFeeEstimates = async (
-  selectedNetwork?: TAvailableNetworks
-): Promise<IOnchainFees> => {
-  try {
-    if (!selectedNetwork) {
-      selectedNetwork = getSelectedNetwork();
-    }
-
-    if (__DEV__ && selectedNetwork === EAvailableNetworks.bitcoinRegtest) {
-      return walletModel.fees;
-    }
-
-    const urlModifier = selectedNetwork === 'bitcoin' ? '' : 'testnet/';
-    const response = await fetch(`https://mempool.space/${urlModifier}api/v1/fees/recommended`);
-    const res: IGetFeeEstimatesResponse = await response.json();
-    return {
-      fast: res.fastestFee,
-      normal: res.halfHourFee,
-      slow: res.hourFee,
-      minimum: res.minimumFee,
-      timestamp: Date.now(),
-    };
-  } catch {
-    return walletModel.fees;
-  }
-};
-
 export const updateFeeEstimates = async ({
   selectedNetwork,
   forceUpdate = false,
 }: {
-  selectedNetwork: TAvailableNetworks;
+  selectedNetwork?: TAvailableNetworks;
   forceUpdate?: boolean;
-}): Promise<Result<string>> => {
+} = {}): Promise<Result<string>> => {
+  if (!selectedNetwork) {
+    selectedNetwork = getSelectedNetwork();
+  }
   const feesStore = getWalletStore().fees;
   const timestamp = feesStore.timestamp;
   const difference = Math.floor((Date.now() - timestamp) / 1000);
 
   if (forceUpdate || (timestamp && difference > REFRESH_INTERVAL)) {
     const feeEstimates = await getFeeEstimates(selectedNetwork);
+    if (feeEstimates.isErr()) {
+      return err(feeEstimates.error.message);
+    }
     // update fees object in state
-    store.dispatch.wallet.updateFees(feeEstimates);
+    store.dispatch.wallet.updateFees(feeEstimates.value);
   }
 
   return ok('Successfully updated on-chain fee estimates.');